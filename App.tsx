@@ -1,55 +1,154 @@
-import React, { useState, useEffect } from 'react';
-import { AppMode, VoteRecord, ElectionConfig, PollingBooth } from './types';
-import { INITIAL_ELECTION_CONFIG } from './constants';
+import React, { useState, useEffect, useRef } from 'react';
+import { AppMode, VoteRecord, ElectionConfig, ElectionRegistry, PollingBooth, SpoiledBallot, SecurityLog, KioskIdentity, PostalEnvelope } from './types';
 import { VoterInterface } from './components/VoterInterface';
 import { AdminDashboard } from './components/AdminDashboard';
-import { Shield, User, Lock } from 'lucide-react';
+import { ReceiptVerifier } from './components/ReceiptVerifier';
+import { KioskEnrollment } from './components/KioskEnrollment';
+import { sealRecord, ledgerHeadOf } from './services/ledgerService';
+import { generateBoothKeyPair, checkIncomingVote, signVoteRecord } from './services/boothSigningService';
+import { generateVoteId, verifyVoteProofs } from './services/cryptoService';
+import { ballotSpecsForBooth, ballotSpecsForConstituency } from './services/ballotService';
+import { POSTAL_DESK_ID, envelopeProblem, postalDeskKeyPair, recordEnvelope } from './services/postalBallotService';
+import { checkIn, loadTokenSigningKey, normalizeEpic } from './services/electoralRollService';
+import { ballotTokenProblem, signBlindedToken, spentTokenProblem } from './services/ballotTokenService';
+import { readinessProblem, openPolls, freezeBulletinBoard, closePolls, pastCloseGrace, CLOSE_GRACE_MS } from './services/pollScheduleService';
+import { loadRegistry, saveRegistry, loadElection, saveElection, summarize, newElectionConfig } from './services/electionRegistryService';
+import { Shield, User, Lock, ShieldCheck } from 'lucide-react';
 
 /* 
   SYSTEM ARCHITECTURE DOCUMENTATION
   
   1. Frontend (React SPA):
-     - View Manager: Handles transitions between Landing, Admin, and Voter modes.
+     - View Manager: Handles transitions between Landing, Admin, Voter and Receipt Verification modes.
      - State Management: React useState for ephemeral state (current step), simulated DB in-memory.
+     - Election Registry: Phases and bye-elections are separate elections, each with its own id and
+       stored config, ledger, spoiled ballots and logs. The app opens one at a time; kiosks are
+       enrolled into one election and open it on voter entry. Published elections can be archived
+       (read-only). Scheduled transitions and the simulation run for the open election only.
      - Services: 
-        - cryptoService: Client-side encryption simulation.
+        - cryptoService: Exponential ElGamal ballot encryption (one 0/1 ciphertext per candidate, or a
+          preference matrix for ranked ballots) with zero-knowledge well-formedness proofs.
+        - ballotService: Per-constituency ballots; each booth offers only its constituency's candidates,
+          with the system-managed NOTA option always last. Rajya Sabha and Legislative Council
+          elections use ranked ballots without NOTA. Multi-contest elections (e.g. sarpanch and
+          ward member) carry one ballot per contest, each encrypted, mixed and tallied separately.
+        - ballotOrderService: Statutory ECI candidate order (party groups, then script-aware collation
+          of names), locked into config.candidates when the polls open; optional per-booth display
+          rotation for institutional elections.
+        - ledgerService: SHA-256 hash chain over the append-only ballot ledger.
+        - merkleService: Bulletin board Merkle root and voter inclusion proofs.
+        - boothSigningService: Kiosk enrolment and per-booth ECDSA ballot signatures.
+        - mixnetService: Verifiable re-encryption mix (shuffle proof) between close and decryption.
+        - receiptService: Public receipt lookup; checks position, hash chain and inclusion only.
+        - tallyService: Homomorphic tally of the mixed set, decrypting only per-candidate sums with
+          decryption proofs; optionally (and always for ranked ballots) each mixed ballot is opened
+          and proven instead, cross-checked against the aggregate.
+        - stvService: Single transferable vote count (Droop quota, fractional surplus transfers)
+          producing round-by-round transfer tables; IRV when one seat is filled.
+        - electoralRollService: Per-booth electoral roll keyed by EPIC number; check-in marks the elector
+          and turnout is counted from the marks.
+        - ballotTokenService: RSA blind signatures on single-use ballot tokens issued at check-in.
+        - voterSlipService: Voter information slips; each QR code carries the elector's EPIC number
+          signed with the returning officer's slip key, checked by the kiosk before check-in.
+        - qrScanService: Camera access and QR decoding (BarcodeDetector, or the bundled jsQR).
+        - postalBallotService: Postal and service-voter envelope register; accepted ballots are keyed in
+          at the returning officer's postal desk, encrypted, signed with the desk key and tagged POSTAL.
+        - declarationService: Winners and margins per contest, ties settled by a replayable draw of
+          lots, recounts from the ledger ballots with the key rebuilt, and the declaration that
+          publishes the election.
+        - electionRecordService: Exportable election record; verifier/ re-checks it offline with Node.
+          The services' cryptographic and counting checks in tests/ run with `npm test`.
+        - keyCeremonyService: k-of-n trustee key splitting (Shamir secret sharing).
+        - partyService: Party registry rules (unique short codes, retire instead of delete while
+          candidates stand for a party).
+        - symbolService: Uploaded party symbols (checked for size and contrast) and candidate
+          photographs, stored offline as data URLs. Symbols are unique on every ballot; independents
+          take a free symbol from the library in constants.
+        - bulkImportService: CSV/JSON import and export of parties, candidates, booths and the
+          roll, checked row by row in a preview before anything is applied.
+        - electionRegistryService: Registry of elections and their per-election storage.
+        - pollScheduleService: Readiness checks, poll opening and closing (bulletin board freeze),
+          shared by the admin buttons and the scheduled transitions.
         - ttsService: Web Speech API wrapper.
   
   2. Security & Privacy:
      - Vote Encryption: Votes are encrypted immediately upon confirmation using a public key.
-     - Anonymity: The VoteRecord does not contain any user identifier.
-     - Tamper-Proofing: Each vote record has an integrity hash.
-     - Decryption: Requires multi-authority key inputs (simulated).
+     - Anonymity: The VoteRecord does not contain any user identifier, and a ledger ballot is
+       never decrypted. By default only the per-candidate sums of the mixed set are; when ballots
+       are opened one by one, only their shuffled, re-encrypted copies in the mixed set are.
+     - One Elector, One Ballot: The roll desk marks the elector at check-in and blind-signs a token
+       the kiosk picked; the unblinded token rides on the ballot and is spent at ingestion. The
+       roll keeps only the mark, so no entry can be matched to its ballot.
+     - Cast-or-Challenge: Voters may challenge an encrypted ballot (Benaloh); its randomness is
+       revealed, the encryption checked, and the ballot spoiled outside the tally.
+     - Ballot Proofs: Every ballot proves each component encrypts 0 or 1 and that they sum to 1
+       (ranked: one choice per preference, each candidate ranked at most once); ballots failing
+       the proofs are rejected at ingestion and again before the mix.
+     - Booth Signatures: Each kiosk enrols with its booth authKey and signs every ballot; ingestion
+       rejects unsigned votes, unknown keys and LOCKED booths. Postal ballots are signed by the
+       postal desk key instead, and each constituency's accepted envelopes must match its postal
+       ballots on the ledger.
+     - Tamper-Proofing: Each vote record is hash-chained to its predecessor; the
+       Audit Ledger re-verifies the chain and flags the first broken record.
+     - Mixnet: After close, ballots are shuffled and re-encrypted with a published shuffle proof;
+       decryption opens only the mixed set, so ballot order and timestamps reveal nothing.
+     - Decryption: The election private key is Shamir-split between trustees at setup;
+       any k of n shares reconstruct it in memory only.
   
   3. Accessibility (A11y):
      - "Need-based" setup: Users select assistance (Voice, Large Text) rather than declaring disability.
      - High Contrast Mode, Large Fonts, Screen Reader support.
      - Color-coded action buttons (Green=Go, Red=Stop).
+     - Check-in by holding the voter slip to the camera, with spoken and coloured feedback for a
+       read, unreadable or unknown slip; the EPIC number can be typed for a damaged slip.
      
   4. Real-Time System (Simulation):
      - The App component runs a `useEffect` interval to simulate WebSocket events from a backend.
      - It randomly updates polling booth status (Online/Offline) and battery levels.
      - It occasionally injects mock security logs.
+     - A second effect opens and closes the polls at the scheduled times. At a scheduled close the
+       kiosk admits no new voters, and the board is frozen once the voter in the booth has cast,
+       or after CLOSE_GRACE_MS if the session is abandoned (logged as a forced close).
 */
 
 const App: React.FC = () => {
   const [mode, setMode] = useState<AppMode>(AppMode.LANDING);
-  const [config, setConfig] = useState<ElectionConfig>(INITIAL_ELECTION_CONFIG);
-  const [votes, setVotes] = useState<VoteRecord[]>([]);
+  // Every election is stored separately; the app has one of them open at a time
+  const [registry, setRegistry] = useState<ElectionRegistry>(loadRegistry);
+  const [stored] = useState(() => loadElection(registry.currentId));
+  const [config, setConfig] = useState<ElectionConfig>(stored.config);
+  const [votes, setVotes] = useState<VoteRecord[]>(stored.votes);
+  // Challenged ballots are kept apart from the ledger so they can never be tallied
+  const [spoiledBallots, setSpoiledBallots] = useState<SpoiledBallot[]>(stored.spoiledBallots);
   const [adminPass, setAdminPass] = useState('');
+  // This device's booth binding; stands in for the kiosk's secure key storage
+  const [kiosk, setKiosk] = useState<KioskIdentity | null>(() => {
+    const savedKiosk = localStorage.getItem('kiosk_identity');
+    // Kiosks enrolled before the registry belong to the election that was then the only one
+    return savedKiosk ? { electionId: registry.currentId, ...JSON.parse(savedKiosk) } : null;
+  });
+  // Ledger tail for appends that land before the next render
+  const votesRef = useRef<VoteRecord[]>(stored.votes);
+  // Electors checked in on this device whose mark may not have reached `config` yet (election id:EPIC)
+  const checkedInRef = useRef(new Set<string>());
+  // A voter has authenticated on this kiosk and not yet cast their ballot
+  const [voterInBooth, setVoterInBooth] = useState(false);
+  const closingRef = useRef(false);
+  const archived = registry.elections.find(e => e.id === config.id)?.archived ?? false;
 
-  // Persist votes to local storage for demo reload capability
+  // Persist to local storage for demo reload capability
   useEffect(() => {
-    const savedVotes = localStorage.getItem('secure_votes');
-    const savedConfig = localStorage.getItem('election_config');
-    if (savedVotes) setVotes(JSON.parse(savedVotes));
-    if (savedConfig) setConfig(JSON.parse(savedConfig));
-  }, []);
+    saveElection({ config, votes, spoiledBallots });
+  }, [votes, config, spoiledBallots]);
 
+  // Keep the open election's registry entry in step with its name, type and status
   useEffect(() => {
-    localStorage.setItem('secure_votes', JSON.stringify(votes));
-    localStorage.setItem('election_config', JSON.stringify(config));
-  }, [votes, config]);
+    setRegistry(prev => ({ ...prev, elections: prev.elections.map(e => e.id === config.id ? summarize(config, e) : e) }));
+  }, [config.id, config.name, config.type, config.status]);
+
+  useEffect(() => {
+    saveRegistry(registry);
+  }, [registry]);
 
   // --- GLOBAL REAL-TIME SIMULATION ---
   useEffect(() => {
@@ -99,20 +198,271 @@ const App: React.FC = () => {
     return () => clearInterval(interval);
   }, [config.status]);
 
-  const handleVoteSubmit = (vote: VoteRecord) => {
-    // 1. Add Vote
-    setVotes(prev => [...prev, vote]);
-    
-    // 2. Simulate updating the Booth's total votes on the server
-    // For this demo, we assume the vote came from 'K-101' (the active kiosk)
+  const logSecurityEvent = (log: Omit<SecurityLog, 'id' | 'timestamp'>) => {
+    const entry: SecurityLog = { id: crypto.randomUUID(), timestamp: Date.now(), ...log };
+    setConfig(prev => ({ ...prev, logs: [entry, ...prev.logs] }));
+  };
+
+  // --- SCHEDULED OPENING AND CLOSING ---
+  useEffect(() => {
+    const due = config.status === 'SETUP' ? config.scheduledStart : config.status === 'ACTIVE' ? config.scheduledEnd : null;
+    if (due === null) return;
+    // The open election may change while a transition is under way
+    const electionId = config.id;
+
+    let waitLogged = false;
+
+    // Resolves true once the transition is done, false to check again on the next tick
+    const runSchedule = async (): Promise<boolean> => {
+      if (config.status === 'SETUP') {
+        // Same readiness checks as the start button; a failed opening is not retried
+        setConfig(prev => {
+          if (prev.id !== electionId || prev.status !== 'SETUP' || prev.scheduledStart === null) return prev;
+          const problem = readinessProblem(prev);
+          if (!problem) return openPolls(prev, 'Polls opened automatically at the scheduled time. Election Status changed to ACTIVE.');
+          const log: SecurityLog = {
+            id: crypto.randomUUID(),
+            timestamp: Date.now(),
+            level: 'CRITICAL',
+            category: 'SYSTEM',
+            message: `Scheduled opening cancelled: ${problem} Polls remain closed until opened manually or rescheduled.`
+          };
+          return { ...prev, scheduledStart: null, logs: [log, ...prev.logs] };
+        });
+        return true;
+      }
+      const forced = voterInBooth && pastCloseGrace(config);
+      if (voterInBooth && !forced) {
+        if (!waitLogged) {
+          logSecurityEvent({ level: 'INFO', category: 'SYSTEM', message: `Scheduled closing time reached with a voter in the booth. No new voters admitted; polls close once they finish, or in ${CLOSE_GRACE_MS / 60000} minutes at the latest.`, boothId: kiosk?.boothId });
+          waitLogged = true;
+        }
+        return false;
+      }
+      if (closingRef.current) return false;
+      closingRef.current = true;
+      try {
+        const board = await freezeBulletinBoard(votesRef.current);
+        setConfig(prev => {
+          if (prev.id !== electionId || prev.status !== 'ACTIVE') return prev;
+          if (!forced) return closePolls(prev, board, 'Polls closed automatically at the scheduled time. Election Status changed to CLOSED. All booths locked.');
+          const closed = closePolls(prev, board, 'Polls closed automatically after the closing grace period. Election Status changed to CLOSED. All booths locked.');
+          const log: SecurityLog = {
+            id: crypto.randomUUID(),
+            timestamp: board.frozenAt,
+            level: 'CRITICAL',
+            category: 'SECURITY',
+            message: `Polls force-closed ${CLOSE_GRACE_MS / 60000} minutes after the scheduled time with a voter session still open. The session was abandoned and any ballot it submits will be refused.`,
+            boothId: kiosk?.boothId
+          };
+          return { ...closed, logs: [log, ...closed.logs] };
+        });
+        return true;
+      } finally {
+        closingRef.current = false;
+      }
+    };
+
+    // Checked every second rather than one long timeout, which browsers cap and throttle
+    const timer = setInterval(async () => {
+      if (Date.now() < due) return;
+      if (await runSchedule()) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [config.id, config.status, config.scheduledStart, config.scheduledEnd, voterInBooth]);
+
+  // --- ELECTION REGISTRY ---
+  const openElection = (electionId: string) => {
+    if (electionId === config.id) return;
+    const next = loadElection(electionId);
+    votesRef.current = next.votes;
+    setVotes(next.votes);
+    setSpoiledBallots(next.spoiledBallots);
+    setConfig(next.config);
+    setRegistry(prev => ({ ...prev, currentId: electionId }));
+  };
+
+  const handleCreateElection = (name: string) => {
+    const created = newElectionConfig(config, name);
+    saveElection({ config: created, votes: [], spoiledBallots: [] });
+    setRegistry(prev => ({ ...prev, elections: [...prev.elections, summarize(created)] }));
+    openElection(created.id);
+  };
+
+  const handleArchiveElection = () => {
+    // Logged while the election can still change; from here on it is read-only
+    logSecurityEvent({ level: 'INFO', category: 'SYSTEM', message: 'Election archived. Its record is now read-only.' });
+    setRegistry(prev => ({ ...prev, elections: prev.elections.map(e => e.id === config.id ? { ...e, archived: true } : e) }));
+  };
+
+  // Dashboard actions still running when another election is opened must not land on it
+  // An updater runs against the latest config, for changes that finish after a long await
+  const handleUpdateConfig = (next: ElectionConfig | ((prev: ElectionConfig) => ElectionConfig)) => setConfig(prev => {
+    const updated = typeof next === 'function' ? next(prev) : next;
+    return updated.id === prev.id ? updated : prev;
+  });
+
+  const handleKioskEnroll = async (boothId: string, authKey: string): Promise<string | null> => {
+    const booth = config.booths.find(b => b.id === boothId);
+    if (!booth || booth.authKey !== authKey) {
+      logSecurityEvent({ level: 'WARNING', category: 'SECURITY', message: `Kiosk enrolment rejected for ${boothId}: invalid auth key.`, boothId });
+      return 'Invalid booth or enrolment code.';
+    }
+    if (config.status === 'CLOSED' || config.status === 'PUBLISHED' || booth.status === 'LOCKED') {
+      return 'Polls are closed for this booth.';
+    }
+    if (booth.signingPublicKey && config.status !== 'SETUP') {
+      logSecurityEvent({ level: 'CRITICAL', category: 'SECURITY', message: `Attempt to replace signing key of ${boothId} during polling refused.`, boothId });
+      return 'This booth already has an enrolled kiosk. Keys can only be replaced during setup.';
+    }
+
+    const { publicKey, privateKey } = await generateBoothKeyPair();
+    const identity: KioskIdentity = { electionId: config.id, boothId, privateKey };
+    localStorage.setItem('kiosk_identity', JSON.stringify(identity));
+    setKiosk(identity);
+
+    const log: SecurityLog = {
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      level: 'INFO',
+      category: 'SECURITY',
+      message: `Kiosk enrolled for booth ${boothId}; ballot signing key registered.`,
+      boothId
+    };
+    setConfig(prev => ({
+      ...prev,
+      booths: prev.booths.map(b => b.id === boothId ? { ...b, signingPublicKey: publicKey } : b),
+      logs: [log, ...prev.logs]
+    }));
+    return null;
+  };
+
+  // Roll desk: marks the elector and blind-signs the kiosk's ballot token; it never sees the token itself
+  const handleVoterCheckIn = async (epic: string, blindedToken: string): Promise<string> => {
+    const boothId = kiosk?.boothId ?? '';
+    const signingKey = loadTokenSigningKey(config.id);
+    if (!signingKey) throw new Error('The roll desk signing key is not available.');
+    // Checked against the roll with this device's latest marks, so a second check-in before the next render is refused too
+    const pending = checkedInRef.current;
+    const electoralRoll = config.electoralRoll.map(e => pending.has(`${config.id}:${e.epic}`) ? { ...e, hasVoted: true } : e);
+    const { problem } = checkIn({ ...config, electoralRoll }, boothId, epic);
+    if (problem) {
+      logSecurityEvent({ level: 'WARNING', category: 'ACCESS', message: `Check-in refused for EPIC ${normalizeEpic(epic)}: ${problem}`, boothId });
+      throw new Error(problem);
+    }
+    pending.add(`${config.id}:${normalizeEpic(epic)}`);
+    setConfig(prev => checkIn(prev, boothId, epic).config);
+    return signBlindedToken(blindedToken, signingKey);
+  };
+
+  const handleVoteSubmit = async (vote: Omit<VoteRecord, 'previousHash' | 'integrityHash'>): Promise<VoteRecord> => {
+    // 0. Ingestion gate: only votes signed by an enrolled, unlocked booth are accepted
+    const rejection = await checkIncomingVote(vote, config.booths);
+    if (rejection) {
+      logSecurityEvent({ level: 'CRITICAL', category: 'SECURITY', message: `Vote rejected at ingestion: ${rejection}`, boothId: vote.boothId });
+      throw new Error(rejection);
+    }
+    // Each roll check-in's token buys exactly one ballot
+    const tokenRejection = await ballotTokenProblem(vote, config.tokenKey, votesRef.current);
+    if (tokenRejection) {
+      logSecurityEvent({ level: 'CRITICAL', category: 'SECURITY', message: `Vote rejected at ingestion: ${tokenRejection}`, boothId: vote.boothId });
+      throw new Error(tokenRejection);
+    }
+    // A vote must carry a proven ballot for every contest on its booth's ballot
+    const specs = ballotSpecsForBooth(config, vote.boothId);
+    if (!config.publicKey || !(await verifyVoteProofs(vote.encryptedData, config.publicKey, specs))) {
+      const reason = 'Ballot well-formedness proof failed';
+      logSecurityEvent({ level: 'CRITICAL', category: 'SECURITY', message: `Vote rejected at ingestion: ${reason}`, boothId: vote.boothId });
+      throw new Error(reason);
+    }
+
+    // 1. Chain the vote onto the ledger tail and append it. Sealing is async, so
+    // the vote is sealed again if another ballot landed meanwhile, and its token
+    // is checked once more against the very tail it is appended to
+    let tail: VoteRecord[];
+    let sealed: VoteRecord;
+    do {
+      tail = votesRef.current;
+      sealed = await sealRecord(vote, ledgerHeadOf(tail).hash);
+    } while (tail !== votesRef.current);
+    const spent = spentTokenProblem(vote, tail);
+    if (spent) {
+      logSecurityEvent({ level: 'CRITICAL', category: 'SECURITY', message: `Vote rejected at ingestion: ${spent}`, boothId: vote.boothId });
+      throw new Error(spent);
+    }
+    const ledger = [...tail, sealed];
+    votesRef.current = ledger;
+    setVotes(ledger);
+    setConfig(prev => ({ ...prev, ledgerHead: ledgerHeadOf(ledger) }));
+    return sealed;
+  };
+
+  // Postal desk: a checked envelope, and for an accepted one the ballot encrypted at the desk
+  const handlePostalIntake = async (envelope: PostalEnvelope, encryptedData: string | null): Promise<void> => {
+    const problem = envelopeProblem(config, envelope);
+    if (problem) throw new Error(problem);
+
+    let deskKey: string | null = null;
+    let ledger: VoteRecord[] | null = null;
+    if (envelope.status === 'ACCEPTED') {
+      const specs = ballotSpecsForConstituency(config, envelope.constituency);
+      if (!encryptedData || !config.publicKey || !(await verifyVoteProofs(encryptedData, config.publicKey, specs))) {
+        const reason = 'Ballot well-formedness proof failed';
+        logSecurityEvent({ level: 'CRITICAL', category: 'SECURITY', message: `Postal ballot from envelope ${envelope.serial} rejected at ingestion: ${reason}` });
+        throw new Error(reason);
+      }
+      const desk = await postalDeskKeyPair(config);
+      const unsigned = {
+        voteId: generateVoteId(),
+        encryptedData,
+        timestamp: Date.now(),
+        source: 'POSTAL' as const,
+        boothId: POSTAL_DESK_ID,
+        constituency: envelope.constituency,
+      };
+      const signature = await signVoteRecord(unsigned, desk.privateKey);
+      const tail = votesRef.current;
+      ledger = [...tail, await sealRecord({ ...unsigned, signature }, ledgerHeadOf(tail).hash)];
+      votesRef.current = ledger;
+      setVotes(ledger);
+      deskKey = desk.publicKey;
+    }
+
+    const appended = ledger;
     setConfig(prev => {
-       const updatedBooths = prev.booths.map(b => 
-         b.id === 'K-101' ? { ...b, totalVotes: b.totalVotes + 1 } : b
-       );
-       return { ...prev, booths: updatedBooths };
+      const next = recordEnvelope(prev, envelope);
+      return appended
+        ? { ...next, postalDeskKey: prev.postalDeskKey ?? deskKey, ledgerHead: ledgerHeadOf(appended) }
+        : next;
     });
   };
 
+  const handleSpoilBallot = (ballot: SpoiledBallot) => {
+    setSpoiledBallots(prev => [...prev, ballot]);
+
+    const log: SecurityLog = {
+      id: crypto.randomUUID(),
+      timestamp: ballot.spoiledAt,
+      level: ballot.auditPassed ? 'INFO' : 'CRITICAL',
+      category: ballot.auditPassed ? 'VOTE' : 'SECURITY',
+      message: ballot.auditPassed
+        ? `Ballot ${ballot.ballotId.substring(0, 8)} challenged by voter; encryption verified and ballot spoiled.`
+        : `Ballot ${ballot.ballotId.substring(0, 8)} FAILED voter challenge: encryption did not match the selection.`,
+      boothId: kiosk?.boothId
+    };
+    setConfig(prev => ({ ...prev, logs: [log, ...prev.logs] }));
+  };
+
+  // An enrolled kiosk always opens the election its booth belongs to
+  const handleVoterEntry = () => {
+    if (kiosk && registry.elections.some(e => e.id === kiosk.electionId)) openElection(kiosk.electionId);
+    else if (archived) {
+      const live = registry.elections.find(e => !e.archived);
+      if (live) openElection(live.id);
+    }
+    setMode(AppMode.VOTER_FLOW);
+  };
+
   const handleAdminLogin = () => {
     if (adminPass === '123456') {
       setMode(AppMode.ADMIN_DASHBOARD);
@@ -140,7 +490,7 @@ const App: React.FC = () => {
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-8 max-w-2xl mx-auto">
             <button 
-              onClick={() => setMode(AppMode.VOTER_FLOW)}
+              onClick={handleVoterEntry}
               className="group bg-green-600 hover:bg-green-500 transition-all p-8 rounded-2xl flex flex-col items-center gap-4 shadow-xl hover:scale-105 border-2 border-green-400"
             >
               <User size={48} className="text-green-100" />
@@ -158,6 +508,13 @@ const App: React.FC = () => {
             </button>
           </div>
 
+          <button 
+            onClick={() => setMode(AppMode.VERIFY_RECEIPT)}
+            className="mx-auto flex items-center gap-2 text-blue-200 hover:text-white border border-blue-400/50 hover:border-blue-300 px-6 py-3 rounded-xl transition-colors"
+          >
+            <ShieldCheck size={20} /> Verify My Receipt
+          </button>
+
           <footer className="mt-16 text-slate-500 text-sm">
             <p>System Design Principles: Accessible for everyone, secure by design, trusted by democracy.</p>
           </footer>
@@ -207,20 +564,60 @@ const App: React.FC = () => {
   if (mode === AppMode.ADMIN_DASHBOARD) {
     return (
       <AdminDashboard 
+        key={config.id}
         config={config} 
         votes={votes} 
-        onUpdateConfig={setConfig}
+        spoiledBallots={spoiledBallots}
+        elections={registry.elections}
+        readOnly={archived}
+        onUpdateConfig={handleUpdateConfig}
+        onSelectElection={openElection}
+        onCreateElection={handleCreateElection}
+        onArchiveElection={handleArchiveElection}
+        onPostalIntake={handlePostalIntake}
         onReset={() => setMode(AppMode.LANDING)}
       />
     );
   }
 
+  // VIEW: Receipt Verification
+  if (mode === AppMode.VERIFY_RECEIPT) {
+    return (
+      <ReceiptVerifier 
+        key={config.id}
+        config={config}
+        votes={votes}
+        elections={registry.elections}
+        onSelectElection={openElection}
+        onExit={() => setMode(AppMode.LANDING)}
+      />
+    );
+  }
+
   // VIEW: Voter Interface
   if (mode === AppMode.VOTER_FLOW) {
+    const enrolledBooth = kiosk && kiosk.electionId === config.id && config.booths.find(b => b.id === kiosk.boothId);
+    if (!kiosk || !enrolledBooth?.signingPublicKey) {
+      return (
+        <KioskEnrollment 
+          config={config}
+          elections={registry.elections.filter(e => !e.archived)}
+          onSelectElection={openElection}
+          onEnroll={handleKioskEnroll}
+          onExit={() => setMode(AppMode.LANDING)}
+        />
+      );
+    }
+
     return (
       <VoterInterface 
         config={config} 
+        votes={votes}
+        kiosk={kiosk}
+        onCheckIn={handleVoterCheckIn}
         onSubmitVote={handleVoteSubmit}
+        onSpoilBallot={handleSpoilBallot}
+        onSessionChange={setVoterInBooth}
         onExit={() => setMode(AppMode.LANDING)}
       />
     );
@@ -1,31 +1,140 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { 
   Shield, Lock, Unlock, Users, Play, StopCircle, 
   FileText, CheckCircle, AlertTriangle, Activity, 
   Settings, Server, Database, Save, Trash2, Plus, 
   RefreshCw, Eye, EyeOff, ClipboardList, Wifi, WifiOff, Battery, BatteryCharging,
-  Accessibility, Globe, MapPin, XCircle
+  Accessibility, Globe, MapPin, XCircle, Shuffle, Archive, Upload, Download, Mail, QrCode
 } from 'lucide-react';
-import { ElectionConfig, VoteRecord, TallyResult, Candidate, PollingBooth, SecurityLog, Party, PartyCategory } from '../types';
-import { decryptVote } from '../services/cryptoService';
-import { ELECTION_TYPES } from '../constants';
+import { BallotOrder, TallyMode, ElectionConfig, ElectionSummary, VoteRecord, PublishedTally, PreferentialCount, Candidate, Contest, PollingBooth, SecurityLog, Party, PartyCategory, SpoiledBallot, PostalEnvelope, Recount, Trustee } from '../types';
+import { encryptBallot, fingerprintKey, verifyVoteProofs } from '../services/cryptoService';
+import { runKeyCeremony, reconstructSecret, hashShare } from '../services/keyCeremonyService';
+import { combineSourceTallies, tallyMixedSet, TALLY_MODE_LABELS } from '../services/tallyService';
+import { contestLotOrder, contestOutcome, drawLots, recordDraw, recountContest, recordRecount, latestRecount, drawFor, declarationProblem, declareResults } from '../services/declarationService';
+import { buildElectionRecord } from '../services/electionRecordService';
+import { mixElection, verifyElectionMix, MixVerification } from '../services/mixnetService';
+import { listConstituencies, symbolClashes, ballotSpecsForVote, ballotSpecsForConstituency, ballotCandidates, contestSeats, isPreferential, sourceOfVote, VOTE_SOURCES } from '../services/ballotService';
+import { envelopeCheckDay, envelopeProblem, POSTAL_REJECTION_REASONS, VOTER_CATEGORY_LABELS } from '../services/postalBallotService';
+import { boothTurnout, saveTokenSigningKey } from '../services/electoralRollService';
+import { generateTokenKeyPair } from '../services/ballotTokenService';
+import { issueVoterSlips } from '../services/voterSlipService';
+import { verifyLedger, LedgerVerification, LedgerFault } from '../services/ledgerService';
+import { computeMerkleRoot } from '../services/merkleService';
+import { sortCandidates, BALLOT_ORDER_RULES } from '../services/ballotOrderService';
+import { partyProblem, candidatesOfParty, syncPartyCandidates } from '../services/partyService';
+import { prepareSymbolImage, prepareCandidatePhoto, photoAltText, SYMBOL_MAX_BYTES, PHOTO_MAX_BYTES } from '../services/symbolService';
+import { previewImport, applyImport, exportRecords, toCsv, importErrorCount, BULK_KIND_LABELS, BulkKind, BulkFormat, ImportPreview } from '../services/bulkImportService';
+import { readinessProblem, openPolls, freezeBulletinBoard, closePolls, scheduleProblem, formatCountdown } from '../services/pollScheduleService';
+import { ELECTION_TYPES, NOTA_CANDIDATE, FREE_SYMBOLS } from '../constants';
+import { PollCountdown, useClock, formatClockTime } from './PollCountdown';
+import { SymbolMark } from './SymbolMark';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 
 interface Props {
   config: ElectionConfig;
   votes: VoteRecord[];
-  onUpdateConfig: (config: ElectionConfig) => void;
+  spoiledBallots: SpoiledBallot[];
+  elections: ElectionSummary[];
+  readOnly: boolean; // Archived election
+  onUpdateConfig: (config: ElectionConfig | ((prev: ElectionConfig) => ElectionConfig)) => void;
+  onSelectElection: (electionId: string) => void;
+  onCreateElection: (name: string) => void;
+  onArchiveElection: () => void;
+  onPostalIntake: (envelope: PostalEnvelope, encryptedData: string | null) => Promise<void>;
   onReset: () => void;
 }
 
-type Tab = 'CONFIG' | 'PARTIES' | 'BOOTHS' | 'MONITOR' | 'RESULTS';
+type Tab = 'CONFIG' | 'PARTIES' | 'BOOTHS' | 'MONITOR' | 'POSTAL' | 'RESULTS';
 
-export const AdminDashboard: React.FC<Props> = ({ config, votes, onUpdateConfig, onReset }) => {
+const LEDGER_FAULT_LABELS: Record<LedgerFault, string> = {
+  HASH_MISMATCH: 'Record contents altered',
+  CHAIN_BROKEN: 'Chain link broken (record removed or reordered)',
+  HEAD_MISMATCH: 'Ledger head mismatch (records truncated or appended)',
+};
+
+// datetime-local inputs work in local wall-clock time without a zone suffix
+const toDateTimeInput = (time: number | null) => {
+  if (time === null) return '';
+  const local = new Date(time - new Date(time).getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const formatVotes = (value: number) => Number.isInteger(value) ? String(value) : value.toFixed(2);
+
+// Round-by-round STV transfer table: each column shows the votes held when
+// the round began (with the amount just transferred in) and what the round did.
+const StvRoundsTable: React.FC<{ count: PreferentialCount; nameOf: (id: string) => string }> = ({ count, nameOf }) => {
+  const candidateIds = Object.keys(count.rounds[0]?.tallies ?? {});
+  return (
+    <div className="overflow-x-auto">
+      <p className="text-xs font-bold text-gray-500 uppercase">Transfers by round</p>
+      <table className="w-full text-xs mt-1">
+        <thead>
+          <tr className="text-left text-gray-500 border-b">
+            <th className="py-1 pr-2">Candidate</th>
+            {count.rounds.map(r => <th key={r.round} className="py-1 px-2 text-right">R{r.round}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {candidateIds.map(id => (
+            <tr key={id} className="border-b">
+              <td className={`py-1 pr-2 ${count.elected.includes(id) ? 'font-bold text-green-700' : ''}`}>{nameOf(id)}</td>
+              {count.rounds.map((r, i) => {
+                const transferred = i > 0 ? count.rounds[i - 1].transfers[id] : undefined;
+                return (
+                  <td key={r.round} className={`py-1 px-2 text-right font-mono ${r.elected.includes(id) ? 'bg-green-50 font-bold' : r.excluded === id ? 'bg-red-50 line-through' : ''}`}>
+                    {id in r.tallies ? formatVotes(r.tallies[id]) : ''}
+                    {transferred ? <span className="block text-gray-400">+{formatVotes(transferred)}</span> : null}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+          <tr className="border-b text-gray-500">
+            <td className="py-1 pr-2">Exhausted</td>
+            {count.rounds.map(r => <td key={r.round} className="py-1 px-2 text-right font-mono">{formatVotes(r.exhausted)}</td>)}
+          </tr>
+          <tr className="text-gray-600">
+            <td className="py-1 pr-2">Action</td>
+            {count.rounds.map(r => (
+              <td key={r.round} className="py-1 px-2 text-right">
+                {r.elected.length > 0 ? `Elected ${r.elected.map(nameOf).join(', ')}` : r.excluded ? `Excluded ${nameOf(r.excluded)}` : ''}
+              </td>
+            ))}
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export const AdminDashboard: React.FC<Props> = ({ config, votes, spoiledBallots, elections, readOnly, onUpdateConfig, onSelectElection, onCreateElection, onArchiveElection, onPostalIntake, onReset }) => {
   const [activeTab, setActiveTab] = useState<Tab>(config.status === 'SETUP' ? 'CONFIG' : 'MONITOR');
+  const now = useClock();
   
   // Setup State
   const [newCandidateName, setNewCandidateName] = useState('');
   const [selectedPartyId, setSelectedPartyId] = useState('');
+  // Party being registered (empty id) or edited
+  const [partyDraft, setPartyDraft] = useState<Party | null>(null);
+  const [newCandidateConstituency, setNewCandidateConstituency] = useState('');
+  const [newCandidateContest, setNewCandidateContest] = useState('');
+  const [newCandidateSymbol, setNewCandidateSymbol] = useState(''); // Free symbol; empty for the party's own
+  const [newCandidatePhoto, setNewCandidatePhoto] = useState<string | null>(null);
+  const [newContestName, setNewContestName] = useState('');
+  const [newContestSeats, setNewContestSeats] = useState(1);
+  const [importKind, setImportKind] = useState<BulkKind>('booths');
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [scheduleDraft, setScheduleDraft] = useState({ start: toDateTimeInput(config.scheduledStart), end: toDateTimeInput(config.scheduledEnd) });
   
   // Booth Setup State
   const [showBoothForm, setShowBoothForm] = useState(false);
@@ -36,78 +145,217 @@ export const AdminDashboard: React.FC<Props> = ({ config, votes, onUpdateConfig,
   });
 
   // Results State
-  const [authKey1, setAuthKey1] = useState('');
-  const [authKey2, setAuthKey2] = useState('');
-  const [key1Valid, setKey1Valid] = useState(false);
-  const [key2Valid, setKey2Valid] = useState(false);
-  const [results, setResults] = useState<TallyResult[] | null>(null);
+  const [shareInputs, setShareInputs] = useState<Record<string, string>>({});
+  const [validShares, setValidShares] = useState<Record<string, boolean>>({});
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const results = config.tally;
+  const [returningOfficer, setReturningOfficer] = useState('');
+  const [recounting, setRecounting] = useState<string | null>(null); // constituency:contestId being recounted
+  const [ledgerCheck, setLedgerCheck] = useState<LedgerVerification | null>(null);
+  const [isMixing, setIsMixing] = useState(false);
+  const [mixCheck, setMixCheck] = useState<MixVerification | null>(null);
+  const [proofChecks, setProofChecks] = useState<Record<string, boolean>>({});
+  // Records are immutable once sealed, so each ballot's proofs are checked once
+  const proofCache = useRef<Record<string, boolean>>({});
+
+  // Postal Desk State; choices are a candidate id, or preferences in order when ranked
+  const [postalDraft, setPostalDraft] = useState({ serial: '', constituency: '', voterCategory: 'POSTAL' as PostalEnvelope['voterCategory'], reason: POSTAL_REJECTION_REASONS[0], otherReason: '' });
+  const [postalChoices, setPostalChoices] = useState<Record<string, string[]>>({});
+  const [isEnteringPostal, setIsEnteringPostal] = useState(false);
+
+  // Key Ceremony State (shares are shown once, never persisted)
+  const [trusteeNames, setTrusteeNames] = useState<string[]>(['', '', '']);
+  const [ceremonyThreshold, setCeremonyThreshold] = useState(config.threshold);
+  const [issuedShares, setIssuedShares] = useState<Record<string, string> | null>(null);
+  const [keyFingerprint, setKeyFingerprint] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!config.publicKey) {
+      setKeyFingerprint(null);
+      return;
+    }
+    fingerprintKey(config.publicKey).then(setKeyFingerprint).catch(() => setKeyFingerprint(null));
+  }, [config.publicKey]);
+
+  // The schedule also changes without this form, e.g. when a scheduled opening is cancelled
+  useEffect(() => {
+    setScheduleDraft({ start: toDateTimeInput(config.scheduledStart), end: toDateTimeInput(config.scheduledEnd) });
+  }, [config.scheduledStart, config.scheduledEnd]);
+
+  // Share Validation Effect
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(config.trustees.map(async t => {
+      const input = shareInputs[t.id];
+      return [t.id, !!input && (await hashShare(input)) === t.shareHash] as const;
+    })).then(entries => {
+      if (!cancelled) setValidShares(Object.fromEntries(entries));
+    });
+    return () => { cancelled = true; };
+  }, [shareInputs, config.trustees]);
 
-  // Key Validation Effect
+  // Ledger Verification Effect
   useEffect(() => {
-    setKey1Valid(authKey1 === 'admin1');
-    setKey2Valid(authKey2 === 'admin2');
-  }, [authKey1, authKey2]);
+    let cancelled = false;
+    verifyLedger(votes, config.ledgerHead).then(result => {
+      if (!cancelled) setLedgerCheck(result);
+    });
+    return () => { cancelled = true; };
+  }, [votes, config.ledgerHead]);
+
+  // Shuffle Proof Verification Effect
+  useEffect(() => {
+    let cancelled = false;
+    setMixCheck(null);
+    if (!config.mixedBallots || !config.publicKey || !config.bulletinBoard) return;
+    verifyElectionMix(config.mixedBallots, votes, config, config.publicKey, config.bulletinBoard.root).then(result => {
+      if (!cancelled) setMixCheck(result);
+    });
+    return () => { cancelled = true; };
+  }, [config.mixedBallots, votes, config.publicKey, config.bulletinBoard, config.type, config.contests, config.booths, config.candidates]);
+
+  // Ballot Proof Verification Effect
+  useEffect(() => {
+    let cancelled = false;
+    const publicKey = config.publicKey;
+    if (!publicKey) return;
+    // Proof validity depends on the key and the booth's ballot as well as the record
+    const cacheKey = (v: VoteRecord) => `${publicKey}:${JSON.stringify(ballotSpecsForVote(config, v))}:${v.integrityHash}`;
+    (async () => {
+      for (const vote of votes) {
+        if (cancelled) return;
+        const key = cacheKey(vote);
+        if (!(key in proofCache.current)) {
+          proofCache.current[key] = await verifyVoteProofs(vote.encryptedData, publicKey, ballotSpecsForVote(config, vote));
+        }
+      }
+      if (!cancelled) {
+        setProofChecks(Object.fromEntries(votes.map(v => [v.voteId, proofCache.current[cacheKey(v)]])));
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [votes, config.publicKey, config.type, config.contests, config.candidates, config.booths]);
+
+  const invalidProofCount = votes.filter(v => proofChecks[v.voteId] === false).length;
+
+  const contestName = (contestId: string) => config.contests.find(c => c.id === contestId)?.name ?? contestId;
+
+  const validShareCount = config.trustees.filter(t => validShares[t.id]).length;
+  const quorumReached = config.trustees.length > 0 && validShareCount >= config.threshold;
 
 
   // --- ACTIONS ---
 
+  // Archived elections are read-only: every change is refused here
+  const updateConfig = (next: ElectionConfig | ((prev: ElectionConfig) => ElectionConfig)) => {
+    if (readOnly) {
+      alert("This election is archived and read-only.");
+      return;
+    }
+    onUpdateConfig(next);
+  };
+
+  const handleCreateElection = () => {
+    const name = prompt("Name of the new election. It starts from this election's contests, candidates, parties and booths.", `${config.name} (Bye-election)`);
+    if (!name?.trim()) return;
+    onCreateElection(name.trim());
+  };
+
+  const handleArchiveElection = () => {
+    if (!confirm(`Archive "${config.name}"? It stays available for audit but can never be changed again.`)) return;
+    onArchiveElection();
+  };
+
   const handleStartElection = () => {
-    // Validate Readiness
-    const unreadyBooths = config.booths.filter(b => !b.accessibilityReady);
-    if (unreadyBooths.length > 0) {
-       const ids = unreadyBooths.map(b => b.id).join(', ');
-       alert(`CANNOT START ELECTION.\n\nThe following booths failed the Accessibility Readiness Check:\n👉 ${ids}\n\nPlease either:\n1. Update the booth to be "Accessibility Ready" (if configuring new booth)\n2. Remove the defective booth\n3. Ensure all equipment is functioning`);
-       return;
-    }
-    if (config.candidates.length < 2) {
-      alert("Please add at least 2 candidates to the ballot.");
+    const problem = readinessProblem(config);
+    if (problem) {
+      alert(`CANNOT START ELECTION.\n\n${problem}`);
+      return;
+    }
+    updateConfig(openPolls(config, 'Election Status changed to ACTIVE. All booths unlocked.'));
+    setActiveTab('MONITOR');
+  };
+
+  const handleStopElection = async () => {
+    if (!confirm("Are you sure you want to close voting? This permanently locks all booths.")) return;
+    const board = await freezeBulletinBoard(votes);
+    updateConfig(closePolls(config, board, 'Election Status changed to CLOSED. All booths locked.'));
+    setActiveTab('RESULTS');
+  };
+
+  const handleSaveSchedule = () => {
+    const parse = (value: string) => value ? new Date(value).getTime() : null;
+    // Once the polls are open only the closing time can still change
+    const scheduled = {
+      scheduledStart: config.status === 'SETUP' ? parse(scheduleDraft.start) : config.scheduledStart,
+      scheduledEnd: parse(scheduleDraft.end),
+    };
+    const problem = scheduleProblem({ status: config.status, ...scheduled });
+    if (problem) {
+      alert(problem);
       return;
     }
+    if (config.status === 'SETUP' && scheduled.scheduledStart !== null) {
+      const readiness = readinessProblem(config);
+      if (readiness && !confirm(`The election is not ready to open yet:\n\n${readiness}\n\nIf it is still not ready at the opening time, the scheduled opening will be cancelled. Save the schedule anyway?`)) return;
+    }
 
+    const describe = (time: number | null) => time === null ? 'none' : new Date(time).toLocaleString();
     const log: SecurityLog = {
       id: crypto.randomUUID(),
       timestamp: Date.now(),
       level: 'INFO',
       category: 'SYSTEM',
-      message: 'Election Status changed to ACTIVE. All booths unlocked.'
+      message: `Poll schedule saved. Opening: ${describe(scheduled.scheduledStart)}; closing: ${describe(scheduled.scheduledEnd)}.`
     };
-    onUpdateConfig({ 
-      ...config, 
-      status: 'ACTIVE', 
-      startTime: Date.now(),
-      logs: [log, ...config.logs]
-    });
-    setActiveTab('MONITOR');
+    updateConfig({ ...config, ...scheduled, logs: [log, ...config.logs] });
   };
 
-  const handleStopElection = () => {
-    if (!confirm("Are you sure you want to close voting? This permanently locks all booths.")) return;
-    
-    // Lock all booths
-    const lockedBooths = config.booths.map(b => ({ ...b, status: 'LOCKED' as const }));
+  const handleKeyCeremony = async () => {
+    const names = trusteeNames.map(n => n.trim()).filter(Boolean);
+    if (names.length < 2) {
+      alert("At least 2 named trustees are required for the key ceremony.");
+      return;
+    }
+    if (new Set(names).size !== names.length) {
+      alert("Trustee names must be unique.");
+      return;
+    }
+    if (ceremonyThreshold < 2 || ceremonyThreshold > names.length) {
+      alert(`Threshold must be between 2 and ${names.length}.`);
+      return;
+    }
+    if (config.publicKey && !confirm("Re-run the key ceremony? Previously issued shares will no longer be usable.")) return;
+
+    const { publicKey, trustees, shares } = await runKeyCeremony(names, ceremonyThreshold);
+    const fingerprint = await fingerprintKey(publicKey);
+    // The roll desk's token key is generated alongside; its private half never enters the config
+    const tokenKeys = await generateTokenKeyPair();
+    saveTokenSigningKey(config.id, tokenKeys.privateKey);
 
     const log: SecurityLog = {
       id: crypto.randomUUID(),
       timestamp: Date.now(),
-      level: 'WARNING',
-      category: 'SYSTEM',
-      message: 'Election Status changed to CLOSED. All booths locked.'
+      level: 'INFO',
+      category: 'SECURITY',
+      message: `Key ceremony completed: ${ceremonyThreshold}-of-${trustees.length} shares issued to ${names.join(', ')}. Public key fingerprint: ${fingerprint}`
     };
-    onUpdateConfig({ 
-      ...config, 
-      status: 'CLOSED', 
-      endTime: Date.now(),
-      booths: lockedBooths,
-      logs: [log, ...config.logs]
-    });
-    setActiveTab('RESULTS');
+    updateConfig({ ...config, publicKey, tokenKey: tokenKeys.publicKey, trustees, threshold: ceremonyThreshold, logs: [log, ...config.logs] });
+    setIssuedShares(shares);
   };
 
   const addCandidate = () => {
-    if (!newCandidateName || !selectedPartyId) return;
+    const contestId = newCandidateContest || config.contests[0]?.id;
+    if (!newCandidateName || !selectedPartyId || !newCandidateConstituency || !contestId) return;
     
     const party = config.parties.find(p => p.id === selectedPartyId);
     if (!party) return;
+    // Independents have no reserved symbol and must take a free one
+    const symbol = newCandidateSymbol || (party.category === PartyCategory.INDEPENDENT ? '' : party.symbolUrl);
+    if (!symbol) {
+      alert("Choose a free symbol from the symbol library for this candidate.");
+      return;
+    }
 
     const newCand: Candidate = {
       id: `c-${Date.now()}`,
@@ -115,17 +363,146 @@ export const AdminDashboard: React.FC<Props> = ({ config, votes, onUpdateConfig,
       partyId: party.id,
       partyName: party.name,
       partySymbol: party.symbolUrl,
-      symbol: party.symbolUrl // For now use party symbol
+      symbol,
+      constituency: newCandidateConstituency,
+      contestId
     };
-    onUpdateConfig({ ...config, candidates: [...config.candidates, newCand] });
+    if (newCandidatePhoto) newCand.photoUrl = newCandidatePhoto;
+    const clash = symbolClashes([...config.candidates, newCand]).find(group => group.includes(newCand));
+    if (clash) {
+      alert(`${clash[0].name} already has this symbol on the ${newCandidateConstituency} / ${contestName(contestId)} ballot. Choose a different free symbol.`);
+      return;
+    }
+    updateConfig({ ...config, candidates: [...config.candidates, newCand] });
     setNewCandidateName('');
     setSelectedPartyId('');
+    setNewCandidateConstituency('');
+    setNewCandidateSymbol('');
+    setNewCandidatePhoto(null);
+  };
+
+  const handlePhotoUpload = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setNewCandidatePhoto(await prepareCandidatePhoto(file));
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Photograph could not be used.');
+    }
+  };
+
+  const startNewParty = () => {
+    setPartyDraft({ id: '', name: '', shortCode: '', category: PartyCategory.STATE, symbolUrl: '' });
+  };
+
+  const handleSymbolUpload = async (file: File | undefined) => {
+    if (!file || !partyDraft) return;
+    try {
+      const symbolUrl = await prepareSymbolImage(file);
+      setPartyDraft(draft => draft && { ...draft, symbolUrl });
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Symbol image could not be used.');
+    }
+  };
+
+  const saveParty = () => {
+    if (!partyDraft) return;
+    const party: Party = { ...partyDraft, name: partyDraft.name.trim(), shortCode: partyDraft.shortCode.trim().toUpperCase(), symbolUrl: partyDraft.symbolUrl.trim() };
+    const problem = partyProblem(party, config.parties);
+    if (problem) {
+      alert(problem);
+      return;
+    }
+    const previous = config.parties.find(p => p.id === party.id);
+    if (previous) {
+      updateConfig({
+        ...config,
+        parties: config.parties.map(p => p.id === party.id ? party : p),
+        candidates: syncPartyCandidates(config.candidates, previous, party)
+      });
+    } else {
+      updateConfig({ ...config, parties: [...config.parties, { ...party, id: `p-${Date.now()}` }] });
+    }
+    setPartyDraft(null);
+  };
+
+  const toggleRetireParty = (party: Party) => {
+    updateConfig({ ...config, parties: config.parties.map(p => p.id === party.id ? { ...p, retired: !p.retired } : p) });
+    if (!party.retired && selectedPartyId === party.id) setSelectedPartyId('');
+  };
+
+  const deleteParty = (party: Party) => {
+    const standing = candidatesOfParty(config.candidates, party.id);
+    if (standing.length > 0) {
+      alert(`${party.name} cannot be deleted while ${standing.length} candidate(s) stand for it. Remove them first, or retire the party instead.`);
+      return;
+    }
+    if (!confirm(`Delete ${party.name} (${party.shortCode}) from the party registry?`)) return;
+    updateConfig({ ...config, parties: config.parties.filter(p => p.id !== party.id) });
+  };
+
+  const updateBallotOrder = (changes: Partial<BallotOrder>) => {
+    const ballotOrder = { ...config.ballotOrder, ...changes };
+    // The statutory order is fixed; rotation is only for institutional elections
+    if (ballotOrder.rule === 'ECI') ballotOrder.rotatePerBooth = false;
+    updateConfig({ ...config, ballotOrder });
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    const format: BulkFormat = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+    try {
+      setImportPreview(await previewImport(importKind, format, file.name, await file.text(), config));
+    } catch (e) {
+      alert(`${file.name} could not be imported.\n\n${e instanceof Error ? e.message : 'The file could not be read.'}`);
+    }
+  };
+
+  const handleApplyImport = () => {
+    if (!importPreview || importErrorCount(importPreview) > 0) return;
+    updateConfig(applyImport(config, importPreview));
+    setImportPreview(null);
+  };
+
+  const handleExport = (kind: BulkKind, format: BulkFormat) => {
+    downloadFile(`${config.id}-${kind}.${format}`, exportRecords(kind, format, config), format === 'json' ? 'application/json' : 'text/csv');
+  };
+
+  // Signs a slip for every elector; the printer renders the qr column as the slip's QR code
+  const handleIssueSlips = async () => {
+    try {
+      const issued = await issueVoterSlips(config);
+      updateConfig(issued.config);
+      downloadFile(`${config.id}-voter-slips.csv`, toCsv(['epic', 'name', 'boothId', 'qr'], issued.rows), 'text/csv');
+    } catch (e) {
+      alert(e instanceof Error ? e.message : 'Voter slips could not be issued.');
+    }
+  };
+
+  const addContest = () => {
+    if (!newContestName.trim()) return;
+    const contest: Contest = { id: `contest-${Date.now()}`, name: newContestName.trim(), seats: Math.max(1, newContestSeats) };
+    updateConfig({ ...config, contests: [...config.contests, contest] });
+    setNewContestName('');
+    setNewContestSeats(1);
+  };
+
+  const updateContestSeats = (contestId: string, seats: number) => {
+    updateConfig({ ...config, contests: config.contests.map(c => c.id === contestId ? { ...c, seats: Math.max(1, seats) } : c) });
+  };
+
+  const removeContest = (contestId: string) => {
+    const standing = config.candidates.filter(c => c.contestId === contestId);
+    if (standing.length > 0) {
+      alert(`Remove the ${standing.length} candidate(s) standing in this contest first.`);
+      return;
+    }
+    updateConfig({ ...config, contests: config.contests.filter(c => c.id !== contestId) });
   };
 
   const removeCandidate = (candidateId: string) => {
     if(confirm('Are you sure you want to remove this candidate from the ballot?')) {
         const updatedCandidates = config.candidates.filter(c => c.id !== candidateId);
-        onUpdateConfig({
+        updateConfig({
             ...config,
             candidates: updatedCandidates
         });
@@ -153,11 +530,11 @@ export const AdminDashboard: React.FC<Props> = ({ config, votes, onUpdateConfig,
         networkType: newBooth.networkType as any || 'Wi-Fi',
         batteryLevel: 100,
         lastHeartbeat: Date.now(),
-        totalVotes: 0,
-        authKey: `auth-${newBooth.id}-${Date.now()}`
+        authKey: `auth-${newBooth.id}-${Date.now()}`,
+        signingPublicKey: null
     };
 
-    onUpdateConfig({ ...config, booths: [...config.booths, booth] });
+    updateConfig({ ...config, booths: [...config.booths, booth] });
     setNewBooth({
         id: '', name: '', location: '', constituency: '',
         status: 'ONLINE', deviceType: 'Kiosk', accessibilityReady: true,
@@ -169,47 +546,307 @@ export const AdminDashboard: React.FC<Props> = ({ config, votes, onUpdateConfig,
   const removeBooth = (boothId: string) => {
       if(confirm('Are you sure you want to deregister this polling booth?')) {
           const updatedBooths = config.booths.filter(b => b.id !== boothId);
-          onUpdateConfig({
+          updateConfig({
               ...config,
               booths: updatedBooths
           });
       }
   };
 
-  const handleDecryptResults = () => {
-    if (key1Valid && key2Valid) {
-      const tally: Record<string, number> = {};
-      config.candidates.forEach(c => tally[c.id] = 0);
+  const handleMixBallots = async () => {
+    if (config.status !== 'CLOSED' || !config.publicKey || !config.bulletinBoard) return;
 
-      let decryptedCount = 0;
-      votes.forEach(v => {
-        const candidateId = decryptVote(v.encryptedData, 'mock-private-key');
-        if (candidateId && tally[candidateId] !== undefined) {
-          tally[candidateId]++;
-          decryptedCount++;
-        }
-      });
+    const ledger = await verifyLedger(votes, config.ledgerHead);
+    const boardRoot = await computeMerkleRoot(votes);
+    if (!ledger.valid || boardRoot !== config.bulletinBoard.root) {
+      alert("Cannot mix: the ballots no longer match the ledger and bulletin board frozen at close.");
+      return;
+    }
 
-      const resultsArray = Object.keys(tally).map(id => ({
-        candidateId: id,
-        count: tally[id]
-      }));
-      
+    setIsMixing(true);
+    try {
+      const mixed = await mixElection(votes, config, config.publicKey);
       const log: SecurityLog = {
         id: crypto.randomUUID(),
         timestamp: Date.now(),
         level: 'INFO',
         category: 'VOTE',
-        message: `Votes decrypted successfully. Total verified: ${decryptedCount}`
+        message: `Ballots shuffled and re-encrypted per constituency, contest and source: ${mixed.map(m => `${m.constituency} / ${contestName(m.contestId)}${m.source === 'POSTAL' ? ' (postal)' : ''} ${m.ciphertexts.length} mixed, ${m.excludedVoteIds.length} excluded`).join('; ')}. Shuffle proofs published.`
+      };
+      // The mix takes a while; apply it to this election as it is now, unless another mix got there first
+      updateConfig(prev => prev.id !== config.id || prev.mixedBallots ? prev : { ...prev, mixedBallots: mixed, logs: [log, ...prev.logs] });
+    } catch (e) {
+      const log: SecurityLog = {
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        level: 'CRITICAL',
+        category: 'SECURITY',
+        message: `Ballot mix failed: ${e instanceof Error ? e.message : 'unknown error'}. No mixed set was published.`
       };
+      updateConfig(prev => prev.id !== config.id ? prev : { ...prev, logs: [log, ...prev.logs] });
+      alert("The ballots could not be mixed. The failure has been logged; try again.");
+    } finally {
+      setIsMixing(false);
+    }
+  };
+
+  // The election secret from the trustees' shares, in memory only; null after logging a failed reconstruction
+  const reconstructElectionKey = (participants: Trustee[], publicKey: string): bigint | null => {
+    try {
+      return reconstructSecret(participants.map(t => shareInputs[t.id]), publicKey);
+    } catch (e) {
+      const log: SecurityLog = {
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        level: 'CRITICAL',
+        category: 'SECURITY',
+        message: `Key reconstruction failed with shares from ${participants.map(t => t.name).join(', ')}.`
+      };
+      updateConfig(prev => prev.id !== config.id ? prev : { ...prev, logs: [log, ...prev.logs] });
+      alert("Key reconstruction failed. The submitted shares do not match the election key.");
+      return null;
+    }
+  };
 
-      setResults(resultsArray);
-      onUpdateConfig({ 
-        ...config, 
-        status: 'PUBLISHED',
-        logs: [log, ...config.logs] 
+  const handleDecryptResults = async () => {
+    if (!quorumReached || !config.publicKey) return;
+
+    const ledger = await verifyLedger(votes, config.ledgerHead);
+    if (!ledger.valid) {
+      const log: SecurityLog = {
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        level: 'CRITICAL',
+        category: 'SECURITY',
+        message: `Tally refused: ballot ledger integrity check failed at record #${(ledger.brokenAt ?? 0) + 1} (${ledger.fault}).`
+      };
+      updateConfig(prev => prev.id !== config.id ? prev : { ...prev, logs: [log, ...prev.logs] });
+      alert("Cannot tally: the ballot ledger failed its integrity check. See the Audit Ledger.");
+      return;
+    }
+
+    const boardRoot = await computeMerkleRoot(votes);
+    if (!config.bulletinBoard || boardRoot !== config.bulletinBoard.root) {
+      const log: SecurityLog = {
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        level: 'CRITICAL',
+        category: 'SECURITY',
+        message: `Tally refused: ballot set does not match the frozen bulletin board root (${votes.length} ballots now, ${config.bulletinBoard?.leafCount ?? 0} at close).`
+      };
+      updateConfig(prev => prev.id !== config.id ? prev : { ...prev, logs: [log, ...prev.logs] });
+      alert("Cannot tally: the ballots no longer match the bulletin board frozen at close.");
+      return;
+    }
+
+    // The decryption panel only ever opens a mixed set whose shuffle proof holds
+    const mixed = config.mixedBallots;
+    const mixResult = mixed ? await verifyElectionMix(mixed, votes, config, config.publicKey, config.bulletinBoard.root) : null;
+    if (!mixed || !mixResult?.valid) {
+      const log: SecurityLog = {
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        level: 'CRITICAL',
+        category: 'SECURITY',
+        message: `Tally refused: ${mixed ? `mixed ballot set failed verification (${mixResult?.reason})` : 'ballots have not been mixed'}.`
+      };
+      updateConfig(prev => prev.id !== config.id ? prev : { ...prev, logs: [log, ...prev.logs] });
+      alert("Cannot tally: the ballots must be mixed and the shuffle proof must verify first.");
+      return;
+    }
+
+    const participants = config.trustees.filter(t => validShares[t.id]);
+    const secret = reconstructElectionKey(participants, config.publicKey);
+    if (secret === null) return;
+
+    setIsDecrypting(true);
+    // Only the mixed ballots are opened, and in aggregate mode only their per-candidate sums
+    const tally: PublishedTally[] = [];
+    try {
+      // Each source is opened from its own mixed set, then counted together per contest
+      for (const set of mixed.filter(m => m.source === 'BOOTH')) {
+        const seats = contestSeats(config.contests, set.contestId);
+        const sets = mixed.filter(m => m.constituency === set.constituency && m.contestId === set.contestId);
+        const sources = [];
+        for (const part of sets) sources.push(await tallyMixedSet(part, secret, config.publicKey, seats, config.tallyMode));
+        tally.push(combineSourceTallies(set.constituency, { contestId: set.contestId, candidateIds: set.candidateIds, ranked: set.ranked }, sources, seats));
+      }
+    } catch (e) {
+      setIsDecrypting(false);
+      alert("Decryption failed. The mixed ballots could not be opened with the reconstructed key.");
+      return;
+    }
+    setIsDecrypting(false);
+
+    const invalidCount = tally.reduce((n, t) => n + t.invalid, 0);
+    const decryptedCount = mixed.reduce((n, m) => n + m.ciphertexts.length, 0) - invalidCount;
+    const openedContests = tally.filter(t => t.sources.some(s => s.mode === 'PER_BALLOT')).length;
+    const excludedVoteIds = mixed.flatMap(m => m.excludedVoteIds);
+    const rejectedCount = excludedVoteIds.length;
+
+    // Newest first, matching the rest of the log stream
+    const logs: SecurityLog[] = [{
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      level: 'INFO',
+      category: 'VOTE',
+      message: `Mixed ballots decrypted for ${tally.length} contest count(s) in ${new Set(tally.map(t => t.constituency)).size} constituencies. Ballots counted: ${decryptedCount}. ` +
+        (openedContests === 0 ? 'Only per-candidate sums were decrypted; no ballot was opened.' : `Each mixed ballot was opened in ${openedContests} of them.`)
+    }];
+    if (invalidCount > 0) {
+      logs.push({
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        level: 'CRITICAL',
+        category: 'SECURITY',
+        message: `${invalidCount} mixed ballot(s) did not decrypt to a single choice and were not counted.`
+      });
+    }
+    if (rejectedCount > 0) {
+      logs.push({
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        level: 'CRITICAL',
+        category: 'SECURITY',
+        message: `${rejectedCount} malformed or unproven ballot(s) were excluded from the mix: ${excludedVoteIds.join(', ')}`
       });
     }
+    logs.push({
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      level: 'INFO',
+      category: 'SECURITY',
+      message: `Election key reconstructed in memory by ${participants.length} of ${config.trustees.length} trustees: ${participants.map(t => t.name).join(', ')}`
+    });
+
+    setShareInputs({});
+    // Counted, but not official until the returning officer declares the result; applied to the election as it is now
+    updateConfig(prev => prev.id !== config.id || prev.tally ? prev : { ...prev, tally, logs: [...logs, ...prev.logs] });
+  };
+
+  const officerName = () => {
+    const name = returningOfficer.trim();
+    if (!name) alert("Enter the returning officer's name first.");
+    return name;
+  };
+
+  const handleDrawLots = async (tally: PublishedTally) => {
+    const tie = contestOutcome(tally, contestSeats(config.contests, tally.contestId), drawFor(config, tally)).tie;
+    const drawnBy = officerName();
+    if (!tie || !drawnBy) return;
+    const names = tie.candidateIds.map(id => config.candidates.find(c => c.id === id)?.name ?? id).join(', ');
+    const settles = tally.preferential
+      ? 'The drawn order settles this tie in the STV count, and any later one.'
+      : `The draw decides ${tie.places} place(s).`;
+    if (!confirm(`Draw lots between ${names} in ${tally.constituency} / ${contestName(tally.contestId)}? ${settles} The draw is final and is recorded in the audit log.`)) return;
+    const draw = await drawLots(tally, tie, drawnBy);
+    const lotOrder = await contestLotOrder(config, draw);
+    updateConfig(prev => prev.id !== config.id || drawFor(prev, tally) ? prev : recordDraw(prev, draw, lotOrder));
+  };
+
+  const handleRecount = async (tally: PublishedTally) => {
+    const orderedBy = officerName();
+    if (!orderedBy || !quorumReached || !config.publicKey) return;
+    // A recount starts again from the ledger, so the trustees reconstruct the key once more
+    const participants = config.trustees.filter(t => validShares[t.id]);
+    const secret = reconstructElectionKey(participants, config.publicKey);
+    if (secret === null) return;
+    setShareInputs({});
+
+    setRecounting(`${tally.constituency}:${tally.contestId}`);
+    let recount: Recount;
+    try {
+      recount = await recountContest(config, votes, tally, secret, orderedBy);
+    } catch (e) {
+      const log: SecurityLog = {
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        level: 'CRITICAL',
+        category: 'SECURITY',
+        message: `Recount of ${tally.constituency} / ${contestName(tally.contestId)} ordered by ${orderedBy} failed: ${e instanceof Error ? e.message : 'unknown error'}.`
+      };
+      updateConfig(prev => prev.id !== config.id ? prev : { ...prev, logs: [log, ...prev.logs] });
+      alert("Recount failed. The ledger ballots could not be counted with the reconstructed key.");
+      return;
+    } finally {
+      setRecounting(null);
+    }
+    const keyLog: SecurityLog = {
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      level: 'INFO',
+      category: 'SECURITY',
+      message: `Election key reconstructed in memory for a recount by ${participants.length} of ${config.trustees.length} trustees: ${participants.map(t => t.name).join(', ')}`
+    };
+    updateConfig(prev => prev.id !== config.id ? prev : recordRecount({ ...prev, logs: [keyLog, ...prev.logs] }, recount));
+    if (!recount.matches) alert(`RECOUNT DIFFERS FROM THE FIRST COUNT.\n\n${recount.differences.join('\n')}`);
+  };
+
+  const handleDeclareResults = () => {
+    const problem = declarationProblem(config);
+    if (problem) {
+      alert(`CANNOT DECLARE RESULTS.\n\n${problem}`);
+      return;
+    }
+    const declaredBy = officerName();
+    if (!declaredBy) return;
+    if (!confirm("Declare these results? The election is published and the results can no longer change.")) return;
+    updateConfig(declareResults(config, declaredBy));
+  };
+
+  const handleExportRecord = () => {
+    const record = buildElectionRecord(config, votes);
+    downloadFile(`election-record-${record.bulletinBoard.root.substring(0, 12)}.json`, JSON.stringify(record, null, 2), 'application/json');
+  };
+
+  const togglePostalChoice = (contestId: string, candidateId: string) => {
+    const current = postalChoices[contestId] ?? [];
+    const next = !isPreferential(config.type)
+      ? [candidateId]
+      : current.includes(candidateId) ? current.filter(id => id !== candidateId) : [...current, candidateId];
+    setPostalChoices({ ...postalChoices, [contestId]: next });
+  };
+
+  const handlePostalEnvelope = async (status: PostalEnvelope['status']) => {
+    const checkedBy = officerName();
+    if (!checkedBy) return;
+    const envelope: PostalEnvelope = {
+      serial: postalDraft.serial.trim(),
+      constituency: postalDraft.constituency,
+      voterCategory: postalDraft.voterCategory,
+      status,
+      reason: status === 'REJECTED' ? (postalDraft.reason === 'Other' ? postalDraft.otherReason.trim() : postalDraft.reason) : null,
+      checkedBy,
+      checkedOn: envelopeCheckDay(),
+    };
+    const problem = envelopeProblem(config, envelope);
+    if (problem) {
+      alert(problem);
+      return;
+    }
+
+    setIsEnteringPostal(true);
+    try {
+      let encryptedData: string | null = null;
+      if (status === 'ACCEPTED') {
+        if (!config.publicKey) throw new Error('The election key has not been generated.');
+        // Encrypted exactly as a kiosk ballot, one ballot per contest in contest order
+        const ballots = [];
+        for (const spec of ballotSpecsForConstituency(config, envelope.constituency)) {
+          ballots.push((await encryptBallot(postalChoices[spec.contestId] ?? [], config.publicKey, spec)).ballot);
+        }
+        encryptedData = JSON.stringify(ballots);
+      } else if (!confirm(`Reject envelope ${envelope.serial}? Its ballot will not be counted.`)) {
+        return;
+      }
+      await onPostalIntake(envelope, encryptedData);
+      setPostalDraft({ ...postalDraft, serial: '', otherReason: '' });
+      setPostalChoices({});
+    } catch (e) {
+      alert(`Postal ballot not entered: ${e instanceof Error ? e.message : 'unknown error'}`);
+    } finally {
+      setIsEnteringPostal(false);
+    }
   };
 
   // --- RENDERERS ---
@@ -220,6 +857,34 @@ export const AdminDashboard: React.FC<Props> = ({ config, votes, onUpdateConfig,
         <Shield className="w-8 h-8 text-blue-400" />
         <span className="text-xl font-bold">AdminPanel</span>
       </div>
+
+      <div className="mb-4 px-2 space-y-2">
+        <label className="block text-xs font-bold text-slate-500 uppercase">Election</label>
+        <select
+          className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm"
+          value={config.id}
+          onChange={(e) => onSelectElection(e.target.value)}
+        >
+          <optgroup label="Current">
+            {elections.filter(e => !e.archived).map(e => <option key={e.id} value={e.id}>{e.name} ({e.status})</option>)}
+          </optgroup>
+          {elections.some(e => e.archived) && (
+            <optgroup label="Archived">
+              {elections.filter(e => e.archived).map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        <div className="flex justify-between">
+          <button onClick={handleCreateElection} className="text-xs text-blue-300 hover:text-white flex items-center gap-1">
+            <Plus size={14} /> New Election
+          </button>
+          {config.status === 'PUBLISHED' && !readOnly && (
+            <button onClick={handleArchiveElection} className="text-xs text-slate-400 hover:text-white flex items-center gap-1">
+              <Archive size={14} /> Archive
+            </button>
+          )}
+        </div>
+      </div>
       
       <nav className="space-y-1 flex-grow">
         <p className="px-4 text-xs font-bold text-slate-500 uppercase mt-4 mb-2">Pre-Election</p>
@@ -238,6 +903,10 @@ export const AdminDashboard: React.FC<Props> = ({ config, votes, onUpdateConfig,
           <Activity size={20} /> Live Monitor
         </button>
 
+        <button onClick={() => setActiveTab('POSTAL')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-colors ${activeTab === 'POSTAL' ? 'bg-blue-600' : 'text-slate-400 hover:bg-slate-800'}`}>
+          <Mail size={20} /> Postal Ballots
+        </button>
+
         <p className="px-4 text-xs font-bold text-slate-500 uppercase mt-6 mb-2">Post-Election</p>
         <button onClick={() => setActiveTab('RESULTS')} className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-colors ${activeTab === 'RESULTS' ? 'bg-blue-600' : 'text-slate-400 hover:bg-slate-800'}`}>
           <FileText size={20} /> Results & Audit
@@ -267,10 +936,128 @@ export const AdminDashboard: React.FC<Props> = ({ config, votes, onUpdateConfig,
              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm border p-2 bg-gray-50"
              value={config.type}
              disabled={config.status !== 'SETUP'}
-             onChange={(e) => onUpdateConfig({...config, type: e.target.value})}
+             onChange={(e) => updateConfig({...config, type: e.target.value})}
            >
              {ELECTION_TYPES.map(t => <option key={t}>{t}</option>)}
            </select>
+           {isPreferential(config.type) && (
+             <p className="text-xs text-gray-500 mt-1">Preferential ballot: voters rank candidates, counted by single transferable vote. NOTA is not offered.</p>
+           )}
+         </div>
+         <div>
+           <label className="block text-sm font-medium text-gray-700">Contests on the Ballot</label>
+           <p className="text-xs text-gray-500">Voters fill in one ballot per contest, in this order. Seats are filled per constituency.</p>
+           <div className="mt-2 space-y-2">
+             {config.contests.map((contest, i) => (
+               <div key={contest.id} className="flex items-center gap-3 border rounded p-2 bg-gray-50">
+                 <span className="text-xs font-bold text-gray-400 w-6">{i + 1}.</span>
+                 <span className="flex-1 font-medium">{contest.name}</span>
+                 <label className="text-xs text-gray-600 flex items-center gap-1">
+                   Seats
+                   <input
+                     type="number"
+                     min={1}
+                     className="w-16 border rounded p-1"
+                     value={contest.seats}
+                     onChange={(e) => updateContestSeats(contest.id, parseInt(e.target.value) || 1)}
+                     disabled={config.status !== 'SETUP'}
+                   />
+                 </label>
+                 <span className="text-xs text-gray-500 w-40">
+                   {isPreferential(config.type)
+                     ? (contest.seats === 1 ? 'Instant-runoff vote' : `Droop quota STV, ${contest.seats} seats`)
+                     : (contest.seats === 1 ? 'Most votes wins' : `Top ${contest.seats} by votes win`)}
+                 </span>
+                 {config.status === 'SETUP' && (
+                   <button onClick={() => removeContest(contest.id)} className="text-red-500 hover:bg-red-50 p-1 rounded" title="Remove Contest">
+                     <Trash2 size={16} />
+                   </button>
+                 )}
+               </div>
+             ))}
+           </div>
+           {config.status === 'SETUP' && (
+             <div className="mt-2 flex gap-2">
+               <input
+                 placeholder="Contest (e.g. Sarpanch, Ward Member)"
+                 className="flex-1 border p-2 rounded"
+                 value={newContestName}
+                 onChange={(e) => setNewContestName(e.target.value)}
+               />
+               <input
+                 type="number"
+                 min={1}
+                 className="w-20 border p-2 rounded"
+                 value={newContestSeats}
+                 onChange={(e) => setNewContestSeats(parseInt(e.target.value) || 1)}
+                 title="Seats"
+               />
+               <button onClick={addContest} className="bg-blue-600 text-white px-4 rounded hover:bg-blue-700 font-medium">
+                 + Add Contest
+               </button>
+             </div>
+           )}
+         </div>
+         <div>
+           <label className="block text-sm font-medium text-gray-700">Ballot Order</label>
+           <p className="text-xs text-gray-500">
+             {config.ballotOrder.lockedAt
+               ? `Locked when the polls opened, ${new Date(config.ballotOrder.lockedAt).toLocaleString()}.`
+               : 'Applied and locked when the polls open. NOTA is always listed last.'}
+           </p>
+           <div className="mt-2 flex flex-wrap items-center gap-3">
+             <select
+               className="border p-2 rounded"
+               value={config.ballotOrder.rule}
+               disabled={config.status !== 'SETUP'}
+               onChange={(e) => updateBallotOrder({ rule: e.target.value as BallotOrder['rule'] })}
+             >
+               {Object.entries(BALLOT_ORDER_RULES).map(([rule, label]) => <option key={rule} value={rule}>{label}</option>)}
+             </select>
+             <label className="text-sm text-gray-700 flex items-center gap-2">
+               Alphabetical by
+               <select
+                 className="border p-2 rounded"
+                 value={config.ballotOrder.language}
+                 disabled={config.status !== 'SETUP' || config.ballotOrder.rule === 'ENTRY'}
+                 onChange={(e) => updateBallotOrder({ language: e.target.value as BallotOrder['language'] })}
+               >
+                 <option value="en">English (Latin)</option>
+                 <option value="hi">हिंदी (Devanagari)</option>
+                 <option value="te">తెలుగు (Telugu)</option>
+               </select>
+             </label>
+             <label className="text-sm text-gray-700 flex items-center gap-2">
+               <input
+                 type="checkbox"
+                 checked={config.ballotOrder.rotatePerBooth}
+                 disabled={config.status !== 'SETUP' || config.ballotOrder.rule === 'ECI'}
+                 onChange={(e) => updateBallotOrder({ rotatePerBooth: e.target.checked })}
+               />
+               Rotate per booth (institutional elections)
+             </label>
+           </div>
+           <p className="text-xs text-gray-500 mt-1">
+             {config.ballotOrder.rule === 'ECI'
+               ? 'National parties, then state parties, then registered parties, then independents; alphabetical within each group.'
+               : config.ballotOrder.rotatePerBooth ? 'Each booth shows the list starting from a randomly drawn candidate. Not permitted under the statutory order.' : ''}
+           </p>
+         </div>
+         <div>
+           <label className="block text-sm font-medium text-gray-700">Tally</label>
+           <select
+             className="mt-1 border p-2 rounded"
+             value={config.tallyMode}
+             disabled={config.status !== 'SETUP'}
+             onChange={(e) => updateConfig({ ...config, tallyMode: e.target.value as TallyMode })}
+           >
+             {Object.entries(TALLY_MODE_LABELS).map(([mode, label]) => <option key={mode} value={mode}>{label}</option>)}
+           </select>
+           <p className="text-xs text-gray-500 mt-1">
+             {config.tallyMode === 'AGGREGATE'
+               ? 'Only the per-candidate sums of the mixed ballots are decrypted. Preferential contests still open each mixed ballot, as STV needs every preference list.'
+               : 'Every mixed ballot is decrypted with a proof. The mix has cut each ballot\'s link to its voter and submission time.'}
+           </p>
          </div>
          <div>
            <label className="block text-sm font-medium text-gray-700">Election Name</label>
@@ -278,10 +1065,142 @@ export const AdminDashboard: React.FC<Props> = ({ config, votes, onUpdateConfig,
              type="text" 
              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm border p-2"
              value={config.name}
-             onChange={(e) => onUpdateConfig({...config, name: e.target.value})}
+             onChange={(e) => updateConfig({...config, name: e.target.value})}
              disabled={config.status !== 'SETUP'}
            />
          </div>
+         <div>
+           <label className="block text-sm font-medium text-gray-700">Poll Schedule</label>
+           <p className="text-xs text-gray-500">Optional. Polls open and close on their own at these times, after the same readiness checks as the start button. Voters already in a booth at closing time may finish.</p>
+           <div className="mt-2 flex flex-wrap items-end gap-3">
+             <label className="text-xs text-gray-600">
+               Opens
+               <input
+                 type="datetime-local"
+                 className="mt-1 block border rounded p-2"
+                 value={config.status === 'SETUP' ? scheduleDraft.start : toDateTimeInput(config.startTime)}
+                 onChange={(e) => setScheduleDraft({ ...scheduleDraft, start: e.target.value })}
+                 disabled={config.status !== 'SETUP'}
+               />
+             </label>
+             <label className="text-xs text-gray-600">
+               Closes
+               <input
+                 type="datetime-local"
+                 className="mt-1 block border rounded p-2"
+                 value={config.status === 'SETUP' || config.status === 'ACTIVE' ? scheduleDraft.end : toDateTimeInput(config.endTime)}
+                 onChange={(e) => setScheduleDraft({ ...scheduleDraft, end: e.target.value })}
+                 disabled={config.status !== 'SETUP' && config.status !== 'ACTIVE'}
+               />
+             </label>
+             {(config.status === 'SETUP' || config.status === 'ACTIVE') && (
+               <button onClick={handleSaveSchedule} className="border border-blue-600 text-blue-700 px-4 py-2 rounded hover:bg-blue-50 font-medium">
+                 Save Schedule
+               </button>
+             )}
+           </div>
+           <div className="mt-2">
+             <PollCountdown config={config} audience="admin" />
+           </div>
+         </div>
+         <div className="border-t pt-4 space-y-4">
+           <div className="flex items-center justify-between gap-4">
+             <div>
+               <label className="block text-sm font-medium text-gray-700">Trustee Key Ceremony</label>
+               <p className="font-mono text-sm text-gray-600">
+                 {keyFingerprint
+                   ? `SHA-256 ${keyFingerprint} • ${config.threshold}-of-${config.trustees.length} trustees`
+                   : 'No election key generated yet'}
+               </p>
+             </div>
+           </div>
+           {config.trustees.length > 0 && (
+             <ul className="text-sm text-gray-700 space-y-1">
+               {config.trustees.map(t => (
+                 <li key={t.id} className="flex items-center gap-2">
+                   <Users size={14} className="text-gray-400" /> {t.name}
+                   <span className="text-xs text-gray-400 font-mono">share #{t.shareIndex}</span>
+                 </li>
+               ))}
+             </ul>
+           )}
+           {config.status === 'SETUP' && (
+             <div className="bg-gray-50 border rounded p-4 space-y-3">
+               <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                 {trusteeNames.map((name, i) => (
+                   <div key={i} className="flex gap-1">
+                     <input
+                       className="flex-1 border p-2 rounded"
+                       placeholder={`Trustee ${i + 1} name`}
+                       value={name}
+                       onChange={e => setTrusteeNames(trusteeNames.map((n, j) => j === i ? e.target.value : n))}
+                     />
+                     {trusteeNames.length > 2 && (
+                       <button
+                         onClick={() => {
+                           setTrusteeNames(trusteeNames.filter((_, j) => j !== i));
+                           setCeremonyThreshold(Math.min(ceremonyThreshold, trusteeNames.length - 1));
+                         }}
+                         className="text-red-500 hover:bg-red-50 p-2 rounded"
+                         title="Remove Trustee"
+                       >
+                         <Trash2 size={16} />
+                       </button>
+                     )}
+                   </div>
+                 ))}
+               </div>
+               <div className="flex items-center justify-between gap-4">
+                 <button
+                   onClick={() => setTrusteeNames([...trusteeNames, ''])}
+                   className="text-blue-600 text-sm font-medium hover:underline flex items-center gap-1"
+                 >
+                   <Plus size={16} /> Add Trustee
+                 </button>
+                 <div className="flex items-center gap-3">
+                   <label className="text-sm text-gray-700">Threshold</label>
+                   <select
+                     className="border p-2 rounded"
+                     value={ceremonyThreshold}
+                     onChange={e => setCeremonyThreshold(Number(e.target.value))}
+                   >
+                     {trusteeNames.slice(1).map((_, i) => (
+                       <option key={i} value={i + 2}>{i + 2} of {trusteeNames.length}</option>
+                     ))}
+                   </select>
+                   <button
+                     onClick={handleKeyCeremony}
+                     className="border border-blue-600 text-blue-700 px-4 py-2 rounded hover:bg-blue-50 font-medium flex items-center gap-2"
+                   >
+                     <Lock size={16} /> {config.publicKey ? 'Re-run Ceremony' : 'Run Key Ceremony'}
+                   </button>
+                 </div>
+               </div>
+             </div>
+           )}
+           {issuedShares && (
+             <div className="bg-yellow-50 border border-yellow-300 p-4 rounded space-y-3">
+               <p className="text-sm font-bold text-yellow-900 flex items-center gap-2">
+                 <AlertTriangle size={16} /> Trustee key shares (shown once)
+               </p>
+               <p className="text-xs text-yellow-800">Hand each share to its trustee only. Shares are not saved by the system; {config.threshold} of them are required to decrypt the results.</p>
+               {config.trustees.map(t => (
+                 <div key={t.id}>
+                   <p className="text-xs font-bold text-gray-700 mb-1">{t.name}</p>
+                   <textarea
+                     readOnly
+                     className="w-full h-16 font-mono text-xs border p-2 rounded bg-white"
+                     value={issuedShares[t.id]}
+                     onFocus={e => e.target.select()}
+                   />
+                 </div>
+               ))}
+               <button onClick={() => setIssuedShares(null)} className="text-sm text-yellow-900 font-medium hover:underline">
+                 All shares have been handed over
+               </button>
+             </div>
+           )}
+         </div>
          {config.status === 'SETUP' && (
            <div className="pt-4 flex justify-end">
              <button 
@@ -298,6 +1217,106 @@ export const AdminDashboard: React.FC<Props> = ({ config, votes, onUpdateConfig,
              </div>
          )}
       </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-sm border space-y-4">
+        <div>
+          <h3 className="font-bold text-gray-700">Bulk Import & Export</h3>
+          <p className="text-xs text-gray-500">
+            CSV or JSON with the same columns as the export. Rows with an existing id update that record. Every row is checked first; nothing is applied until the whole file is clean.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(BULK_KIND_LABELS) as BulkKind[]).map(kind => (
+            <div key={kind} className="flex items-center gap-1 border rounded p-1 text-sm">
+              <span className="px-2 text-gray-700">{BULK_KIND_LABELS[kind]}</span>
+              {(['csv', 'json'] as BulkFormat[]).map(format => (
+                <button key={format} onClick={() => handleExport(kind, format)} className="text-blue-700 hover:bg-blue-50 px-2 py-1 rounded flex items-center gap-1">
+                  <Download size={14} /> {format.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          ))}
+          {config.status !== 'PUBLISHED' && !readOnly && (
+            <div className="flex items-center gap-1 border rounded p-1 text-sm">
+              <span className="px-2 text-gray-700">Voter Slips</span>
+              <button onClick={handleIssueSlips} className="text-blue-700 hover:bg-blue-50 px-2 py-1 rounded flex items-center gap-1">
+                <QrCode size={14} /> Issue CSV
+              </button>
+            </div>
+          )}
+        </div>
+        {config.status === 'SETUP' && !readOnly && (
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              className="border p-2 rounded"
+              value={importKind}
+              onChange={(e) => { setImportKind(e.target.value as BulkKind); setImportPreview(null); }}
+            >
+              {(Object.keys(BULK_KIND_LABELS) as BulkKind[]).map(kind => <option key={kind} value={kind}>{BULK_KIND_LABELS[kind]}</option>)}
+            </select>
+            <label className="border border-blue-600 text-blue-700 px-4 py-2 rounded hover:bg-blue-50 font-medium flex items-center gap-2 cursor-pointer">
+              <Upload size={16} /> Choose File
+              <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                className="hidden"
+                onChange={(e) => { handleImportFile(e.target.files?.[0]); e.target.value = ''; }}
+              />
+            </label>
+          </div>
+        )}
+        {importPreview && (
+          <div className="border rounded p-4 space-y-3 bg-gray-50">
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm font-medium text-gray-700">
+                {importPreview.fileName}: {importPreview.rows.length} {BULK_KIND_LABELS[importPreview.kind].toLowerCase()},{' '}
+                {importPreview.rows.filter(r => r.action === 'ADD').length} new, {importPreview.rows.filter(r => r.action === 'UPDATE').length} updated
+              </p>
+              {importErrorCount(importPreview) > 0 ? (
+                <span className="text-sm text-red-700 font-bold flex items-center gap-1">
+                  <XCircle size={16} /> {importErrorCount(importPreview)} problem(s); fix the file and choose it again
+                </span>
+              ) : (
+                <span className="text-sm text-green-700 font-bold flex items-center gap-1"><CheckCircle size={16} /> No problems found</span>
+              )}
+            </div>
+            <div className="max-h-80 overflow-y-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-1 pr-2">Row</th>
+                    <th className="py-1 pr-2">Record</th>
+                    <th className="py-1 pr-2">Action</th>
+                    <th className="py-1">Problems</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {importPreview.rows.map(row => (
+                    <tr key={row.source} className={`border-b align-top ${row.errors.length > 0 ? 'bg-red-50' : ''}`}>
+                      <td className="py-1 pr-2 font-mono whitespace-nowrap">{row.source}</td>
+                      <td className="py-1 pr-2">{row.summary}</td>
+                      <td className="py-1 pr-2">{row.action === 'ADD' ? 'Add' : 'Update'}</td>
+                      <td className="py-1 text-red-700">
+                        {row.errors.map((error, i) => <p key={i}>{error}</p>)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setImportPreview(null)} className="px-4 py-2 rounded text-gray-600 hover:bg-gray-100">Cancel</button>
+              <button
+                onClick={handleApplyImport}
+                disabled={importErrorCount(importPreview) > 0}
+                className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Apply Import
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
     </div>
   );
 
@@ -308,11 +1327,107 @@ export const AdminDashboard: React.FC<Props> = ({ config, votes, onUpdateConfig,
          {config.status === 'SETUP' && <span className="text-sm bg-blue-100 text-blue-800 px-3 py-1 rounded-full">Editing Enabled</span>}
       </div>
 
+      {/* Party Registry */}
+      <div className="bg-white p-6 rounded-lg shadow-sm border">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold">Party Registry</h3>
+          {config.status === 'SETUP' && !partyDraft && (
+            <button onClick={startNewParty} className="text-blue-600 text-sm font-medium hover:underline flex items-center gap-1">
+              <Plus size={16} /> Register New Party
+            </button>
+          )}
+        </div>
+
+        {partyDraft && config.status === 'SETUP' && (
+          <div className="bg-gray-50 border rounded p-4 mb-4 space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <input
+                placeholder="Party Name"
+                className="border p-2 rounded"
+                value={partyDraft.name}
+                onChange={(e) => setPartyDraft({ ...partyDraft, name: e.target.value })}
+              />
+              <input
+                placeholder="Short Code (e.g. BJP)"
+                className="border p-2 rounded uppercase"
+                value={partyDraft.shortCode}
+                onChange={(e) => setPartyDraft({ ...partyDraft, shortCode: e.target.value })}
+              />
+              <select
+                className="border p-2 rounded"
+                value={partyDraft.category}
+                onChange={(e) => setPartyDraft({ ...partyDraft, category: e.target.value as PartyCategory })}
+              >
+                {Object.values(PartyCategory).map(category => <option key={category} value={category}>{category}</option>)}
+              </select>
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <div className="text-4xl bg-white border rounded-lg w-16 h-16 flex items-center justify-center">
+                {partyDraft.symbolUrl ? <SymbolMark symbol={partyDraft.symbolUrl} label={partyDraft.name || 'New party'} /> : <span className="text-xs text-gray-400">No symbol</span>}
+              </div>
+              <input
+                placeholder="Emoji"
+                className="border p-2 rounded w-24 text-center"
+                value={partyDraft.symbolUrl.startsWith('data:') ? '' : partyDraft.symbolUrl}
+                onChange={(e) => setPartyDraft({ ...partyDraft, symbolUrl: e.target.value })}
+              />
+              <label className="text-sm text-blue-600 font-medium hover:underline cursor-pointer">
+                or upload an image
+                <input type="file" accept="image/png,image/jpeg,image/webp" className="hidden" onChange={(e) => { handleSymbolUpload(e.target.files?.[0]); e.target.value = ''; }} />
+              </label>
+              <span className="text-xs text-gray-500">PNG, JPEG or WebP, up to {SYMBOL_MAX_BYTES / 1024} KB, at least 64x64 px, with strong contrast on white.</span>
+            </div>
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setPartyDraft(null)} className="px-4 py-2 rounded text-gray-600 hover:bg-gray-100">Cancel</button>
+              <button onClick={saveParty} className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 font-medium">
+                {partyDraft.id ? 'Save Party' : '+ Register Party'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <table className="min-w-full text-sm">
+          <thead className="text-gray-500 border-b">
+            <tr>
+              <th className="py-2 text-left">Symbol</th>
+              <th className="py-2 text-left">Party</th>
+              <th className="py-2 text-left">Code</th>
+              <th className="py-2 text-left">Category</th>
+              <th className="py-2 text-right">Candidates</th>
+              {config.status === 'SETUP' && <th className="py-2"></th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {config.parties.map(p => (
+              <tr key={p.id} className={p.retired ? 'text-gray-400' : ''}>
+                <td className="py-2 text-2xl"><SymbolMark symbol={p.symbolUrl} label={p.name} /></td>
+                <td className="py-2 font-medium">
+                  {p.name}
+                  {p.retired && <span className="ml-2 text-xs bg-gray-200 text-gray-600 px-2 py-0.5 rounded">Retired</span>}
+                </td>
+                <td className="py-2 font-mono">{p.shortCode}</td>
+                <td className="py-2 text-xs">{p.category}</td>
+                <td className="py-2 text-right">{candidatesOfParty(config.candidates, p.id).length}</td>
+                {config.status === 'SETUP' && (
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <button onClick={() => setPartyDraft(p)} className="text-blue-600 hover:underline text-xs px-2">Edit</button>
+                    <button onClick={() => toggleRetireParty(p)} className="text-gray-600 hover:underline text-xs px-2">{p.retired ? 'Reinstate' : 'Retire'}</button>
+                    <button onClick={() => deleteParty(p)} className="text-red-500 hover:bg-red-50 p-1 rounded align-middle" title="Delete Party">
+                      <Trash2 size={16} />
+                    </button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
       {/* Add Candidate Form */}
       {config.status === 'SETUP' && (
         <div className="bg-white p-6 rounded-lg shadow-sm border">
           <h3 className="text-lg font-semibold mb-4">Register New Candidate</h3>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             <input 
               placeholder="Candidate Name" 
               className="border p-2 rounded"
@@ -325,24 +1440,74 @@ export const AdminDashboard: React.FC<Props> = ({ config, votes, onUpdateConfig,
               onChange={(e) => setSelectedPartyId(e.target.value)}
             >
               <option value="">Select Party / Affiliation...</option>
-              {config.parties.map(p => (
+              {config.parties.filter(p => !p.retired).map(p => (
                 <option key={p.id} value={p.id}>{p.name} ({p.shortCode})</option>
               ))}
             </select>
+            <select 
+              className="border p-2 rounded"
+              value={newCandidateConstituency}
+              onChange={(e) => setNewCandidateConstituency(e.target.value)}
+            >
+              <option value="">Select Constituency...</option>
+              {listConstituencies({ booths: config.booths, candidates: [] }).map(c => (
+                <option key={c} value={c}>{c}</option>
+              ))}
+            </select>
+            <select
+              className="border p-2 rounded"
+              value={newCandidateContest || config.contests[0]?.id || ''}
+              onChange={(e) => setNewCandidateContest(e.target.value)}
+            >
+              {config.contests.map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
             <button onClick={addCandidate} className="bg-blue-600 text-white px-4 rounded hover:bg-blue-700 font-medium">
               + Add to Ballot
             </button>
           </div>
+          <div className="mt-4 flex flex-wrap items-center gap-4">
+            <label className="text-sm text-gray-700 flex items-center gap-2">
+              Symbol
+              <select
+                className="border p-2 rounded"
+                value={newCandidateSymbol}
+                onChange={(e) => setNewCandidateSymbol(e.target.value)}
+              >
+                <option value="">{config.parties.find(p => p.id === selectedPartyId)?.category === PartyCategory.INDEPENDENT ? 'Choose a free symbol...' : 'Party symbol'}</option>
+                {FREE_SYMBOLS.map(f => {
+                  // Free symbols already used on the chosen ballot are not offered again
+                  const taken = config.candidates.some(c => c.symbol === f.symbol && c.constituency === newCandidateConstituency && c.contestId === (newCandidateContest || config.contests[0]?.id));
+                  return <option key={f.symbol} value={f.symbol} disabled={taken}>{f.symbol} {f.name}{taken ? ' (taken on this ballot)' : ''}</option>;
+                })}
+              </select>
+            </label>
+            <div className="flex items-center gap-2">
+              {newCandidatePhoto
+                ? <img src={newCandidatePhoto} alt={photoAltText({ name: newCandidateName || 'new candidate' })} className="w-12 h-14 object-cover rounded border" />
+                : <div className="w-12 h-14 rounded border border-dashed bg-gray-50" />}
+              <label className="text-sm text-blue-600 font-medium hover:underline cursor-pointer">
+                {newCandidatePhoto ? 'Replace photograph' : 'Upload photograph'}
+                <input type="file" accept="image/png,image/jpeg,image/webp" className="hidden" onChange={(e) => { handlePhotoUpload(e.target.files?.[0]); e.target.value = ''; }} />
+              </label>
+              {newCandidatePhoto && (
+                <button onClick={() => setNewCandidatePhoto(null)} className="text-xs text-gray-500 hover:underline">Remove</button>
+              )}
+              <span className="text-xs text-gray-500">PNG, JPEG or WebP, up to {PHOTO_MAX_BYTES / 1024} KB.</span>
+            </div>
+          </div>
         </div>
       )}
 
-      {/* Candidate List */}
+      {/* Candidate List, in ballot order (a preview until the order is locked) */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {config.candidates.map(c => {
+        {sortCandidates(config.candidates, config.parties, config.ballotOrder).map(c => {
           const party = config.parties.find(p => p.id === c.partyId);
           return (
             <div key={c.id} className="bg-white border rounded-lg p-4 flex items-center gap-4 shadow-sm">
-               <div className="text-4xl bg-gray-50 p-3 rounded-lg">{c.symbol}</div>
+               {c.photoUrl && <img src={c.photoUrl} alt={photoAltText(c)} className="w-14 h-16 object-cover rounded-lg border" />}
+               <div className="text-4xl bg-gray-50 p-3 rounded-lg"><SymbolMark symbol={c.symbol} label={c.partyName || c.name} /></div>
                <div>
                  <p className="font-bold text-lg">{c.name}</p>
                  <div className="flex items-center gap-2 text-sm text-gray-600">
@@ -350,6 +1515,10 @@ export const AdminDashboard: React.FC<Props> = ({ config, votes, onUpdateConfig,
                    <span>•</span>
                    <span className="text-xs text-gray-500">{party?.category}</span>
                  </div>
+                 <span className="text-xs bg-gray-200 px-2 py-0.5 rounded text-gray-700">{c.constituency}</span>
+                 {config.contests.length > 1 && (
+                   <span className="ml-1 text-xs bg-blue-100 px-2 py-0.5 rounded text-blue-800">{contestName(c.contestId)}</span>
+                 )}
                </div>
                {config.status === 'SETUP' && (
                  <button 
@@ -363,6 +1532,15 @@ export const AdminDashboard: React.FC<Props> = ({ config, votes, onUpdateConfig,
             </div>
           );
         })}
+        {/* System-managed NOTA, last on every single-choice constituency ballot */}
+        <div className="bg-gray-50 border border-dashed rounded-lg p-4 flex items-center gap-4">
+           <div className="text-4xl bg-white p-3 rounded-lg">{NOTA_CANDIDATE.symbol}</div>
+           <div>
+             <p className="font-bold text-lg">{NOTA_CANDIDATE.name}</p>
+             <p className="text-sm text-gray-600">{isPreferential(config.type) ? 'Not offered on preferential ballots' : 'Added last to every ballot'}</p>
+           </div>
+           <span className="ml-auto text-gray-400" title="System-managed option; cannot be removed"><Lock size={20} /></span>
+        </div>
       </div>
     </div>
   );
@@ -450,6 +1628,9 @@ export const AdminDashboard: React.FC<Props> = ({ config, votes, onUpdateConfig,
                    <span className="text-xs bg-gray-200 px-2 py-0.5 rounded text-gray-700">{booth.constituency}</span>
                  </div>
                  <p className="text-gray-600 text-sm">{booth.location}</p>
+                 <p className="text-xs text-gray-500 mt-1 font-mono">
+                   Enrolment code: {booth.authKey} • {booth.signingPublicKey ? 'Signing key enrolled' : 'Kiosk not enrolled'}
+                 </p>
                  <div className="flex gap-4 mt-2 text-xs text-gray-500">
                     <span className="flex items-center gap-1"><Wifi size={12} /> {booth.networkType}</span>
                     <span className="flex items-center gap-1"><Battery size={12} /> {Math.round(booth.batteryLevel)}%</span>
@@ -492,7 +1673,10 @@ export const AdminDashboard: React.FC<Props> = ({ config, votes, onUpdateConfig,
 
   const renderMonitor = () => {
     // Stats
-    const totalVotes = config.booths.reduce((acc, b) => acc + b.totalVotes, 0); // Real-time
+    // Turnout comes from roll check-ins, never from the ballots themselves
+    const turnout = boothTurnout(config);
+    const totalCheckedIn = turnout.reduce((acc, t) => acc + t.checkedIn, 0);
+    const totalElectors = turnout.reduce((acc, t) => acc + t.electors, 0);
     const activeBooths = config.booths.filter(b => b.status === 'ONLINE').length;
     
     return (
@@ -511,12 +1695,14 @@ export const AdminDashboard: React.FC<Props> = ({ config, votes, onUpdateConfig,
           )}
         </header>
 
+        <PollCountdown config={config} audience="admin" />
+
         {/* Live Metrics */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
            <div className="bg-slate-800 text-white p-4 rounded-lg shadow-lg">
-             <p className="text-slate-400 text-xs uppercase font-bold">Live Global Vote Count</p>
-             <p className="text-4xl font-mono font-bold mt-1 text-green-400">{totalVotes}</p>
-             <p className="text-xs text-slate-500 mt-2">Aggregated from all booths</p>
+             <p className="text-slate-400 text-xs uppercase font-bold">Live Turnout</p>
+             <p className="text-4xl font-mono font-bold mt-1 text-green-400">{totalCheckedIn}</p>
+             <p className="text-xs text-slate-500 mt-2">Of {totalElectors} electors checked in on the roll{totalElectors > 0 ? ` (${(100 * totalCheckedIn / totalElectors).toFixed(1)}%)` : ''}</p>
            </div>
            <div className="bg-white p-4 rounded-lg shadow border-l-4 border-green-500">
              <p className="text-gray-500 text-xs uppercase font-bold">Active Booths</p>
@@ -528,8 +1714,12 @@ export const AdminDashboard: React.FC<Props> = ({ config, votes, onUpdateConfig,
            </div>
            <div className="bg-white p-4 rounded-lg shadow border-l-4 border-blue-500">
              <p className="text-gray-500 text-xs uppercase font-bold">Election Time</p>
-             <p className="text-xl font-bold mt-2">04:12:30</p>
-             <p className="text-xs text-green-600 font-bold">● ON SCHEDULE</p>
+             <p className="text-xl font-bold mt-2 font-mono">{config.startTime ? formatCountdown((config.endTime ?? now) - config.startTime) : '--:--:--'}</p>
+             {config.scheduledEnd !== null && config.status === 'ACTIVE' ? (
+               <p className={`text-xs font-bold ${now >= config.scheduledEnd ? 'text-red-600' : 'text-green-600'}`}>● SCHEDULED CLOSE {formatClockTime(config.scheduledEnd)}</p>
+             ) : (
+               <p className="text-xs text-gray-500 font-bold">● {config.status === 'ACTIVE' ? 'NO SCHEDULED CLOSE' : config.status}</p>
+             )}
            </div>
         </div>
 
@@ -544,12 +1734,12 @@ export const AdminDashboard: React.FC<Props> = ({ config, votes, onUpdateConfig,
                  <th className="px-6 py-3 text-left">Booth ID / Location</th>
                  <th className="px-6 py-3 text-left">Status</th>
                  <th className="px-6 py-3 text-left">Connectivity</th>
-                 <th className="px-6 py-3 text-right">Votes (Live)</th>
+                 <th className="px-6 py-3 text-right">Turnout (Live)</th>
                  <th className="px-6 py-3 text-right">Last Heartbeat</th>
                </tr>
              </thead>
              <tbody className="divide-y">
-               {config.booths.map(b => (
+               {config.booths.map((b, i) => (
                  <tr key={b.id} className="hover:bg-gray-50 transition-colors">
                    <td className="px-6 py-4">
                      <p className="font-bold">{b.id}</p>
@@ -573,8 +1763,9 @@ export const AdminDashboard: React.FC<Props> = ({ config, votes, onUpdateConfig,
                         </span>
                      </div>
                    </td>
-                   <td className="px-6 py-4 text-right font-mono font-bold text-lg">
-                     {b.totalVotes}
+                   <td className="px-6 py-4 text-right">
+                     <p className="font-mono font-bold text-lg">{turnout[i].checkedIn}</p>
+                     <p className="text-xs text-gray-500">of {turnout[i].electors} electors</p>
                    </td>
                    <td className="px-6 py-4 text-right text-gray-500 text-xs">
                      {Math.round((Date.now() - b.lastHeartbeat) / 1000)}s ago
@@ -601,6 +1792,194 @@ export const AdminDashboard: React.FC<Props> = ({ config, votes, onUpdateConfig,
     );
   };
 
+  const renderPostal = () => {
+    const constituencies = listConstituencies(config);
+    const ranked = isPreferential(config.type);
+    const postalVotes = votes.filter(v => sourceOfVote(v) === 'POSTAL').length;
+    const accepted = config.postalEnvelopes.filter(e => e.status === 'ACCEPTED').length;
+    const open = config.status === 'ACTIVE' && !readOnly;
+
+    return (
+      <div className="space-y-6">
+        <div className="border-b pb-4">
+          <h2 className="text-2xl font-bold text-gray-800">Postal Ballots</h2>
+          <p className="text-gray-500">Postal and service-voter envelopes are checked at the returning officer's desk. Accepted ballots are encrypted with the election key and counted apart from booth ballots.</p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="bg-white p-4 rounded-lg shadow border-l-4 border-green-500">
+            <p className="text-gray-500 text-xs uppercase font-bold">Envelopes Accepted</p>
+            <p className="text-3xl font-bold mt-1">{accepted}</p>
+          </div>
+          <div className="bg-white p-4 rounded-lg shadow border-l-4 border-red-500">
+            <p className="text-gray-500 text-xs uppercase font-bold">Envelopes Rejected</p>
+            <p className="text-3xl font-bold mt-1">{config.postalEnvelopes.length - accepted}</p>
+          </div>
+          <div className={`bg-white p-4 rounded-lg shadow border-l-4 ${postalVotes === accepted ? 'border-blue-500' : 'border-red-600'}`}>
+            <p className="text-gray-500 text-xs uppercase font-bold">Postal Ballots on Ledger</p>
+            <p className="text-3xl font-bold mt-1">{postalVotes}</p>
+            {postalVotes !== accepted && <p className="text-xs text-red-700 font-bold">Does not match the accepted envelopes</p>}
+          </div>
+        </div>
+
+        {open ? (
+          <div className="bg-white p-6 rounded-lg shadow-sm border space-y-4">
+            <h3 className="text-lg font-semibold flex items-center gap-2"><Mail size={18} /> Envelope Intake</h3>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <input
+                className="border p-2 rounded font-mono"
+                placeholder="Envelope serial no."
+                value={postalDraft.serial}
+                onChange={e => setPostalDraft({ ...postalDraft, serial: e.target.value })}
+              />
+              <select
+                className="border p-2 rounded"
+                value={postalDraft.constituency}
+                onChange={e => { setPostalDraft({ ...postalDraft, constituency: e.target.value }); setPostalChoices({}); }}
+              >
+                <option value="">Constituency...</option>
+                {constituencies.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+              <select
+                className="border p-2 rounded"
+                value={postalDraft.voterCategory}
+                onChange={e => setPostalDraft({ ...postalDraft, voterCategory: e.target.value as PostalEnvelope['voterCategory'] })}
+              >
+                {Object.entries(VOTER_CATEGORY_LABELS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+              </select>
+              <input
+                className="border p-2 rounded"
+                placeholder="Returning officer's name"
+                value={returningOfficer}
+                onChange={e => setReturningOfficer(e.target.value)}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="space-y-3">
+                <p className="text-xs font-bold text-gray-500 uppercase">Accept: enter the ballot</p>
+                {!postalDraft.constituency ? (
+                  <p className="text-sm text-gray-500">Choose the constituency to show its ballot.</p>
+                ) : config.contests.map(contest => {
+                  const chosen = postalChoices[contest.id] ?? [];
+                  return (
+                    <div key={contest.id} className="border rounded p-3">
+                      <p className="text-sm font-bold text-gray-700 mb-2">
+                        {contest.name} <span className="font-normal text-gray-500">{ranked ? '- click candidates in order of preference' : '- one choice'}</span>
+                      </p>
+                      <div className="flex flex-wrap gap-2">
+                        {ballotCandidates(config, postalDraft.constituency, contest.id).map(c => {
+                          const rank = chosen.indexOf(c.id);
+                          return (
+                            <button
+                              key={c.id}
+                              onClick={() => togglePostalChoice(contest.id, c.id)}
+                              className={`px-3 py-1 rounded border text-sm flex items-center gap-1 ${rank >= 0 ? 'bg-blue-600 text-white border-blue-600' : 'hover:bg-gray-50'}`}
+                            >
+                              {ranked && rank >= 0 && <span className="font-bold">{rank + 1}.</span>}
+                              <SymbolMark symbol={c.symbol} label={c.partyName || c.name} /> {c.name}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  );
+                })}
+                <button
+                  onClick={() => handlePostalEnvelope('ACCEPTED')}
+                  disabled={isEnteringPostal || !postalDraft.constituency}
+                  className="w-full py-2 rounded-lg font-bold bg-green-700 text-white hover:bg-green-800 disabled:bg-gray-300 disabled:text-gray-500 flex items-center justify-center gap-2"
+                >
+                  <CheckCircle size={16} /> {isEnteringPostal ? 'Encrypting...' : 'Accept & Encrypt Ballot'}
+                </button>
+              </div>
+
+              <div className="space-y-3">
+                <p className="text-xs font-bold text-gray-500 uppercase">Reject: the ballot is not entered</p>
+                <select
+                  className="w-full border p-2 rounded"
+                  value={postalDraft.reason}
+                  onChange={e => setPostalDraft({ ...postalDraft, reason: e.target.value })}
+                >
+                  {POSTAL_REJECTION_REASONS.map(r => <option key={r} value={r}>{r}</option>)}
+                </select>
+                {postalDraft.reason === 'Other' && (
+                  <input
+                    className="w-full border p-2 rounded"
+                    placeholder="Reason for rejection"
+                    value={postalDraft.otherReason}
+                    onChange={e => setPostalDraft({ ...postalDraft, otherReason: e.target.value })}
+                  />
+                )}
+                <button
+                  onClick={() => handlePostalEnvelope('REJECTED')}
+                  disabled={isEnteringPostal || !postalDraft.constituency}
+                  className="w-full py-2 rounded-lg font-bold border border-red-600 text-red-700 hover:bg-red-50 disabled:opacity-50 flex items-center justify-center gap-2"
+                >
+                  <XCircle size={16} /> Reject Envelope
+                </button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="bg-gray-50 border p-4 rounded-lg text-sm text-gray-600 flex items-center gap-2">
+            <Lock size={16} /> Postal ballots are entered only while the polls are open.
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-500">
+              <tr>
+                <th className="p-3">Serial</th>
+                <th className="p-3">Constituency</th>
+                <th className="p-3">Category</th>
+                <th className="p-3">Decision</th>
+                <th className="p-3">Checked by</th>
+              </tr>
+            </thead>
+            <tbody>
+              {config.postalEnvelopes.length === 0 && (
+                <tr><td colSpan={5} className="p-4 text-center text-gray-400">No envelopes entered.</td></tr>
+              )}
+              {config.postalEnvelopes.map(e => (
+                <tr key={e.serial} className="border-t">
+                  <td className="p-3 font-mono">{e.serial}</td>
+                  <td className="p-3">{e.constituency}</td>
+                  <td className="p-3">{VOTER_CATEGORY_LABELS[e.voterCategory]}</td>
+                  <td className="p-3">
+                    {e.status === 'ACCEPTED'
+                      ? <span className="text-green-700 font-bold">Accepted</span>
+                      : <span className="text-red-700"><span className="font-bold">Rejected</span> - {e.reason}</span>}
+                  </td>
+                  <td className="p-3 text-gray-600">{e.checkedBy}, {e.checkedOn}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  };
+
+  // Decryption and every recount need the trustees' shares entered afresh
+  const renderShareInputs = () => config.trustees.map(t => (
+    <div key={t.id} className={`p-4 rounded-lg border transition-all ${validShares[t.id] ? 'bg-green-50 border-green-200' : 'bg-gray-50'}`}>
+      <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Trustee: {t.name}</label>
+      <div className="flex gap-2">
+        <input 
+          type="password" 
+          className="flex-1 p-2 border rounded focus:ring-2 focus:ring-blue-500 outline-none font-mono"
+          placeholder="Enter Key Share..."
+          value={shareInputs[t.id] || ''}
+          onChange={e => setShareInputs({ ...shareInputs, [t.id]: e.target.value })}
+          disabled={config.status !== 'CLOSED'}
+        />
+        {validShares[t.id] && <CheckCircle className="text-green-600 animate-bounce" />}
+      </div>
+    </div>
+  ));
+
   const renderResults = () => (
     <div className="space-y-8">
       <div className="border-b pb-4">
@@ -618,46 +1997,57 @@ export const AdminDashboard: React.FC<Props> = ({ config, votes, onUpdateConfig,
            
            {!results ? (
              <div className="space-y-6">
-                <div className={`p-4 rounded-lg border transition-all ${key1Valid ? 'bg-green-50 border-green-200' : 'bg-gray-50'}`}>
-                  <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Election Authority 1</label>
-                  <div className="flex gap-2">
-                    <input 
-                      type="password" 
-                      className="flex-1 p-2 border rounded focus:ring-2 focus:ring-blue-500 outline-none"
-                      placeholder="Enter Private Key..."
-                      value={authKey1}
-                      onChange={e => setAuthKey1(e.target.value)}
-                      disabled={config.status !== 'CLOSED'}
-                    />
-                    {key1Valid && <CheckCircle className="text-green-600 animate-bounce" />}
-                  </div>
+                <div className={`p-4 rounded-lg border ${mixCheck?.valid ? 'bg-green-50 border-green-200' : mixCheck ? 'bg-red-50 border-red-200' : 'bg-gray-50'}`}>
+                  <p className="text-xs font-bold text-gray-500 uppercase mb-2">Step 1: Mix Ballots</p>
+                  {config.mixedBallots ? (
+                    <div className="text-sm">
+                      <p className="flex items-center gap-2 font-bold">
+                        {!mixCheck ? (
+                          <><RefreshCw size={14} className="animate-spin text-gray-500" /> Verifying shuffle proof...</>
+                        ) : mixCheck.valid ? (
+                          <><CheckCircle size={14} className="text-green-600" /> Shuffle proof verified</>
+                        ) : (
+                          <><XCircle size={14} className="text-red-600" /> Shuffle proof FAILED</>
+                        )}
+                      </p>
+                      <p className="text-gray-600 mt-1">
+                        {config.mixedBallots.map(m => `${m.constituency} / ${contestName(m.contestId)}${m.source === 'POSTAL' ? ' (postal)' : ''}: ${m.ciphertexts.length} mixed${m.excludedVoteIds.length > 0 ? `, ${m.excludedVoteIds.length} excluded for failing their proofs` : ''}`).join('; ')}.
+                      </p>
+                      {mixCheck && !mixCheck.valid && <p className="text-red-700 mt-1">{mixCheck.reason}</p>}
+                    </div>
+                  ) : (
+                    <>
+                      <p className="text-sm text-gray-600 mb-3">
+                        Ballots are shuffled and re-encrypted so that no decrypted ballot can be linked to its submission time.
+                      </p>
+                      <button
+                        onClick={handleMixBallots}
+                        disabled={config.status !== 'CLOSED' || isMixing}
+                        className="w-full py-2 rounded-lg font-bold bg-slate-800 text-white hover:bg-slate-700 disabled:bg-gray-300 disabled:text-gray-500 flex items-center justify-center gap-2"
+                      >
+                        <Shuffle size={16} /> {isMixing ? 'Mixing & Proving...' : 'Mix Ballots'}
+                      </button>
+                    </>
+                  )}
                 </div>
 
-                <div className={`p-4 rounded-lg border transition-all ${key2Valid ? 'bg-green-50 border-green-200' : 'bg-gray-50'}`}>
-                  <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Election Authority 2</label>
-                  <div className="flex gap-2">
-                    <input 
-                      type="password" 
-                      className="flex-1 p-2 border rounded focus:ring-2 focus:ring-blue-500 outline-none"
-                      placeholder="Enter Private Key..."
-                      value={authKey2}
-                      onChange={e => setAuthKey2(e.target.value)}
-                      disabled={config.status !== 'CLOSED'}
-                    />
-                     {key2Valid && <CheckCircle className="text-green-600 animate-bounce" />}
-                  </div>
-                </div>
+                <p className="text-xs font-bold text-gray-500 uppercase">Step 2: Trustee Decryption</p>
+                <p className="text-sm text-gray-600">
+                  Shares from any <span className="font-bold">{config.threshold}</span> of {config.trustees.length} trustees are required.
+                  The key is reconstructed in memory only.
+                </p>
+                {renderShareInputs()}
 
                 <button 
                   onClick={handleDecryptResults}
-                  disabled={!key1Valid || !key2Valid || config.status !== 'CLOSED'}
+                  disabled={!quorumReached || isDecrypting || config.status !== 'CLOSED' || !mixCheck?.valid}
                   className={`w-full py-3 rounded-lg font-bold shadow-md transition-all ${
-                    key1Valid && key2Valid && config.status === 'CLOSED' 
+                    quorumReached && !isDecrypting && config.status === 'CLOSED' && mixCheck?.valid 
                     ? 'bg-blue-900 text-white hover:bg-blue-800 transform hover:scale-105' 
                     : 'bg-gray-300 text-gray-500 cursor-not-allowed'
                   }`}
                 >
-                  {config.status !== 'CLOSED' ? 'Wait for Election to Close' : 'Decrypt & Tally Votes'}
+                  {config.status !== 'CLOSED' ? 'Wait for Election to Close' : !mixCheck?.valid ? 'Mixed Ballots Must Verify First' : isDecrypting ? 'Decrypting...' : `Decrypt & Tally Votes (${validShareCount}/${config.threshold} shares)`}
                 </button>
              </div>
            ) : (
@@ -665,19 +2055,173 @@ export const AdminDashboard: React.FC<Props> = ({ config, votes, onUpdateConfig,
                 <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
                   <CheckCircle className="text-green-600 w-8 h-8" />
                 </div>
-                <h4 className="text-xl font-bold text-gray-800">Results Decrypted</h4>
-                <p className="text-gray-500 mb-6">Official tally generated.</p>
-                <div className="h-64 w-full">
-                   <ResponsiveContainer width="100%" height="100%">
-                      <BarChart data={results}>
-                        <CartesianGrid strokeDasharray="3 3" />
-                        <XAxis dataKey="candidateId" tick={{fontSize: 10}} />
-                        <YAxis />
-                        <Tooltip />
-                        <Bar dataKey="count" fill="#3b82f6" />
-                      </BarChart>
-                    </ResponsiveContainer>
+                <h4 className="text-xl font-bold text-gray-800">{config.declaration ? 'Results Declared' : 'Results Decrypted'}</h4>
+                <p className="text-gray-500 mb-6">
+                  {config.declaration
+                    ? `Declared by returning officer ${config.declaration.declaredBy}, ${new Date(config.declaration.declaredAt).toLocaleString()}.`
+                    : `Counted for ${results.length} contest(s) across ${new Set(results.map(t => t.constituency)).size} constituencies. Not official until declared.`}
+                </p>
+                {!config.declaration && config.status === 'CLOSED' && (
+                  <div className="mb-6 p-4 rounded-lg border bg-gray-50 text-left space-y-3">
+                    <p className="text-xs font-bold text-gray-500 uppercase">Step 3: Declaration</p>
+                    <p className="text-sm text-gray-600">
+                      The returning officer settles any tie by drawing lots, may order a recount of any contest, and declares the result. Declaring publishes the election.
+                    </p>
+                    <input
+                      className="w-full p-2 border rounded"
+                      placeholder="Returning officer's name"
+                      value={returningOfficer}
+                      onChange={e => setReturningOfficer(e.target.value)}
+                    />
+                    <p className="text-sm text-gray-600">
+                      A recount starts again from the ledger ballots. Shares from {config.threshold} trustees are needed for each recount ({validShareCount}/{config.threshold} entered).
+                    </p>
+                    {renderShareInputs()}
+                    {declarationProblem(config) && (
+                      <p className="text-sm text-yellow-800 flex items-center gap-2"><AlertTriangle size={14} /> {declarationProblem(config)}</p>
+                    )}
+                    <button
+                      onClick={handleDeclareResults}
+                      disabled={!!declarationProblem(config) || !returningOfficer.trim() || recounting !== null}
+                      className="w-full py-2 rounded-lg font-bold bg-green-700 text-white hover:bg-green-800 disabled:bg-gray-300 disabled:text-gray-500"
+                    >
+                      Declare Results
+                    </button>
+                  </div>
+                )}
+                <div className="space-y-6 text-left">
+                  {results.map(tally => {
+                    const seats = contestSeats(config.contests, tally.contestId);
+                    const draw = drawFor(config, tally);
+                    const recount = latestRecount(config, tally);
+                    const outcome = contestOutcome(tally, seats, draw);
+                    const winners = outcome.winners.map(id => config.candidates.find(c => c.id === id)).filter((c): c is Candidate => !!c);
+                    const tallyKey = `${tally.constituency}:${tally.contestId}`;
+                    const nameOf = (id: string) => [...config.candidates, NOTA_CANDIDATE].find(c => c.id === id)?.name ?? id;
+                    const chartData = tally.results.map(r => ({ ...r, name: r.isNota ? 'NOTA' : nameOf(r.candidateId) }));
+                    const notaCount = tally.results.find(r => r.isNota)?.count ?? 0;
+                    return (
+                      <div key={`${tally.constituency}:${tally.contestId}`} className="border rounded-lg p-4">
+                        <div className="flex justify-between items-center mb-2">
+                          <h5 className="font-bold text-gray-800 flex items-center gap-1">
+                            <MapPin size={14} /> {tally.constituency}
+                            <span className="font-normal text-gray-500">• {contestName(tally.contestId)}{seats > 1 ? ` (${seats} seats)` : ''}</span>
+                          </h5>
+                          <div className="flex gap-1">
+                            {winners.length > 0 && (
+                              <span className="text-xs font-bold bg-green-100 text-green-800 px-2 py-1 rounded-full">
+                                {tally.preferential ? 'Elected' : winners.length > 1 ? 'Winners' : 'Winner'}: {winners.map((w, i) => (
+                                  <React.Fragment key={w.id}>{i > 0 && ', '}<SymbolMark symbol={w.symbol} label={w.partyName || w.name} /> {w.name}</React.Fragment>
+                                ))}
+                              </span>
+                            )}
+                            {outcome.tie ? (
+                              <span className="text-xs font-bold bg-yellow-100 text-yellow-800 px-2 py-1 rounded-full">
+                                {tally.preferential ? 'STV count stopped by a tie' : `Tied for ${outcome.tie.places} place(s)`}: {outcome.tie.candidateIds.map(nameOf).join(', ')}
+                              </span>
+                            ) : winners.length < seats && (
+                              <span className="text-xs font-bold bg-yellow-100 text-yellow-800 px-2 py-1 rounded-full">
+                                {!tally.results.some(r => r.count > 0) ? 'No votes cast' : 'Seat(s) unfilled - too few votes'}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-3 mb-2 text-xs text-gray-600">
+                          {outcome.margin !== null && (
+                            <span>Margin: <span className="font-bold">{formatVotes(outcome.margin)}</span> vote(s){tally.preferential ? ' in the final round' : ''}</span>
+                          )}
+                          {draw && <span>Decided by lot ({draw.drawnBy}), seed <span className="font-mono">{draw.seed.substring(0, 16)}...</span></span>}
+                          {recount && (
+                            <span className={recount.matches ? 'text-green-700' : 'text-red-700 font-bold'}>
+                              Recount by {recount.orderedBy}: {recount.matches ? 'matches the first count' : `differs - ${recount.differences.join(' ')}`}
+                            </span>
+                          )}
+                          {!config.declaration && config.status === 'CLOSED' && (
+                            <span className="flex gap-2 ml-auto">
+                              {outcome.tie && (
+                                <button onClick={() => handleDrawLots(tally)} className="border border-yellow-600 text-yellow-800 px-2 py-1 rounded hover:bg-yellow-50 font-medium">
+                                  Draw Lots
+                                </button>
+                              )}
+                              <button
+                                onClick={() => handleRecount(tally)}
+                                disabled={recounting !== null || !quorumReached}
+                                className="border border-slate-600 text-slate-700 px-2 py-1 rounded hover:bg-slate-50 font-medium flex items-center gap-1 disabled:opacity-50"
+                              >
+                                <RefreshCw size={12} className={recounting === tallyKey ? 'animate-spin' : ''} /> {recounting === tallyKey ? 'Recounting...' : 'Order Recount'}
+                              </button>
+                            </span>
+                          )}
+                        </div>
+                        <div className={tally.preferential ? 'grid grid-cols-1 lg:grid-cols-2 gap-4' : ''}>
+                        <div>
+                        {tally.preferential && <p className="text-xs font-bold text-gray-500 uppercase">First preferences</p>}
+                        <div className="h-48 w-full">
+                          <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={chartData}>
+                              <CartesianGrid strokeDasharray="3 3" />
+                              <XAxis dataKey="name" tick={{fontSize: 10}} />
+                              <YAxis allowDecimals={false} />
+                              <Tooltip />
+                              <Bar dataKey="count" fill="#3b82f6">
+                                {chartData.map(r => <Cell key={r.candidateId} fill={r.isNota ? '#9ca3af' : '#3b82f6'} />)}
+                              </Bar>
+                            </BarChart>
+                          </ResponsiveContainer>
+                        </div>
+                        </div>
+                        {tally.preferential && <StvRoundsTable count={tally.preferential} nameOf={nameOf} />}
+                        </div>
+                        <table className="w-full text-xs mt-3">
+                          <thead>
+                            <tr className="text-left text-gray-500 border-b">
+                              <th className="py-1 pr-2">{tally.preferential ? 'First preferences' : 'Candidate'}</th>
+                              <th className="py-1 px-2 text-right">Booth</th>
+                              <th className="py-1 px-2 text-right">Postal</th>
+                              <th className="py-1 px-2 text-right">Total</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {tally.results.map(r => (
+                              <tr key={r.candidateId} className="border-b">
+                                <td className="py-1 pr-2">{r.isNota ? 'NOTA' : nameOf(r.candidateId)}</td>
+                                {VOTE_SOURCES.map(source => (
+                                  <td key={source} className="py-1 px-2 text-right font-mono">
+                                    {tally.sources.find(s => s.source === source)?.results.find(x => x.candidateId === r.candidateId)?.count ?? 0}
+                                  </td>
+                                ))}
+                                <td className="py-1 px-2 text-right font-mono font-bold">{r.count}</td>
+                              </tr>
+                            ))}
+                            <tr className="text-gray-500">
+                              <td className="py-1 pr-2">Invalid</td>
+                              {VOTE_SOURCES.map(source => (
+                                <td key={source} className="py-1 px-2 text-right font-mono">{tally.sources.find(s => s.source === source)?.invalid ?? 0}</td>
+                              ))}
+                              <td className="py-1 px-2 text-right font-mono font-bold">{tally.invalid}</td>
+                            </tr>
+                          </tbody>
+                        </table>
+                        {tally.preferential ? (
+                          <p className="text-xs text-gray-500 mt-2">Droop quota {tally.preferential.quota} for {tally.preferential.seats} seat(s); {tally.invalid} invalid ballot(s).</p>
+                        ) : (
+                          <p className="text-xs text-gray-500 mt-2">{NOTA_CANDIDATE.symbol} NOTA: {notaCount} vote(s) - counted, but excluded from winner determination.</p>
+                        )}
+                      </div>
+                    );
+                  })}
                 </div>
+                {config.declaration && (
+                  <>
+                    <button
+                      onClick={handleExportRecord}
+                      className="mt-6 bg-slate-800 text-white px-4 py-2 rounded-lg font-bold hover:bg-slate-700 inline-flex items-center gap-2"
+                    >
+                      <FileText size={16} /> Export Election Record
+                    </button>
+                    <p className="text-xs text-gray-500 mt-2">Check it offline with <span className="font-mono">npm run verify-record -- &lt;file&gt;</span></p>
+                  </>
+                )}
              </div>
            )}
         </div>
@@ -686,25 +2230,78 @@ export const AdminDashboard: React.FC<Props> = ({ config, votes, onUpdateConfig,
         <div className="bg-white p-6 rounded-xl shadow-lg border border-gray-200 flex flex-col h-full">
            <div className="flex items-center justify-between mb-4">
              <h3 className="text-lg font-bold flex items-center gap-2"><Database size={18} /> Audit Ledger</h3>
-             <span className="flex items-center gap-1 text-xs text-green-600 font-bold px-2 py-1 bg-green-100 rounded-full">
-               <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></span> LIVE
-             </span>
+             {ledgerCheck && !ledgerCheck.valid ? (
+               <span className="flex items-center gap-1 text-xs text-red-700 font-bold px-2 py-1 bg-red-100 rounded-full">
+                 <AlertTriangle size={12} /> CHAIN BROKEN
+               </span>
+             ) : (
+               <span className="flex items-center gap-1 text-xs text-green-600 font-bold px-2 py-1 bg-green-100 rounded-full">
+                 <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></span> LIVE
+               </span>
+             )}
            </div>
+
+           {config.bulletinBoard && (
+             <div className="mb-4 bg-blue-50 border border-blue-200 p-3 rounded text-xs">
+               <p className="font-bold text-blue-900 uppercase mb-1">Bulletin Board Root ({config.bulletinBoard.leafCount} ballots)</p>
+               <p className="font-mono break-all text-blue-800">{config.bulletinBoard.root}</p>
+               <p className="text-blue-700 mt-1">Frozen at {new Date(config.bulletinBoard.frozenAt).toLocaleString()}</p>
+             </div>
+           )}
+
+           {ledgerCheck && !ledgerCheck.valid && (
+             <div className="mb-4 bg-red-50 border border-red-200 text-red-800 p-3 rounded text-sm">
+               <p className="font-bold">Integrity failure at record #{(ledgerCheck.brokenAt ?? 0) + 1}</p>
+               <p>{ledgerCheck.fault && LEDGER_FAULT_LABELS[ledgerCheck.fault]}</p>
+             </div>
+           )}
            
+           {invalidProofCount > 0 && (
+             <div className="mb-4 bg-red-50 border border-red-200 text-red-800 p-3 rounded text-sm">
+               <p className="font-bold">{invalidProofCount} ballot(s) failed their well-formedness proofs</p>
+               <p>These ballots will be excluded from the tally.</p>
+             </div>
+           )}
+
+           {spoiledBallots.length > 0 && (
+             <div className="mb-4 bg-yellow-50 border border-yellow-200 p-3 rounded text-xs text-yellow-900">
+               <p className="font-bold uppercase">Challenged Ballots (spoiled, never tallied): {spoiledBallots.length}</p>
+               {spoiledBallots.some(b => !b.auditPassed) && (
+                 <p className="text-red-700 font-bold mt-1">{spoiledBallots.filter(b => !b.auditPassed).length} challenge(s) failed verification</p>
+               )}
+             </div>
+           )}
+
            <div className="flex-1 overflow-y-auto bg-gray-50 rounded-lg border p-2 space-y-2 max-h-[500px]">
               {votes.length === 0 && <p className="text-center text-gray-400 py-10">Waiting for first vote...</p>}
-              {[...votes].reverse().map(vote => (
-                <div key={vote.voteId} className="bg-white p-3 rounded border shadow-sm text-xs font-mono flex items-center justify-between animate-in fade-in slide-in-from-top-2">
-                   <div>
-                     <p className="text-gray-500">{new Date(vote.timestamp).toLocaleTimeString()}</p>
-                     <p className="font-bold text-gray-800">ID: {vote.voteId.substring(0, 12)}...</p>
-                   </div>
-                   <div className="text-right">
-                     <p className="text-blue-600 truncate w-24">{vote.integrityHash.substring(0, 10)}...</p>
-                     <span className="text-green-600 font-bold flex items-center gap-1 justify-end"><CheckCircle size={10} /> Verified</span>
-                   </div>
-                </div>
-              ))}
+              {votes.map((vote, index) => {
+                const brokenAt = ledgerCheck?.brokenAt ?? null;
+                const isBroken = brokenAt === index;
+                const isVerified = !!ledgerCheck && (brokenAt === null || index < brokenAt);
+                return (
+                  <div key={vote.voteId} className={`bg-white p-3 rounded border shadow-sm text-xs font-mono flex items-center justify-between animate-in fade-in slide-in-from-top-2 ${isBroken ? 'border-red-400 bg-red-50' : ''}`}>
+                     <div>
+                       <p className="text-gray-500">#{index + 1} • {new Date(vote.timestamp).toLocaleTimeString()}</p>
+                       <p className="font-bold text-gray-800">ID: {vote.voteId.substring(0, 12)}...</p>
+                     </div>
+                     <div className="text-right">
+                       <p className="text-blue-600 truncate w-24" title={vote.integrityHash}>{vote.integrityHash.substring(0, 10)}...</p>
+                       {isVerified ? (
+                         <span className="text-green-600 font-bold flex items-center gap-1 justify-end"><CheckCircle size={10} /> Verified</span>
+                       ) : isBroken ? (
+                         <span className="text-red-600 font-bold flex items-center gap-1 justify-end"><XCircle size={10} /> Tampered</span>
+                       ) : (
+                         <span className="text-gray-400 font-bold flex items-center gap-1 justify-end"><AlertTriangle size={10} /> Unverified</span>
+                       )}
+                       {proofChecks[vote.voteId] === false ? (
+                         <span className="text-red-600 font-bold flex items-center gap-1 justify-end"><XCircle size={10} /> Proof Invalid</span>
+                       ) : proofChecks[vote.voteId] && (
+                         <span className="text-green-600 font-bold flex items-center gap-1 justify-end"><CheckCircle size={10} /> Proof OK</span>
+                       )}
+                     </div>
+                  </div>
+                );
+              }).reverse()}
            </div>
         </div>
       </div>
@@ -715,10 +2312,16 @@ export const AdminDashboard: React.FC<Props> = ({ config, votes, onUpdateConfig,
     <div className="flex min-h-screen bg-gray-100 font-sans">
        {renderSidebar()}
        <main className="flex-1 ml-64 p-8 overflow-y-auto h-screen">
+          {readOnly && (
+            <div className="mb-6 bg-slate-200 border border-slate-300 text-slate-700 p-4 rounded-lg flex items-center gap-2">
+              <Archive size={18} /> Archived election: records, results and logs are read-only.
+            </div>
+          )}
           {activeTab === 'CONFIG' && renderConfig()}
           {activeTab === 'PARTIES' && renderPartiesCandidates()}
           {activeTab === 'BOOTHS' && renderBooths()}
           {activeTab === 'MONITOR' && renderMonitor()}
+          {activeTab === 'POSTAL' && renderPostal()}
           {activeTab === 'RESULTS' && renderResults()}
        </main>
     </div>
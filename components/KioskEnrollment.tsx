@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { ElectionConfig, ElectionSummary } from '../types';
+import { KeyRound, Server } from 'lucide-react';
+
+interface Props {
+  config: ElectionConfig;
+  elections: ElectionSummary[];
+  onSelectElection: (electionId: string) => void;
+  onEnroll: (boothId: string, authKey: string) => Promise<string | null>;
+  onExit: () => void;
+}
+
+export const KioskEnrollment: React.FC<Props> = ({ config, elections, onSelectElection, onEnroll, onExit }) => {
+  const [boothId, setBoothId] = useState('');
+  const [authKey, setAuthKey] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isEnrolling, setIsEnrolling] = useState(false);
+
+  const handleEnroll = async () => {
+    if (!boothId || !authKey) return;
+    setIsEnrolling(true);
+    setError(await onEnroll(boothId, authKey.trim()));
+    setIsEnrolling(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
+      <div className="bg-white p-8 rounded-xl shadow-lg max-w-md w-full">
+        <h2 className="text-2xl font-bold mb-2 text-gray-800 flex items-center gap-2">
+          <Server className="text-blue-700" /> Kiosk Enrolment
+        </h2>
+        <p className="text-gray-500 mb-6">
+          A polling official must bind this device to its booth before voting. The kiosk generates its own ballot signing key.
+        </p>
+        <div className="space-y-4">
+          {elections.length > 1 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Election</label>
+              <select
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm border p-3 bg-gray-50"
+                value={config.id}
+                onChange={(e) => { onSelectElection(e.target.value); setBoothId(''); setError(null); }}
+              >
+                {elections.map(e => (
+                  <option key={e.id} value={e.id}>{e.name} ({e.status})</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Polling Booth</label>
+            <select
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm border p-3 bg-gray-50"
+              value={boothId}
+              onChange={(e) => setBoothId(e.target.value)}
+            >
+              <option value="">Select booth...</option>
+              {config.booths.map(b => (
+                <option key={b.id} value={b.id}>{b.id} - {b.location} ({b.constituency})</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Booth Enrolment Code</label>
+            <input
+              type="password"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 p-3 border"
+              value={authKey}
+              onChange={(e) => setAuthKey(e.target.value)}
+              placeholder="Enter the booth auth key..."
+            />
+          </div>
+          {error && <p className="text-sm text-red-600 font-medium">{error}</p>}
+          <button
+            onClick={handleEnroll}
+            disabled={!boothId || !authKey || isEnrolling}
+            className="w-full bg-blue-900 text-white py-3 rounded-lg font-bold hover:bg-blue-800 disabled:bg-gray-300 disabled:text-gray-500 flex items-center justify-center gap-2"
+          >
+            <KeyRound size={18} /> {isEnrolling ? 'Generating Signing Key...' : 'Enrol Kiosk'}
+          </button>
+          <button
+            onClick={onExit}
+            className="w-full text-gray-500 py-2 hover:underline"
+          >
+            Back to Home
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
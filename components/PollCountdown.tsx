@@ -0,0 +1,59 @@
+import React, { useState, useEffect } from 'react';
+import { ElectionConfig } from '../types';
+import { CLOSE_GRACE_MS, formatCountdown, pastScheduledClose } from '../services/pollScheduleService';
+import { Clock } from 'lucide-react';
+
+// Closing countdowns turn to a warning in the final stretch
+const FINAL_CALL_MS = 15 * 60 * 1000;
+
+/** Current time, re-rendering the caller every tick. */
+export const useClock = (intervalMs = 1000) => {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+  return now;
+};
+
+export const formatClockTime = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+interface Props {
+  config: Pick<ElectionConfig, 'status' | 'scheduledStart' | 'scheduledEnd'>;
+  audience: 'admin' | 'voter';
+  highContrast?: boolean;
+}
+
+/** Countdown to the next scheduled opening or closing; renders nothing when none is planned. */
+export const PollCountdown: React.FC<Props> = ({ config, audience, highContrast = false }) => {
+  const now = useClock();
+  const admin = audience === 'admin';
+
+  let message: string;
+  let urgent = false;
+  if (config.status === 'SETUP' && config.scheduledStart !== null) {
+    message = `${admin ? 'Polls open automatically' : 'Polls open'} in ${formatCountdown(config.scheduledStart - now)}`;
+  } else if (config.status === 'ACTIVE' && config.scheduledEnd !== null) {
+    if (pastScheduledClose(config, now)) {
+      message = admin
+        ? `Closing time ${formatClockTime(config.scheduledEnd)} has passed. Polls close once voters already in the booth finish, or ${formatClockTime(config.scheduledEnd + CLOSE_GRACE_MS)} at the latest.`
+        : 'Polls have closed. If you are already voting, you may finish.';
+    } else {
+      message = `${admin ? 'Polls close automatically' : 'Polls close'} in ${formatCountdown(config.scheduledEnd - now)}`;
+    }
+    urgent = config.scheduledEnd - now < FINAL_CALL_MS;
+  } else {
+    return null;
+  }
+
+  const colors = highContrast
+    ? 'bg-gray-900 text-yellow-300 border-yellow-400'
+    : urgent ? 'bg-red-50 text-red-800 border-red-300' : 'bg-blue-50 text-blue-800 border-blue-200';
+
+  return (
+    <div role="timer" aria-live="off" className={`flex items-center gap-2 px-4 py-2 border font-bold ${admin ? 'rounded-lg' : 'justify-center'} ${colors}`}>
+      <Clock size={admin ? 18 : 24} className={urgent ? 'animate-pulse' : ''} />
+      <span className="tabular-nums">{message}</span>
+    </div>
+  );
+};
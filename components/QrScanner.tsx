@@ -0,0 +1,87 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createQrDecoder, openCamera } from '../services/qrScanService';
+import { CameraOff } from 'lucide-react';
+
+// A few decodes a second keeps up with a hand-held slip without starving the kiosk
+const SCAN_INTERVAL_MS = 250;
+
+export type ScanFeedback = { tone: 'success' | 'error'; message: string } | null;
+
+interface Props {
+  onScan: (payload: string) => void;
+  paused: boolean; // No decoding while a scan is being handled
+  feedback: ScanFeedback; // Outcome of the last scan, shown on the viewfinder
+  onCameraError: (message: string) => void;
+  highContrast?: boolean;
+}
+
+/** Live camera viewfinder that reports each QR code it reads. */
+export const QrScanner: React.FC<Props> = ({ onScan, paused, feedback, onCameraError, highContrast = false }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  // The scan loop outlives renders, so it reads the latest props through refs
+  const pausedRef = useRef(paused);
+  const onScanRef = useRef(onScan);
+  pausedRef.current = paused;
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    (async () => {
+      try {
+        stream = await openCamera();
+        const video = videoRef.current;
+        if (cancelled || !video) return;
+        video.srcObject = stream;
+        await video.play();
+        const decode = await createQrDecoder();
+        const tick = async () => {
+          if (cancelled) return;
+          if (!pausedRef.current && video.readyState >= video.HAVE_CURRENT_DATA) {
+            const payload = await decode(video).catch(() => null);
+            if (payload && !cancelled && !pausedRef.current) onScanRef.current(payload);
+          }
+          timer = setTimeout(tick, SCAN_INTERVAL_MS);
+        };
+        tick();
+      } catch (e) {
+        if (cancelled) return;
+        const message = e instanceof Error ? e.message : 'The camera could not be started.';
+        setCameraError(message);
+        onCameraError(message);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  if (cameraError) {
+    return (
+      <div className={`w-80 h-60 rounded-2xl border-4 border-dashed flex flex-col items-center justify-center gap-3 p-4 ${highContrast ? 'border-yellow-400 text-yellow-300' : 'border-gray-400 text-gray-600'}`}>
+        <CameraOff size={64} />
+        <p className="text-lg">{cameraError}</p>
+      </div>
+    );
+  }
+
+  const frame = feedback?.tone === 'success' ? 'border-green-500'
+    : feedback?.tone === 'error' ? 'border-red-600'
+    : highContrast ? 'border-yellow-400' : 'border-gray-400';
+  return (
+    <div className={`relative w-80 h-60 rounded-2xl border-8 overflow-hidden bg-black transition-colors ${frame}`}>
+      <video ref={videoRef} className="w-full h-full object-cover" muted playsInline aria-hidden="true" />
+      {feedback && (
+        <p className={`absolute bottom-0 inset-x-0 p-2 text-lg font-bold text-white ${feedback.tone === 'success' ? 'bg-green-700' : 'bg-red-700'}`}>
+          {feedback.message}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { ElectionConfig, ElectionSummary, VoteRecord } from '../types';
+import { verifyReceipt, ReceiptVerification } from '../services/receiptService';
+import { ShieldCheck, CheckCircle, XCircle, Clock, Search } from 'lucide-react';
+
+interface Props {
+  config: ElectionConfig;
+  votes: VoteRecord[];
+  elections: ElectionSummary[];
+  onSelectElection: (electionId: string) => void;
+  onExit: () => void;
+}
+
+export const ReceiptVerifier: React.FC<Props> = ({ config, votes, elections, onSelectElection, onExit }) => {
+  const [receiptCode, setReceiptCode] = useState('');
+  const [result, setResult] = useState<ReceiptVerification | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleVerify = async () => {
+    if (!receiptCode.trim()) return;
+    setIsChecking(true);
+    setResult(await verifyReceipt(votes, receiptCode, config.bulletinBoard));
+    setIsChecking(false);
+  };
+
+  const renderCheck = (ok: boolean | null, label: string, detail: string) => (
+    <div className="flex items-start gap-3">
+      {ok === null ? <Clock className="text-yellow-600 shrink-0" /> : ok ? <CheckCircle className="text-green-600 shrink-0" /> : <XCircle className="text-red-600 shrink-0" />}
+      <div>
+        <p className="font-bold">{label}</p>
+        <p className="text-sm text-gray-600">{detail}</p>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
+      <div className="bg-white p-8 rounded-xl shadow-lg max-w-xl w-full">
+        <h2 className="text-2xl font-bold mb-2 text-gray-800 flex items-center gap-2">
+          <ShieldCheck className="text-blue-700" /> Verify Your Receipt
+        </h2>
+        <p className="text-gray-500 mb-6">
+          Check that your ballot was recorded and has not been altered. Your vote itself is never shown or decrypted.
+        </p>
+
+        <div className="space-y-4">
+          {elections.length > 1 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Election</label>
+              <select
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm border p-3 bg-gray-50"
+                value={config.id}
+                onChange={(e) => onSelectElection(e.target.value)}
+              >
+                {elections.map(e => (
+                  <option key={e.id} value={e.id}>{e.name}{e.archived ? ' (archived)' : ''}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Verification Hash</label>
+            <textarea
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 p-3 border font-mono text-sm h-24"
+              value={receiptCode}
+              onChange={(e) => { setReceiptCode(e.target.value); setResult(null); }}
+              placeholder="Paste the verification hash or bulletin board leaf from your receipt..."
+            />
+          </div>
+          <button
+            onClick={handleVerify}
+            disabled={!receiptCode.trim() || isChecking}
+            className="w-full bg-blue-900 text-white py-3 rounded-lg font-bold hover:bg-blue-800 disabled:bg-gray-300 disabled:text-gray-500 flex items-center justify-center gap-2"
+          >
+            <Search size={18} /> {isChecking ? 'Checking...' : 'Verify Receipt'}
+          </button>
+        </div>
+
+        {result && (
+          <div className={`mt-6 p-4 rounded-lg border space-y-4 ${result.found && result.integrityValid && result.inclusion !== 'FAILED' ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+            {!result.found ? (
+              renderCheck(false, 'No matching ballot found', `None of the ${result.total} recorded ballots carries this receipt. Check the code and try again, or report it to a polling official.`)
+            ) : (
+              <>
+                {renderCheck(true, 'Ballot found', `Recorded at position ${result.position} of ${result.total}.`)}
+                {renderCheck(
+                  result.integrityValid,
+                  result.integrityValid ? 'Integrity check passed' : 'Integrity check FAILED',
+                  result.integrityValid
+                    ? 'The record matches its hash and is correctly chained to the ballot before it.'
+                    : 'The stored record no longer matches its hash chain. Report this to the election authority.'
+                )}
+                {renderCheck(
+                  result.inclusion === 'PENDING' ? null : result.inclusion === 'VERIFIED',
+                  result.inclusion === 'PENDING' ? 'Bulletin board not yet published' : result.inclusion === 'VERIFIED' ? 'Included in published bulletin board' : 'NOT included in published bulletin board',
+                  result.inclusion === 'PENDING'
+                    ? 'Inclusion can be confirmed once polls close and the Merkle root is frozen.'
+                    : `Checked against root ${config.bulletinBoard?.root.substring(0, 16)}...`
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        <button
+          onClick={onExit}
+          className="w-full text-gray-500 py-2 mt-4 hover:underline"
+        >
+          Back to Home
+        </button>
+      </div>
+    </div>
+  );
+};
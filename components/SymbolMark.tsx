@@ -0,0 +1,14 @@
+import React from 'react';
+import { isImageSymbol } from '../services/symbolService';
+
+interface Props {
+  symbol: string;
+  label: string; // Read out by screen readers, e.g. the party name
+  className?: string;
+}
+
+/** A party or candidate symbol: an emoji, or an uploaded image sized like one (1em) on a white tile. */
+export const SymbolMark: React.FC<Props> = ({ symbol, label, className = '' }) =>
+  isImageSymbol(symbol)
+    ? <img src={symbol} alt={`${label} symbol`} className={`inline-block align-middle object-contain bg-white rounded ${className}`} style={{ width: '1em', height: '1em' }} />
+    : <span role="img" aria-label={`${label} symbol`} className={className}>{symbol}</span>;
@@ -1,18 +1,37 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { VoterStep, AccessibilitySettings, Candidate, VoteRecord } from '../types';
-import { TRANSLATIONS } from '../constants';
+import { VoterStep, AccessibilitySettings, BallotToken, Candidate, Contest, EncryptedBallot, VoteRecord, MerkleProofStep, SpoiledBallot, KioskIdentity } from '../types';
+import { TRANSLATIONS, NOTA_HINTS } from '../constants';
 import { speak, cancelSpeech } from '../services/ttsService';
 import { AccessibleButton } from './AccessibleButton';
-import { encryptVote, generateVoteId } from '../services/cryptoService';
-import { Mic, Eye, Type, MousePointer2, Check, QrCode, ArrowRight, Volume2, ZoomIn, Sun } from 'lucide-react';
+import { PollCountdown, useClock } from './PollCountdown';
+import { SymbolMark } from './SymbolMark';
+import { QrScanner, ScanFeedback } from './QrScanner';
+import { encryptBallot, auditBallot, generateVoteId, sha256Hex } from '../services/cryptoService';
+import { hashLeaf, buildInclusionProof, verifyInclusionProof } from '../services/merkleService';
+import { signVoteRecord } from '../services/boothSigningService';
+import { blindToken, unblindToken } from '../services/ballotTokenService';
+import { readVoterSlip } from '../services/voterSlipService';
+import { pastScheduledClose } from '../services/pollScheduleService';
+import { displayOrder } from '../services/ballotOrderService';
+import { spokenSymbol, photoAltText } from '../services/symbolService';
+import { ballotCandidates, ballotSpec, constituencyOfBooth, isNota, isPreferential } from '../services/ballotService';
+import { Mic, Eye, Type, MousePointer2, Check, ArrowRight, Volume2, ZoomIn, Sun, SearchCheck, AlertTriangle } from 'lucide-react';
+
+// How long a slip scan's outcome stays up before the camera reads again
+const SCAN_FEEDBACK_MS = 3000;
 
 interface Props {
   config: any;
-  onSubmitVote: (vote: VoteRecord) => void;
+  votes: VoteRecord[];
+  kiosk: KioskIdentity;
+  onCheckIn: (epic: string, blindedToken: string) => Promise<string>; // Blind signature from the roll desk; throws if the voter is refused
+  onSubmitVote: (vote: Omit<VoteRecord, 'previousHash' | 'integrityHash'>) => Promise<VoteRecord>;
+  onSpoilBallot: (ballot: SpoiledBallot) => void;
+  onSessionChange: (inBooth: boolean) => void; // Polls wait for an authenticated voter to finish before a scheduled close
   onExit: () => void;
 }
 
-export const VoterInterface: React.FC<Props> = ({ config, onSubmitVote, onExit }) => {
+export const VoterInterface: React.FC<Props> = ({ config, votes, kiosk, onCheckIn, onSubmitVote, onSpoilBallot, onSessionChange, onExit }) => {
   const [step, setStep] = useState<VoterStep>(VoterStep.LANGUAGE);
   const [settings, setSettings] = useState<AccessibilitySettings>({
     highContrast: false,
@@ -21,10 +40,64 @@ export const VoterInterface: React.FC<Props> = ({ config, onSubmitVote, onExit }
     simplifiedView: false,
     language: 'en',
   });
-  const [selectedCandidate, setSelectedCandidate] = useState<string | null>(null);
-  const [receipt, setReceipt] = useState<string | null>(null);
+  // Per contest: the chosen candidate, or the preference order on a ranked ballot
+  const [selections, setSelections] = useState<Record<string, string[]>>({});
+  const [contestIndex, setContestIndex] = useState(0);
+  const [receipt, setReceipt] = useState<{ integrityHash: string; leafHash: string } | null>(null);
+  // Benaloh challenge: the booth commits to an encryption before the voter decides to cast or challenge it
+  const [pendingBallot, setPendingBallot] = useState<{ ballots: EncryptedBallot[]; encryptedData: string; randomness: string[][]; fingerprint: string } | null>(null);
+  const [challengeResult, setChallengeResult] = useState<{ choices: (string[] | null)[]; fingerprint: string; randomness: string[][] } | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  // The voter's single-use token from the roll check-in, spent by the ballot they cast
+  const [epicInput, setEpicInput] = useState('');
+  const [checkingIn, setCheckingIn] = useState(false);
+  const [authError, setAuthError] = useState<string | null>(null);
+  const [ballotToken, setBallotToken] = useState<BallotToken | null>(null);
+  // Outcome of the last slip scan; the camera reads again once it has been shown
+  const [scanFeedback, setScanFeedback] = useState<ScanFeedback>(null);
+  const [scanBusy, setScanBusy] = useState(false);
+  const [inclusionProof, setInclusionProof] = useState<{ steps: MerkleProofStep[]; verified: boolean } | null>(null);
   
   const text = TRANSLATIONS[settings.language];
+  // This kiosk only offers the ballot of its booth's constituency
+  const constituency = constituencyOfBooth(config.booths, kiosk.boothId);
+  // One ballot per contest, filled in one after another
+  const contests: Contest[] = config.contests;
+  const ballots = contests.map(contest => ({
+    contest,
+    spec: ballotSpec(config, constituency, contest.id),
+    // Shown in this booth's order; the encrypted ballot keeps the locked order of the spec
+    candidates: displayOrder(ballotCandidates(config, constituency, contest.id), config.ballotOrder, kiosk.boothId),
+  }));
+  const contest = contests[contestIndex];
+  const candidates: Candidate[] = ballots[contestIndex]?.candidates ?? [];
+  const ranked = isPreferential(config.type);
+  const selection = selections[contest?.id] ?? [];
+  const setSelection = (ids: string[]) => setSelections(prev => ({ ...prev, [contest.id]: ids }));
+  const candidateById = (id: string) => ballots.flatMap(b => b.candidates).find((c: Candidate) => c.id === id);
+  const sameChoices = (a: string[] | null, b: string[]) => !!a && a.length === b.length && a.every((id, i) => id === b[i]);
+  const isLastContest = contestIndex === contests.length - 1;
+  const describeChoices = (ids: string[]) => {
+    const names = ids.map(id => candidateById(id)).map(c => `${c?.name}, ${c?.partyName || 'Independent'}`);
+    return ranked ? `your preferences in order: ${names.join('; ')}` : names[0];
+  };
+
+  // From authentication until the ballot is cast the voter counts as in the booth
+  const inBooth = step !== VoterStep.LANGUAGE && step !== VoterStep.AUTH && step !== VoterStep.RECEIPT;
+  const now = useClock();
+  // After a scheduled close only a voter already in the booth may carry on
+  const pollsOpen = config.status === 'ACTIVE' && !pastScheduledClose(config, now);
+
+  useEffect(() => {
+    onSessionChange(inBooth);
+  }, [inBooth]);
+  useEffect(() => () => onSessionChange(false), []);
+
+  // A candidate as spoken on review, with their photograph's alt text when they have one
+  const spokenCandidate = (id: string) => {
+    const c = candidateById(id);
+    return c?.photoUrl ? `${c.name}. ${photoAltText(c)}` : `${c?.name}`;
+  };
 
   // TTS Helper
   const speakInstruction = (instruction: string) => {
@@ -47,15 +120,35 @@ export const VoterInterface: React.FC<Props> = ({ config, onSubmitVote, onExit }
           if(settings.ttsEnabled) speak("Accessibility Setup. Choose how you want help.", settings.language);
           break;
         case VoterStep.VOTE_SELECTION:
-          speakInstruction(text.voting + ". Select a candidate.");
+          speakInstruction(text.voting + (contests.length > 1 ? `. ${contest?.name}, contest ${contestIndex + 1} of ${contests.length}` : '') + (ranked
+            ? ". Select candidates in your order of preference. The first one you select is your first preference. Select a candidate again to remove it."
+            : ". Select a candidate."));
           break;
         case VoterStep.CONFIRMATION:
-          speakInstruction(text.confirm);
+          speakInstruction(text.confirm + (ranked
+            ? '. ' + ballots.map(b => `${b.contest.name}: ${(selections[b.contest.id] ?? []).map((id, i) => `${i + 1}, ${spokenCandidate(id)}`).join('. ')}`).join('. ')
+            : '. ' + ballots.map(b => `${b.contest.name}: ${spokenCandidate((selections[b.contest.id] ?? [])[0])}`).join('. ')));
           break;
       }
     }, 500);
     return () => clearTimeout(timeout);
-  }, [step, settings.language, settings.ttsEnabled]);
+  }, [step, contestIndex, settings.language, settings.ttsEnabled]);
+
+  // Inclusion proof becomes available once the bulletin board root is frozen
+  useEffect(() => {
+    if (step !== VoterStep.RECEIPT || !receipt || !config.bulletinBoard) return;
+    const board = votes.slice(0, config.bulletinBoard.leafCount);
+    const index = board.findIndex(v => v.integrityHash === receipt.integrityHash);
+    if (index < 0) return;
+
+    let cancelled = false;
+    (async () => {
+      const steps = await buildInclusionProof(board, index);
+      const verified = await verifyInclusionProof(receipt.leafHash, steps, config.bulletinBoard.root);
+      if (!cancelled) setInclusionProof({ steps, verified });
+    })();
+    return () => { cancelled = true; };
+  }, [step, receipt, votes, config.bulletinBoard]);
 
   const handleLanguageSelect = (lang: 'en' | 'hi' | 'te') => {
     // Enable TTS by default when a language is selected via these buttons
@@ -63,11 +156,56 @@ export const VoterInterface: React.FC<Props> = ({ config, onSubmitVote, onExit }
     setStep(VoterStep.AUTH);
   };
 
-  const handleAuthComplete = () => {
-    // Mock Auth
-    setTimeout(() => {
+  // The kiosk blinds a fresh token; the roll desk signs it as it marks the elector. Returns whether the voter is in.
+  const checkIn = async (epic: string): Promise<boolean> => {
+    setCheckingIn(true);
+    setAuthError(null);
+    try {
+      if (!config.tokenKey) throw new Error('This booth cannot check voters in yet.');
+      const { token, blinded, blindingFactor } = await blindToken(config.tokenKey);
+      const blindSignature = await onCheckIn(epic, blinded);
+      setBallotToken(await unblindToken(token, blindSignature, blindingFactor, config.tokenKey));
+      setEpicInput('');
       setStep(VoterStep.ACCESS_SETUP);
-    }, 1500);
+      return true;
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Check-in failed.';
+      setAuthError(message);
+      speakInstruction(`${message} Please call a polling official.`);
+      return false;
+    } finally {
+      setCheckingIn(false);
+    }
+  };
+
+  // Typed from the voter's card when the slip is damaged or the camera is unavailable
+  const handleManualCheckIn = () => {
+    if (checkingIn || !epicInput.trim()) return;
+    checkIn(epicInput);
+  };
+
+  const handleSlipScan = async (payload: string) => {
+    if (scanBusy || checkingIn) return;
+    setScanBusy(true);
+    const scan = await readVoterSlip(payload, config);
+    if (scan.status === 'OK') {
+      setScanFeedback({ tone: 'success', message: `Slip read: ${scan.slip.epic}` });
+      speakInstruction('Slip read. Checking you in.');
+      if (!(await checkIn(scan.slip.epic))) setScanFeedback({ tone: 'error', message: 'Not checked in' });
+    } else {
+      setScanFeedback({ tone: 'error', message: scan.message });
+      speakInstruction(scan.status === 'UNREADABLE'
+        ? `${scan.message} Hold your voter slip flat in front of the camera, or type your EPIC number.`
+        : `${scan.message} Please call a polling official.`);
+    }
+    setTimeout(() => {
+      setScanFeedback(null);
+      setScanBusy(false);
+    }, SCAN_FEEDBACK_MS);
+  };
+
+  const handleCameraError = (message: string) => {
+    speakInstruction(`${message} Please type your EPIC number.`);
   };
 
   const toggleAccessibility = (key: keyof AccessibilitySettings) => {
@@ -82,34 +220,153 @@ export const VoterInterface: React.FC<Props> = ({ config, onSubmitVote, onExit }
   };
 
   const handleVoteSelect = (candidateId: string) => {
-    setSelectedCandidate(candidateId);
-    const candidate = config.candidates.find((c: Candidate) => c.id === candidateId);
-    if (candidate) {
-      speakInstruction(`You selected ${candidate.name}, ${candidate.partyName || 'Independent'}.`);
+    const candidate = candidateById(candidateId);
+    if (!ranked) {
+      setSelection([candidateId]);
+      if (candidate) {
+        speakInstruction(`You selected ${candidate.name}, ${candidate.partyName || 'Independent'}.`);
+      }
+      return;
+    }
+    // Ranked ballot: selecting appends the next preference, selecting again removes it
+    if (selection.includes(candidateId)) {
+      setSelection(selection.filter(id => id !== candidateId));
+      if (candidate) speakInstruction(`${candidate.name} removed from your preferences.`);
+    } else {
+      setSelection([...selection, candidateId]);
+      if (candidate) speakInstruction(`${candidate.name}, ${candidate.partyName || 'Independent'}, is now preference ${selection.length + 1}.`);
+    }
+  };
+
+  // Moves on to the next contest, or to the combined review after the last one
+  const handleNextContest = () => {
+    if (selection.length === 0) return;
+    if (isLastContest) {
+      prepareBallot();
+    } else {
+      setContestIndex(contestIndex + 1);
+    }
+  };
+
+  const handlePreviousContest = () => {
+    if (contestIndex > 0) setContestIndex(contestIndex - 1);
+    else setStep(VoterStep.ACCESS_SETUP);
+  };
+
+  const editContest = (index: number) => {
+    setPendingBallot(null);
+    setSubmitError(null);
+    setContestIndex(index);
+    setStep(VoterStep.VOTE_SELECTION);
+  };
+
+  // Encrypts every contest's selection and shows the fingerprint before the cast/challenge decision
+  const prepareBallot = async () => {
+    if (ballots.some(b => (selections[b.contest.id] ?? []).length === 0)) return;
+    setPendingBallot(null);
+    setStep(VoterStep.CONFIRMATION);
+
+    const encrypted = [];
+    for (const b of ballots) encrypted.push(await encryptBallot(selections[b.contest.id], config.publicKey, b.spec));
+    const encryptedData = JSON.stringify(encrypted.map(e => e.ballot));
+    const fingerprint = (await sha256Hex(encryptedData)).substring(0, 16).toUpperCase();
+    setPendingBallot({ ballots: encrypted.map(e => e.ballot), encryptedData, randomness: encrypted.map(e => e.randomness), fingerprint });
+  };
+
+  const handleChallengeBallot = () => {
+    if (!pendingBallot) return;
+
+    const choices = pendingBallot.ballots.map((ballot, i) => auditBallot(ballot, pendingBallot.randomness[i], config.publicKey));
+    const matches = ballots.every((b, i) => sameChoices(choices[i], selections[b.contest.id] ?? []));
+    onSpoilBallot({
+      ballotId: generateVoteId(),
+      encryptedData: pendingBallot.encryptedData,
+      randomness: pendingBallot.randomness,
+      auditPassed: matches,
+      spoiledAt: Date.now(),
+    });
+    setChallengeResult({ choices, fingerprint: pendingBallot.fingerprint, randomness: pendingBallot.randomness });
+    setPendingBallot(null);
+    setStep(VoterStep.CHALLENGE);
+
+    if (matches) {
+      const summary = ballots.map(b => `${contests.length > 1 ? `${b.contest.name}: ` : ''}${describeChoices(selections[b.contest.id])}`).join('. ');
+      speakInstruction(`Ballot checked. It was encrypted for ${summary}. This ballot has been discarded. Please cast a fresh ballot.`);
+    } else {
+      speakInstruction("Warning. This ballot did not match your selection. It has been discarded. Please call a polling official.");
     }
   };
 
   const handleConfirmVote = async () => {
-    if (!selectedCandidate) return;
+    if (!pendingBallot) return;
     
     setStep(VoterStep.SUBMITTING);
     speakInstruction("Submitting vote. Please wait.");
 
-    const { encryptedData, hash } = await encryptVote(selectedCandidate, config.publicKey);
-    
-    const voteRecord: VoteRecord = {
+    // The randomness of a cast ballot is never revealed or stored
+    const { encryptedData } = pendingBallot;
+    setPendingBallot(null);
+
+    const unsigned = {
       voteId: generateVoteId(),
       encryptedData,
-      integrityHash: hash,
       timestamp: Date.now(),
+      source: 'BOOTH' as const,
+      boothId: kiosk.boothId,
+      ballotToken: ballotToken ?? undefined,
     };
-
-    onSubmitVote(voteRecord);
-    setReceipt(hash);
+    let sealed: VoteRecord;
+    try {
+      const signature = await signVoteRecord(unsigned, kiosk.privateKey);
+      sealed = await onSubmitVote({ ...unsigned, signature });
+    } catch (e) {
+      setSubmitError(e instanceof Error ? e.message : 'Vote could not be recorded.');
+      speakInstruction("Your vote could not be recorded. Please call a polling official.");
+      // The rejected ciphertext is never reused; a fresh one is committed for the retry
+      await prepareBallot();
+      return;
+    }
+    setBallotToken(null);
+    setSubmitError(null);
+    setReceipt({ integrityHash: sealed.integrityHash, leafHash: await hashLeaf(sealed) });
     setStep(VoterStep.RECEIPT);
     speakInstruction("Vote submitted securely. Thank you.");
   };
 
+  // Ordered preferences, as shown on the confirmation and challenge screens
+  const PreferenceList = ({ ids }: { ids: string[] }) => (
+    <ol className="space-y-3 text-left">
+      {ids.map((id, i) => {
+        const c = candidateById(id);
+        return (
+          <li key={id} className="flex items-center gap-4">
+            <span className={`shrink-0 rounded-full font-bold flex items-center justify-center ${settings.largeText ? 'w-14 h-14 text-3xl' : 'w-10 h-10 text-xl'} ${settings.highContrast ? 'bg-yellow-300 text-black' : 'bg-green-700 text-white'}`}>{i + 1}</span>
+            {c?.photoUrl && <img src={c.photoUrl} alt={photoAltText(c)} className={`object-cover rounded ${settings.largeText ? 'w-16 h-20' : 'w-12 h-14'}`} />}
+            <SymbolMark symbol={c?.symbol ?? ''} label={c?.partyName || c?.name || ''} className="text-4xl" />
+            <span>
+              <span className="block text-2xl font-bold">{c?.name}</span>
+              <span className="block">{c?.partyName}</span>
+            </span>
+          </li>
+        );
+      })}
+    </ol>
+  );
+
+  // One contest's choice: the candidate, or the ordered preferences on a ranked ballot
+  const ContestChoices = ({ ids }: { ids: string[] }) => {
+    if (ranked) return <PreferenceList ids={ids} />;
+    const candidate = candidateById(ids[0]);
+    return (
+      <>
+        {candidate?.photoUrl && <img src={candidate.photoUrl} alt={photoAltText(candidate)} className={`mx-auto mb-4 object-cover rounded-lg ${contests.length > 1 ? 'w-24 h-28' : 'w-32 h-40'}`} />}
+        <div className={`${contests.length > 1 ? 'text-6xl' : 'text-8xl'} mb-4`}><SymbolMark symbol={candidate?.symbol ?? ''} label={candidate?.partyName || candidate?.name || ''} /></div>
+        <h3 className="text-3xl font-bold mb-2">{candidate?.name}</h3>
+        <p className="text-xl">{candidate?.partyName}</p>
+      </>
+    );
+  };
+
   const containerClass = `min-h-screen flex flex-col transition-all duration-300 ${
     settings.highContrast ? 'bg-black text-yellow-300' : 'bg-gray-50 text-gray-900'
   } ${settings.largeText ? 'text-2xl' : 'text-base'}`;
@@ -151,17 +408,37 @@ export const VoterInterface: React.FC<Props> = ({ config, onSubmitVote, onExit }
         return (
           <div className="flex flex-col items-center justify-center h-full p-8 text-center space-y-8">
             <h2 className="text-3xl font-bold mb-8">{text.auth}</h2>
-            <div className={`p-8 rounded-2xl border-4 border-dashed ${settings.highContrast ? 'border-yellow-400' : 'border-gray-400'} animate-pulse`}>
-              <QrCode size={128} />
-            </div>
+            <QrScanner
+              onScan={handleSlipScan}
+              paused={scanBusy || checkingIn}
+              feedback={scanFeedback}
+              onCameraError={handleCameraError}
+              highContrast={settings.highContrast}
+            />
             <p className="text-xl">{text.scanQr}</p>
+            <label className="flex flex-col items-center gap-2 text-lg">
+              Slip damaged? Type the EPIC number from the voter ID card
+              <input
+                className={`p-3 rounded-lg border-2 text-2xl font-mono tracking-widest text-center uppercase ${settings.highContrast ? 'bg-black border-yellow-400 text-yellow-300' : 'border-gray-400'}`}
+                value={epicInput}
+                maxLength={12}
+                autoComplete="off"
+                onChange={e => setEpicInput(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter') handleManualCheckIn(); }}
+              />
+            </label>
+            {authError && (
+              <p role="alert" className={`text-xl font-bold flex items-center gap-2 ${settings.highContrast ? 'text-yellow-300' : 'text-red-700'}`}>
+                <AlertTriangle /> {authError}
+              </p>
+            )}
             <AccessibleButton 
-              variant="blue" label="Simulate Scan" 
-              onClick={handleAuthComplete} 
+              variant="blue" label={checkingIn ? 'Checking...' : 'Check In'} 
+              onClick={handleManualCheckIn} 
               className="mt-8"
               ttsEnabled={settings.ttsEnabled}
               hintLanguage={settings.language}
-              audioHint="Click to simulate scanning your voter ID"
+              audioHint="Press to check in with your EPIC number"
             />
           </div>
         );
@@ -230,63 +507,122 @@ export const VoterInterface: React.FC<Props> = ({ config, onSubmitVote, onExit }
       case VoterStep.VOTE_SELECTION:
         return (
           <div className="p-4 w-full max-w-6xl mx-auto">
-            <h2 className="text-3xl font-bold mb-6 text-center">{text.voting}</h2>
+            <h2 className="text-3xl font-bold mb-2 text-center">{text.voting}</h2>
+            <p className="text-xl text-gray-500 mb-2 text-center">{constituency}</p>
+            {contests.length > 1 && (
+              <p className="text-2xl font-bold mb-2 text-center">
+                {contest.name} <span className="font-normal text-gray-500">(contest {contestIndex + 1} of {contests.length})</span>
+              </p>
+            )}
+            {(ranked || contest.seats > 1) && (
+              <p className="text-lg mb-6 text-center">
+                {ranked && 'Select candidates in your order of preference. Select a candidate again to remove it.'}
+                {contest.seats > 1 && ` ${contest.seats} seats will be filled.`}
+              </p>
+            )}
             <div className={`grid ${settings.simplifiedView ? 'grid-cols-1 gap-8' : 'grid-cols-1 md:grid-cols-2 lg:grid-cols-2 gap-6'}`}>
-              {config.candidates.map((candidate: Candidate) => (
-                <AccessibleButton
-                  key={candidate.id}
-                  variant={selectedCandidate === candidate.id ? "green" : "neutral"}
-                  label={candidate.name}
-                  largeText={settings.largeText}
-                  onClick={() => handleVoteSelect(candidate.id)}
-                  selected={selectedCandidate === candidate.id}
-                  ttsEnabled={settings.ttsEnabled}
-                  hintLanguage={settings.language}
-                  audioHint={`Vote for ${candidate.name}, ${candidate.partyName || candidate.partyId}. Symbol: ${candidate.symbol}`}
-                  icon={
-                    <div className="flex flex-col items-center">
-                      <span className="text-6xl mb-2">{candidate.symbol}</span>
-                      <span className="text-sm font-normal">{candidate.partyName}</span>
-                    </div>
-                  }
-                  className={settings.highContrast ? 'border-white' : ''}
-                />
-              ))}
+              {candidates.map((candidate: Candidate) => {
+                const rank = selection.indexOf(candidate.id) + 1;
+                return (
+                  <AccessibleButton
+                    key={candidate.id}
+                    variant={rank > 0 ? "green" : "neutral"}
+                    label={candidate.name}
+                    largeText={settings.largeText}
+                    onClick={() => handleVoteSelect(candidate.id)}
+                    selected={rank > 0}
+                    ttsEnabled={settings.ttsEnabled}
+                    hintLanguage={settings.language}
+                    audioHint={
+                      isNota(candidate.id) ? NOTA_HINTS[settings.language]
+                      : ranked ? `${rank > 0 ? `Preference ${rank}. Press to remove` : `Press to make preference ${selection.length + 1}`}: ${candidate.name}, ${candidate.partyName || candidate.partyId}. Symbol: ${spokenSymbol(candidate.symbol, candidate.partyName || candidate.name)}.${candidate.photoUrl ? ` ${photoAltText(candidate)}.` : ''}`
+                      : `Vote for ${candidate.name}, ${candidate.partyName || candidate.partyId}. Symbol: ${spokenSymbol(candidate.symbol, candidate.partyName || candidate.name)}.${candidate.photoUrl ? ` ${photoAltText(candidate)}.` : ''}`
+                    }
+                    icon={
+                      <div className="flex flex-col items-center">
+                        {ranked && rank > 0 && (
+                          <span
+                            aria-label={`Preference ${rank}`}
+                            className={`absolute top-3 left-3 rounded-full font-bold flex items-center justify-center ${settings.largeText ? 'w-16 h-16 text-4xl' : 'w-10 h-10 text-2xl'} ${settings.highContrast ? 'bg-yellow-300 text-black' : 'bg-white text-green-800'}`}
+                          >
+                            {rank}
+                          </span>
+                        )}
+                        {candidate.photoUrl && <img src={candidate.photoUrl} alt={photoAltText(candidate)} className={`object-cover rounded mb-2 ${settings.largeText ? 'w-28 h-32' : 'w-20 h-24'}`} />}
+                        <SymbolMark symbol={candidate.symbol} label={candidate.partyName || candidate.name} className="text-6xl mb-2" />
+                        <span className="text-sm font-normal">{candidate.partyName}</span>
+                      </div>
+                    }
+                    className={settings.highContrast ? 'border-white' : ''}
+                  />
+                );
+              })}
             </div>
             <div className="mt-8 flex justify-between gap-4">
                <AccessibleButton 
                   variant="red" label="Back" 
-                  onClick={() => setStep(VoterStep.ACCESS_SETUP)}
+                  onClick={handlePreviousContest}
                   ttsEnabled={settings.ttsEnabled}
                   hintLanguage={settings.language}
+                  audioHint={contestIndex > 0 ? `Press to go back to ${contests[contestIndex - 1].name}` : undefined}
                />
+               {ranked && (
+                 <AccessibleButton
+                    variant="neutral" label="Clear Preferences"
+                    onClick={() => { setSelection([]); speakInstruction("All preferences cleared."); }}
+                    disabled={selection.length === 0}
+                    ttsEnabled={settings.ttsEnabled}
+                    hintLanguage={settings.language}
+                    audioHint="Press to clear all your preferences and start again"
+                 />
+               )}
                <AccessibleButton 
-                  variant={selectedCandidate ? "green" : "neutral"} 
-                  label="Review Selection" 
-                  onClick={() => selectedCandidate && setStep(VoterStep.CONFIRMATION)}
-                  disabled={!selectedCandidate}
+                  variant={selection.length > 0 ? "green" : "neutral"} 
+                  label={isLastContest ? "Review Selection" : "Next Contest"} 
+                  onClick={handleNextContest}
+                  disabled={selection.length === 0}
                   ttsEnabled={settings.ttsEnabled}
                   hintLanguage={settings.language}
-                  audioHint="Press to review and confirm your vote"
+                  audioHint={isLastContest ? "Press to review and confirm your vote" : `Press to continue to ${contests[contestIndex + 1].name}`}
                />
             </div>
           </div>
         );
 
       case VoterStep.CONFIRMATION:
-        const candidate = config.candidates.find((c: any) => c.id === selectedCandidate);
         return (
           <div className="flex flex-col items-center justify-center h-full p-8 max-w-2xl mx-auto text-center">
             <h2 className="text-4xl font-bold mb-8">{text.confirm}</h2>
-            <div className={`p-8 rounded-xl w-full mb-8 ${settings.highContrast ? 'bg-gray-800 border-2 border-yellow-400' : 'bg-white shadow-xl border-2 border-gray-200'}`}>
-               <div className="text-8xl mb-4">{candidate?.symbol}</div>
-               <h3 className="text-3xl font-bold mb-2">{candidate?.name}</h3>
-               <p className="text-xl">{candidate?.partyName}</p>
-            </div>
+            {ballots.map((b, i) => (
+              <div key={b.contest.id} className={`p-8 rounded-xl w-full mb-8 ${settings.highContrast ? 'bg-gray-800 border-2 border-yellow-400' : 'bg-white shadow-xl border-2 border-gray-200'}`}>
+                 {contests.length > 1 && (
+                   <div className="flex justify-between items-center mb-4">
+                     <h3 className="text-xl font-bold">{b.contest.name}</h3>
+                     <AccessibleButton
+                        variant="neutral" label="Change"
+                        onClick={() => editContest(i)}
+                        ttsEnabled={settings.ttsEnabled}
+                        hintLanguage={settings.language}
+                        audioHint={`Press to change your vote for ${b.contest.name}`}
+                     />
+                   </div>
+                 )}
+                 <ContestChoices ids={selections[b.contest.id] ?? []} />
+              </div>
+            ))}
+            {submitError && (
+              <div className="mb-6 w-full p-4 rounded-lg bg-red-100 text-red-900 border-2 border-red-400 flex items-center gap-3 text-left">
+                <AlertTriangle className="shrink-0" />
+                <p><span className="font-bold">Vote not recorded:</span> {submitError}. Please call a polling official.</p>
+              </div>
+            )}
+            <p className="mb-6 font-mono text-sm">
+              Ballot fingerprint: {pendingBallot ? pendingBallot.fingerprint : 'Encrypting...'}
+            </p>
             <div className="grid grid-cols-2 gap-8 w-full">
                <AccessibleButton 
                   variant="red" label="Change Vote" 
-                  onClick={() => setStep(VoterStep.VOTE_SELECTION)}
+                  onClick={() => editContest(0)}
                   ttsEnabled={settings.ttsEnabled}
                   hintLanguage={settings.language}
                   audioHint="Press to go back and change your vote"
@@ -295,6 +631,7 @@ export const VoterInterface: React.FC<Props> = ({ config, onSubmitVote, onExit }
                <AccessibleButton 
                   variant="green" label="CONFIRM VOTE" 
                   onClick={handleConfirmVote}
+                  disabled={!pendingBallot}
                   ttsEnabled={settings.ttsEnabled}
                   hintLanguage={settings.language}
                   audioHint="Press to submit your vote permanently"
@@ -302,6 +639,74 @@ export const VoterInterface: React.FC<Props> = ({ config, onSubmitVote, onExit }
                   icon={<Check size={32} />}
                />
             </div>
+            <div className="mt-6 w-full">
+               <AccessibleButton 
+                  variant="yellow" label="Challenge this ballot" 
+                  onClick={handleChallengeBallot}
+                  disabled={!pendingBallot}
+                  ttsEnabled={settings.ttsEnabled}
+                  hintLanguage={settings.language}
+                  audioHint="Press to check how this ballot was encrypted. The checked ballot is discarded and you can then cast a fresh one."
+                  fullWidth
+                  icon={<SearchCheck size={32} />}
+               />
+            </div>
+          </div>
+        );
+
+      case VoterStep.CHALLENGE:
+        const matches = !!challengeResult && ballots.every((b, i) => sameChoices(challengeResult.choices[i], selections[b.contest.id] ?? []));
+        return (
+          <div className="flex flex-col items-center justify-center h-full p-8 max-w-2xl mx-auto text-center">
+            <h2 className="text-4xl font-bold mb-4">Ballot Challenged</h2>
+            <p className="text-xl mb-8">This ballot has been opened for checking and discarded. It will not be counted.</p>
+            {matches ? (
+              <div className={`p-8 rounded-xl w-full mb-6 ${settings.highContrast ? 'bg-gray-800 border-2 border-yellow-400' : 'bg-white shadow-xl border-2 border-green-300'}`}>
+                 <p className="text-sm font-bold uppercase mb-4 flex items-center justify-center gap-2"><Check size={20} /> Encryption verified for</p>
+                 {ballots.map((b, i) => (
+                   <div key={b.contest.id} className="mb-4">
+                     {contests.length > 1 && <h3 className="text-xl font-bold mb-2">{b.contest.name}</h3>}
+                     <ContestChoices ids={challengeResult!.choices[i]!} />
+                   </div>
+                 ))}
+              </div>
+            ) : (
+              <div className="p-8 rounded-xl w-full mb-6 bg-red-100 text-red-900 border-2 border-red-400">
+                 <AlertTriangle size={48} className="mx-auto mb-4" />
+                 <h3 className="text-2xl font-bold mb-2">Encryption did not match your selection</h3>
+                 <p>Please call a polling official before continuing.</p>
+              </div>
+            )}
+            <details className={`w-full mb-8 text-left font-mono text-xs break-all p-4 rounded ${settings.highContrast ? 'bg-gray-800' : 'bg-gray-200'}`}>
+              <summary className="font-sans font-bold cursor-pointer">Ballot {challengeResult?.fingerprint}: revealed randomness</summary>
+              {challengeResult?.randomness.map((contestRandomness, k) => {
+                const ids = ballots[k]?.spec.candidateIds ?? [];
+                return contestRandomness.map((r, i) => (
+                  <p key={`${k}:${i}`}>
+                    {contests.length > 1 && `${ballots[k]?.contest.name} `}
+                    {ranked ? `P${Math.floor(i / (ids.length + 1)) + 1}/${ids[i % (ids.length + 1)] ?? 'none'}` : ids[i]}: {r}
+                  </p>
+                ));
+              })}
+            </details>
+            <div className="grid grid-cols-2 gap-8 w-full">
+               <AccessibleButton 
+                  variant="red" label="Change Vote" 
+                  onClick={() => editContest(0)}
+                  ttsEnabled={settings.ttsEnabled}
+                  hintLanguage={settings.language}
+                  audioHint="Press to go back and change your vote"
+                  icon={<ArrowRight className="rotate-180" />}
+               />
+               <AccessibleButton 
+                  variant="green" label="Encrypt Fresh Ballot" 
+                  onClick={prepareBallot}
+                  ttsEnabled={settings.ttsEnabled}
+                  hintLanguage={settings.language}
+                  audioHint="Press to encrypt a new ballot for the same choice and continue to confirmation"
+                  icon={<ArrowRight />}
+               />
+            </div>
           </div>
         );
 
@@ -321,9 +726,27 @@ export const VoterInterface: React.FC<Props> = ({ config, onSubmitVote, onExit }
              <h2 className="text-4xl font-bold mb-4">{text.receipt}</h2>
              <p className="text-xl mb-8">Your vote has been securely recorded and anonymized.</p>
              
-             <div className={`p-6 rounded-lg w-full mb-8 break-all font-mono text-sm ${settings.highContrast ? 'bg-gray-800' : 'bg-gray-200'}`}>
-               <p className="font-bold mb-2">Verification Hash:</p>
-               {receipt}
+             <div className={`p-6 rounded-lg w-full mb-8 break-all font-mono text-sm text-left space-y-4 ${settings.highContrast ? 'bg-gray-800' : 'bg-gray-200'}`}>
+               <div>
+                 <p className="font-bold mb-2">Verification Hash:</p>
+                 {receipt?.integrityHash}
+               </div>
+               <div>
+                 <p className="font-bold mb-2">Bulletin Board Leaf:</p>
+                 {receipt?.leafHash}
+               </div>
+               {inclusionProof ? (
+                 <div>
+                   <p className="font-bold mb-2">
+                     Inclusion Proof ({inclusionProof.verified ? 'verified against published root' : 'DOES NOT VERIFY'}):
+                   </p>
+                   {inclusionProof.steps.map((s, i) => (
+                     <p key={i}>{s.side}: {s.hash}</p>
+                   ))}
+                 </div>
+               ) : (
+                 <p className="font-sans">Your inclusion proof will be available once polls close and the bulletin board root is published. Use "Verify My Receipt" on the home screen with your verification hash.</p>
+               )}
              </div>
 
              <AccessibleButton 
@@ -340,12 +763,13 @@ export const VoterInterface: React.FC<Props> = ({ config, onSubmitVote, onExit }
     }
   };
 
-  // Check Election Status
-  if (config.status !== 'ACTIVE' && step !== VoterStep.LANGUAGE) {
+  // Check Election Status; a voter who has just cast keeps their receipt when the polls close
+  if (!pollsOpen && !(inBooth && config.status === 'ACTIVE') && step !== VoterStep.LANGUAGE && step !== VoterStep.RECEIPT) {
+    const closed = config.status !== 'SETUP';
     return (
       <div className="flex flex-col items-center justify-center h-screen p-8 text-center">
-         <h1 className="text-4xl font-bold text-red-600 mb-4">Election Paused</h1>
-         <p className="text-xl">Please wait for the administrator to open the polls.</p>
+         <h1 className="text-4xl font-bold text-red-600 mb-4">{closed ? 'Polls Closed' : 'Election Paused'}</h1>
+         <p className="text-xl">{closed ? 'Voting has ended at this booth. No new ballots can be cast.' : 'Please wait for the administrator to open the polls.'}</p>
          <button onClick={onExit} className="mt-8 text-blue-600 underline">Back to Home</button>
       </div>
     );
@@ -366,6 +790,8 @@ export const VoterInterface: React.FC<Props> = ({ config, onSubmitVote, onExit }
           </div>
        </header>
 
+       {step !== VoterStep.RECEIPT && <PollCountdown config={config} audience="voter" highContrast={settings.highContrast} />}
+
        <main className="flex-grow flex flex-col items-center justify-center relative">
           {renderStep()}
        </main>
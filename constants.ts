@@ -1,4 +1,4 @@
-import { Candidate, ElectionConfig, Party, PartyCategory } from './types';
+import { Candidate, Contest, ElectionConfig, Party, PartyCategory, RollEntry } from './types';
 
 export const ELECTION_TYPES = [
   "Lok Sabha General Election",
@@ -30,43 +30,125 @@ export const MOCK_PARTIES: Party[] = [
   { id: 'demo', name: 'Student Union', shortCode: 'SU', category: PartyCategory.INSTITUTIONAL, symbolUrl: '🎓' },
 ];
 
+// Free symbols for candidates without a reserved party symbol, chiefly
+// independents. None of them is used by a mock party or by NOTA.
+export const FREE_SYMBOLS: { symbol: string; name: string }[] = [
+  { symbol: '🎈', name: 'Balloon' },
+  { symbol: '🏏', name: 'Bat' },
+  { symbol: '🔦', name: 'Battery Torch' },
+  { symbol: '🔔', name: 'Bell' },
+  { symbol: '🪣', name: 'Bucket' },
+  { symbol: '🎂', name: 'Cake' },
+  { symbol: '📷', name: 'Camera' },
+  { symbol: '🕯️', name: 'Candles' },
+  { symbol: '🥕', name: 'Carrot' },
+  { symbol: '🪑', name: 'Chair' },
+  { symbol: '☕', name: 'Cup & Saucer' },
+  { symbol: '⚽', name: 'Football' },
+  { symbol: '🪁', name: 'Kite' },
+  { symbol: '💻', name: 'Laptop' },
+  { symbol: '💍', name: 'Ring' },
+  { symbol: '✂️', name: 'Scissors' },
+  { symbol: '📺', name: 'Television' },
+  { symbol: '🚜', name: 'Tractor' },
+  { symbol: '☂️', name: 'Umbrella' },
+  { symbol: '⌚', name: 'Wall Clock' },
+];
+
+export const MOCK_CONTESTS: Contest[] = [
+  { id: 'mp', name: 'Member of Parliament', seats: 1 },
+];
+
 export const MOCK_CANDIDATES: Candidate[] = [
-  { id: 'c1', name: 'Narendra Modi', partyId: 'p1', partyName: 'Bharatiya Janata Party', symbol: '🪷' },
-  { id: 'c2', name: 'Rahul Gandhi', partyId: 'p2', partyName: 'Indian National Congress', symbol: '✋' },
-  { id: 'c3', name: 'Arvind Kejriwal', partyId: 'p3', partyName: 'Aam Aadmi Party', symbol: '🧹' },
-  { id: 'c4', name: 'Mamata Banerjee', partyId: 'p8', partyName: 'All India Trinamool Congress', symbol: '🌱' },
+  { id: 'c1', name: 'Narendra Modi', partyId: 'p1', partyName: 'Bharatiya Janata Party', symbol: '🪷', constituency: 'New Delhi Central', contestId: 'mp' },
+  { id: 'c2', name: 'Rahul Gandhi', partyId: 'p2', partyName: 'Indian National Congress', symbol: '✋', constituency: 'New Delhi Central', contestId: 'mp' },
+  { id: 'c3', name: 'Arvind Kejriwal', partyId: 'p3', partyName: 'Aam Aadmi Party', symbol: '🧹', constituency: 'New Delhi South', contestId: 'mp' },
+  { id: 'c4', name: 'Mamata Banerjee', partyId: 'p8', partyName: 'All India Trinamool Congress', symbol: '🌱', constituency: 'New Delhi South', contestId: 'mp' },
 ];
 
+// Demo electoral roll, a few electors per booth, keyed by EPIC number
+export const MOCK_ROLL: RollEntry[] = [
+  { epic: 'DLC1000001', name: 'Aarav Sharma', boothId: 'K-101', hasVoted: false },
+  { epic: 'DLC1000002', name: 'Priya Verma', boothId: 'K-101', hasVoted: false },
+  { epic: 'DLC1000003', name: 'Mohammed Iqbal', boothId: 'K-101', hasVoted: false },
+  { epic: 'DLC1000004', name: 'Sunita Devi', boothId: 'K-102', hasVoted: false },
+  { epic: 'DLC1000005', name: 'Harpreet Kaur', boothId: 'K-102', hasVoted: false },
+  { epic: 'DLC1000006', name: 'Joseph Mathew', boothId: 'K-102', hasVoted: false },
+  { epic: 'DLS2000001', name: 'Lakshmi Reddy', boothId: 'K-201', hasVoted: false },
+  { epic: 'DLS2000002', name: 'Rohan Das', boothId: 'K-201', hasVoted: false },
+  { epic: 'DLS2000003', name: 'Fatima Begum', boothId: 'K-201', hasVoted: false },
+];
+
+// Indirect elections counted by single transferable vote. Their ballots are
+// ranked preference lists and carry no NOTA option.
+export const PREFERENTIAL_ELECTION_TYPES = [
+  "Rajya Sabha Election",
+  "State Legislative Council (Vidhan Parishad)",
+];
+
+// NOTA (None of the Above) is system-managed: it is never stored in
+// config.candidates, so admins cannot remove it, and ballotService appends it
+// last to every single-choice contest ballot.
+export const NOTA_CANDIDATE: Candidate = {
+  id: 'nota', name: 'None of the Above', partyId: 'nota', partyName: 'NOTA', symbol: '❎', constituency: '*', contestId: '*'
+};
+
+export const NOTA_HINTS = {
+  en: "None of the Above. Press to reject every candidate on this ballot.",
+  hi: "उपरोक्त में से कोई नहीं (नोटा)। इस मतपत्र के सभी उम्मीदवारों को अस्वीकार करने के लिए दबाएं।",
+  te: "పై వారెవరూ కాదు (నోటా). ఈ బ్యాలెట్‌లోని అభ్యర్థులందరినీ తిరస్కరించడానికి నొక్కండి.",
+};
+
 export const INITIAL_ELECTION_CONFIG: ElectionConfig = {
+  id: 'GE-2024-P1',
   status: 'SETUP',
   type: 'Lok Sabha General Election',
   name: 'General Election 2024 - Phase 1',
+  contests: MOCK_CONTESTS,
+  ballotOrder: { rule: 'ECI', language: 'en', rotatePerBooth: false, rotations: null, lockedAt: null },
+  tallyMode: 'AGGREGATE',
   startTime: null,
   endTime: null,
+  scheduledStart: null,
+  scheduledEnd: null,
   parties: MOCK_PARTIES,
   candidates: MOCK_CANDIDATES,
-  publicKey: 'mock-public-key-12345',
+  publicKey: null, // Generated by the trustee key ceremony in SETUP
+  trustees: [],
+  threshold: 2,
   booths: [
     { 
       id: 'K-101', name: 'Booth A', location: 'Main Hall A', constituency: 'New Delhi Central',
       status: 'ONLINE', deviceType: 'Kiosk', accessibilityReady: true, networkType: 'Wi-Fi',
-      batteryLevel: 98, lastHeartbeat: Date.now(), totalVotes: 124, authKey: 'auth-101'
+      batteryLevel: 98, lastHeartbeat: Date.now(), authKey: 'auth-101', signingPublicKey: null
     },
     { 
       id: 'K-102', name: 'Booth B', location: 'Main Hall B', constituency: 'New Delhi Central',
       status: 'ONLINE', deviceType: 'Kiosk', accessibilityReady: true, networkType: 'LAN',
-      batteryLevel: 85, lastHeartbeat: Date.now(), totalVotes: 98, authKey: 'auth-102'
+      batteryLevel: 85, lastHeartbeat: Date.now(), authKey: 'auth-102', signingPublicKey: null
     },
     { 
       id: 'K-201', name: 'Booth C', location: 'Annex Room', constituency: 'New Delhi South',
       status: 'ONLINE', deviceType: 'Tablet', accessibilityReady: true, networkType: '4G/5G',
-      batteryLevel: 45, lastHeartbeat: Date.now(), totalVotes: 12, authKey: 'auth-201'
+      batteryLevel: 45, lastHeartbeat: Date.now(), authKey: 'auth-201', signingPublicKey: null
     },
   ],
+  electoralRoll: MOCK_ROLL,
+  tokenKey: null, // Generated with the election key
+  slipKey: null, // Generated when the slips are first issued
   logs: [
     { id: 'l1', timestamp: Date.now() - 100000, level: 'INFO', category: 'SYSTEM', message: 'System initialized' },
     { id: 'l2', timestamp: Date.now() - 50000, level: 'INFO', category: 'ACCESS', message: 'Admin logged in' },
-  ]
+  ],
+  ledgerHead: null,
+  bulletinBoard: null,
+  mixedBallots: null,
+  tally: null,
+  postalDeskKey: null,
+  postalEnvelopes: [],
+  draws: [],
+  recounts: [],
+  declaration: null,
 };
 
 export const TRANSLATIONS = {
@@ -0,0 +1,86 @@
+// Ballot order.
+//
+// The statutory (ECI) order lists candidates of recognised national parties,
+// then recognised state parties, then other registered parties, then
+// independents, each group alphabetical by candidate name. Alphabetical means
+// the collation of the election's ballot language, so Devanagari and Telugu
+// names sort the way voters expect rather than by code point.
+//
+// When the polls open the order is locked by sorting config.candidates
+// itself, so every later stage (encryption, proofs, mix, tally, exported
+// record) sees the same candidate order without knowing the rule. A per-booth
+// rotation, for institutional elections, only changes what the kiosk shows;
+// the encrypted ballot keeps the locked order. NOTA always stays last.
+
+import { BallotOrder, Candidate, ElectionConfig, Party, PartyCategory, SecurityLog } from '../types';
+import { isNota } from './ballotService';
+
+export const BALLOT_ORDER_RULES: Record<BallotOrder['rule'], string> = {
+  ECI: 'ECI statutory order',
+  ALPHABETICAL: 'Alphabetical',
+  ENTRY: 'Order of entry',
+};
+
+const COLLATION_LOCALES: Record<BallotOrder['language'], string> = { en: 'en-IN', hi: 'hi-IN', te: 'te-IN' };
+
+const GROUP_RANK: Record<PartyCategory, number> = {
+  [PartyCategory.NATIONAL]: 0,
+  [PartyCategory.STATE]: 1,
+  [PartyCategory.REGISTERED]: 2,
+  [PartyCategory.INSTITUTIONAL]: 2,
+  [PartyCategory.INDEPENDENT]: 3,
+};
+
+/** Candidates in ballot order under the given rule. Ties fall back to entry order. */
+export const sortCandidates = (candidates: Candidate[], parties: Party[], order: Pick<BallotOrder, 'rule' | 'language'>): Candidate[] => {
+  if (order.rule === 'ENTRY') return [...candidates];
+  const collator = new Intl.Collator(COLLATION_LOCALES[order.language], { sensitivity: 'base', numeric: true });
+  const group = (c: Candidate) => {
+    if (order.rule !== 'ECI') return 0;
+    const category = parties.find(p => p.id === c.partyId)?.category;
+    return category ? GROUP_RANK[category] : GROUP_RANK[PartyCategory.INDEPENDENT];
+  };
+  return candidates
+    .map((candidate, entry) => ({ candidate, entry, group: group(candidate) }))
+    .sort((a, b) => a.group - b.group || collator.compare(a.candidate.name, b.candidate.name) || a.entry - b.entry)
+    .map(({ candidate }) => candidate);
+};
+
+/**
+ * Locks the ballot order as the polls open: sorts the candidates, draws each
+ * booth's rotation when rotation is on, and records the result in the log.
+ */
+export const lockBallotOrder = (config: ElectionConfig, lockedAt: number): ElectionConfig => {
+  const order = config.ballotOrder;
+  const candidates = sortCandidates(config.candidates, config.parties, order);
+  const rotate = order.rotatePerBooth && order.rule !== 'ECI';
+  const rotations = rotate
+    ? Object.fromEntries(config.booths.map(b => [b.id, crypto.getRandomValues(new Uint32Array(1))[0]]))
+    : null;
+
+  const log: SecurityLog = {
+    id: crypto.randomUUID(),
+    timestamp: lockedAt,
+    level: 'INFO',
+    category: 'SYSTEM',
+    message: `Ballot order locked (${BALLOT_ORDER_RULES[order.rule]}, ${COLLATION_LOCALES[order.language]} collation${rotate ? ', rotated per booth' : ''}): ${candidates.map(c => c.name).join(', ')}`,
+  };
+  return {
+    ...config,
+    candidates,
+    ballotOrder: { ...order, rotatePerBooth: rotate, rotations, lockedAt },
+    logs: [log, ...config.logs],
+  };
+};
+
+/**
+ * The order a booth shows one ballot's candidates in: the locked order,
+ * rotated by the booth's drawn offset when rotation is on. NOTA stays last.
+ */
+export const displayOrder = (ballot: Candidate[], order: BallotOrder, boothId: string): Candidate[] => {
+  const offset = order.rotations?.[boothId];
+  const listed = ballot.filter(c => !isNota(c.id));
+  if (offset === undefined || listed.length === 0) return ballot;
+  const start = offset % listed.length;
+  return [...listed.slice(start), ...listed.slice(0, start), ...ballot.filter(c => isNota(c.id))];
+};
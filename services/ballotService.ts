@@ -0,0 +1,104 @@
+// Ballot definitions per constituency and contest.
+//
+// Each constituency is its own electorate: a booth serves exactly one
+// constituency and its kiosk shows only that constituency's candidates.
+// Postal ballots carry their constituency on the record instead. An
+// election may hold several contests at once (e.g. sarpanch and ward
+// member); the voter fills in one ballot per contest in a single session.
+// The encrypted ballot, its proofs, the mix and the tally are all bound to a
+// (constituency, contest) candidate list, so every stage looks up the ballot
+// the same way.
+//
+// Preferential elections (Rajya Sabha, Legislative Council) use ranked
+// ballots counted by STV; they have no NOTA option.
+
+import { BallotSpec, Candidate, Contest, PollingBooth, VoteRecord, VoteSource } from '../types';
+import { NOTA_CANDIDATE, PREFERENTIAL_ELECTION_TYPES } from '../constants';
+
+type BoothRef = Pick<PollingBooth, 'id' | 'constituency'>;
+
+/** The parts of an election that define its ballots (also satisfied by an exported record). */
+export interface BallotDefinition {
+  type: string;
+  contests: Contest[];
+  booths: BoothRef[];
+  candidates: Candidate[];
+}
+
+type BallotSource = Pick<BallotDefinition, 'type' | 'candidates'>;
+
+/** Whether an election type is counted by single transferable vote on ranked ballots. */
+export const isPreferential = (type: string) => PREFERENTIAL_ELECTION_TYPES.includes(type);
+
+/** Every constituency in the election, in the order booths and candidates introduce them. */
+export const listConstituencies = (config: Pick<BallotDefinition, 'booths' | 'candidates'>): string[] =>
+  Array.from(new Set([...config.booths.map(b => b.constituency), ...config.candidates.filter(c => !isNota(c.id)).map(c => c.constituency)]));
+
+export const constituencyOfBooth = (booths: BoothRef[], boothId: string): string | null =>
+  booths.find(b => b.id === boothId)?.constituency ?? null;
+
+/** Sources mixed and counted separately, in the order results list them. */
+export const VOTE_SOURCES: VoteSource[] = ['BOOTH', 'POSTAL'];
+
+// Ledger records sealed before postal intake existed have no source and were all cast at booths
+export const sourceOfVote = (vote: Pick<VoteRecord, 'source'>): VoteSource => vote.source === 'POSTAL' ? 'POSTAL' : 'BOOTH';
+
+/** The constituency a ledger record votes in: its own for a postal ballot, its booth's otherwise. */
+export const constituencyOfVote = (booths: BoothRef[], vote: Pick<VoteRecord, 'source' | 'boothId' | 'constituency'>): string | null =>
+  sourceOfVote(vote) === 'POSTAL' ? vote.constituency ?? null : constituencyOfBooth(booths, vote.boothId);
+
+export const isNota = (candidateId: string) => candidateId === NOTA_CANDIDATE.id;
+
+/** Seats filled by one contest; 1 for an unknown contest. */
+export const contestSeats = (contests: Contest[], contestId: string) => contests.find(c => c.id === contestId)?.seats ?? 1;
+
+/** Registered candidates standing for one contest in one constituency, without NOTA. */
+export const contestingCandidates = (candidates: Candidate[], constituency: string | null, contestId: string): Candidate[] =>
+  candidates.filter(c => c.constituency === constituency && c.contestId === contestId && !isNota(c.id));
+
+/** The full ballot of one contest in one constituency in ballot order: NOTA always last, except on ranked ballots. */
+export const ballotCandidates = (config: BallotSource, constituency: string | null, contestId: string): Candidate[] => {
+  if (constituency === null) return [];
+  const contesting = contestingCandidates(config.candidates, constituency, contestId);
+  return isPreferential(config.type) ? contesting : [...contesting, NOTA_CANDIDATE];
+};
+
+/** The ballot a vote in this constituency and contest must be cast on. */
+export const ballotSpec = (config: BallotSource, constituency: string | null, contestId: string): BallotSpec => ({
+  contestId,
+  candidateIds: ballotCandidates(config, constituency, contestId).map(c => c.id),
+  ranked: isPreferential(config.type),
+});
+
+/** The ballots a vote in this constituency must carry, one per contest in contest order. */
+export const ballotSpecsForConstituency = (config: Pick<BallotDefinition, 'type' | 'contests' | 'candidates'>, constituency: string | null): BallotSpec[] =>
+  config.contests.map(contest => ballotSpec(config, constituency, contest.id));
+
+/** The ballots a vote cast at this booth must carry. */
+export const ballotSpecsForBooth = (config: BallotDefinition, boothId: string): BallotSpec[] =>
+  ballotSpecsForConstituency(config, constituencyOfBooth(config.booths, boothId));
+
+/** The ballots a ledger record must carry, whatever its source. */
+export const ballotSpecsForVote = (config: BallotDefinition, vote: VoteRecord): BallotSpec[] =>
+  ballotSpecsForConstituency(config, constituencyOfVote(config.booths, vote));
+
+/** Ledger records voting in one constituency, booth and postal alike, in ledger order. */
+export const votesForConstituency = (
+  votes: VoteRecord[],
+  booths: BoothRef[],
+  constituency: string
+): VoteRecord[] => votes.filter(v => constituencyOfVote(booths, v) === constituency);
+
+/**
+ * Groups of candidates sharing a symbol on one ballot (same constituency and
+ * contest). Voters who cannot read tell candidates apart by symbol, so every
+ * group is an error.
+ */
+export const symbolClashes = (candidates: Candidate[]): Candidate[][] => {
+  const groups = new Map<string, Candidate[]>();
+  candidates.forEach(c => {
+    const key = JSON.stringify([c.constituency, c.contestId, c.symbol]);
+    groups.set(key, [...(groups.get(key) ?? []), c]);
+  });
+  return [...groups.values()].filter(group => group.length > 1);
+};
@@ -0,0 +1,136 @@
+// Blind ballot tokens.
+//
+// Checking a voter against the electoral roll must not leave anything that
+// links them to the ballot they cast. At check-in the kiosk picks a random
+// token and blinds it; the roll desk marks the elector as having voted and
+// signs the blinded value without ever seeing the token (Chaum's RSA blind
+// signature). The kiosk unblinds the signature and attaches the token to the
+// ballot. Ingestion accepts a booth ballot only with a token that carries a
+// valid roll desk signature and has not been spent, so each check-in allows
+// exactly one ballot, yet nothing records whose check-in it was.
+//
+// Tokens are signed as a full-domain hash (SHA-256 in counter mode, stretched
+// past the modulus length), so signatures cannot be multiplied together into
+// a signature on a new token.
+
+import { BallotToken, TokenKey, VoteRecord } from '../types';
+import { fromHex, mod, modPow, sha256Hex, toHex } from './cryptoService';
+
+/** The roll desk's private signing key. */
+export interface TokenSigningKey {
+  n: string; // Modulus (hex)
+  d: string; // Private exponent (hex)
+}
+
+// The keypair comes from WebCrypto, which generates it without blocking the page; only its modulus and exponents are used
+const RSA_PARAMS: RsaHashedKeyGenParams = { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' };
+
+const randomBits = (bits: number): bigint => {
+  const bytes = crypto.getRandomValues(new Uint8Array(Math.ceil(bits / 8)));
+  return fromHex(Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')) >> BigInt(bytes.length * 8 - bits);
+};
+
+const bitLength = (value: bigint) => value.toString(2).length;
+
+// Uniform in [1, max)
+const randomBelow = (max: bigint): bigint => {
+  for (;;) {
+    const r = randomBits(bitLength(max));
+    if (r > 0n && r < max) return r;
+  }
+};
+
+const gcd = (a: bigint, b: bigint): bigint => {
+  while (b > 0n) [a, b] = [b, a % b];
+  return a;
+};
+
+// Extended Euclid; the modulus need not be prime
+const invert = (a: bigint, m: bigint): bigint => {
+  let [oldR, r] = [mod(a, m), m];
+  let [oldS, s] = [1n, 0n];
+  while (r > 0n) {
+    const q = oldR / r;
+    [oldR, r] = [r, oldR - q * r];
+    [oldS, s] = [s, oldS - q * s];
+  }
+  if (oldR !== 1n) throw new Error('Value is not invertible');
+  return mod(oldS, m);
+};
+
+// JWK integers are unpadded big-endian base64url
+const fromBase64Url = (value: string): string => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return toHex(fromHex(Array.from(binary, c => c.charCodeAt(0).toString(16).padStart(2, '0')).join('')));
+};
+
+/** Generates the roll desk's RSA keypair. */
+export const generateTokenKeyPair = async (): Promise<{ publicKey: TokenKey; privateKey: TokenSigningKey }> => {
+  const { privateKey } = await crypto.subtle.generateKey(RSA_PARAMS, true, ['sign', 'verify']);
+  const jwk = await crypto.subtle.exportKey('jwk', privateKey);
+  const n = fromBase64Url(jwk.n!);
+  return { publicKey: { n, e: fromBase64Url(jwk.e!) }, privateKey: { n, d: fromBase64Url(jwk.d!) } };
+};
+
+// SHA-256 in counter mode, 64 bits longer than the modulus, reduced into it
+const fullDomainHash = async (token: string, n: bigint): Promise<bigint> => {
+  const blocks = Math.ceil((bitLength(n) + 64) / 256);
+  const digests = await Promise.all(Array.from({ length: blocks }, (_, i) => sha256Hex(`ballot-token:${i}:${token}`)));
+  return mod(fromHex(digests.join('')), n);
+};
+
+/**
+ * Picks a fresh token and blinds it for the roll desk. The blinding factor
+ * stays on the kiosk and is needed to unblind the desk's signature.
+ */
+export const blindToken = async (key: TokenKey): Promise<{ token: string; blinded: string; blindingFactor: string }> => {
+  const n = fromHex(key.n);
+  const token = toHex(randomBits(256) | (1n << 255n));
+  let r: bigint;
+  do r = randomBelow(n); while (gcd(r, n) !== 1n);
+  const blinded = mod(await fullDomainHash(token, n) * modPow(r, fromHex(key.e), n), n);
+  return { token, blinded: toHex(blinded), blindingFactor: toHex(r) };
+};
+
+/** The roll desk's signature on a blinded token. It learns nothing about the token. */
+export const signBlindedToken = (blinded: string, key: TokenSigningKey): string => {
+  const n = fromHex(key.n);
+  const value = fromHex(blinded);
+  if (value <= 0n || value >= n) throw new Error('Blinded token is out of range');
+  return toHex(modPow(value, fromHex(key.d), n));
+};
+
+export const verifyBallotToken = async (ballotToken: BallotToken, key: TokenKey): Promise<boolean> => {
+  try {
+    const n = fromHex(key.n);
+    const signature = fromHex(ballotToken.signature);
+    if (signature <= 0n || signature >= n) return false;
+    return modPow(signature, fromHex(key.e), n) === await fullDomainHash(ballotToken.token, n);
+  } catch (e) {
+    return false;
+  }
+};
+
+/** Unblinds the roll desk's signature. Throws if the desk did not sign the token honestly. */
+export const unblindToken = async (token: string, blindSignature: string, blindingFactor: string, key: TokenKey): Promise<BallotToken> => {
+  const n = fromHex(key.n);
+  const signature = mod(fromHex(blindSignature) * invert(fromHex(blindingFactor), n), n);
+  const ballotToken = { token, signature: toHex(signature) };
+  if (!(await verifyBallotToken(ballotToken, key))) throw new Error('The roll desk returned an invalid token signature');
+  return ballotToken;
+};
+
+/** Why a booth ballot's token is not acceptable on this ledger, or null. */
+export const ballotTokenProblem = async (vote: Pick<VoteRecord, 'ballotToken'>, key: TokenKey | null, ledger: VoteRecord[]): Promise<string | null> => {
+  if (!vote.ballotToken) return 'Ballot carries no roll check-in token';
+  if (!key || !(await verifyBallotToken(vote.ballotToken, key))) return 'Ballot token is not signed by the roll desk';
+  return spentTokenProblem(vote, ledger);
+};
+
+/**
+ * The single-use half of ballotTokenProblem, without the signature check. It
+ * is synchronous, so a caller can repeat it against the ledger in the same
+ * step that appends the ballot.
+ */
+export const spentTokenProblem = (vote: Pick<VoteRecord, 'ballotToken'>, ledger: VoteRecord[]): string | null =>
+  vote.ballotToken && ledger.some(v => v.ballotToken?.token === vote.ballotToken!.token) ? 'Ballot token has already been used' : null;
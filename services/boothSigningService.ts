@@ -0,0 +1,93 @@
+// Per-booth ballot signing (ECDSA P-256 / SHA-256 via Web Crypto).
+//
+// A kiosk enrols against its PollingBooth with the booth's authKey, generates
+// a signing keypair and registers only the public half on the booth record.
+// Every VoteRecord it produces is signed over its canonical payload, and
+// ingestion rejects anything that does not verify against a known booth key.
+// The returning officer's postal desk signs postal ballots the same way with
+// its own key (see postalBallotService), and voter information slips are
+// signed with the returning officer's slip key (see voterSlipService).
+
+import { PollingBooth, VoteRecord } from '../types';
+
+const ECDSA_PARAMS: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGN_PARAMS: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+type SignableRecord = Pick<VoteRecord, 'voteId' | 'timestamp' | 'source' | 'boothId' | 'constituency' | 'ballotToken' | 'encryptedData'>;
+
+const toBase64 = (bytes: ArrayBuffer): string => {
+  let binary = '';
+  new Uint8Array(bytes).forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// A postal ballot's signature also covers its source and constituency, a booth ballot's its roll token
+const canonicalPayload = (record: SignableRecord): Uint8Array =>
+  new TextEncoder().encode([
+    record.voteId, record.timestamp, record.boothId, record.encryptedData,
+    ...(record.source === 'POSTAL' ? [record.source, record.constituency] : []),
+    ...(record.ballotToken ? [record.ballotToken.token, record.ballotToken.signature] : []),
+  ].join('|'));
+
+/** Generates a booth signing keypair (base64 SPKI public key, base64 PKCS#8 private key). */
+export const generateBoothKeyPair = async (): Promise<{ publicKey: string; privateKey: string }> => {
+  const keyPair = await crypto.subtle.generateKey(ECDSA_PARAMS, true, ['sign', 'verify']);
+  return {
+    publicKey: toBase64(await crypto.subtle.exportKey('spki', keyPair.publicKey)),
+    privateKey: toBase64(await crypto.subtle.exportKey('pkcs8', keyPair.privateKey)),
+  };
+};
+
+const sign = async (payload: Uint8Array, privateKey: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('pkcs8', fromBase64(privateKey), ECDSA_PARAMS, false, ['sign']);
+  return toBase64(await crypto.subtle.sign(SIGN_PARAMS, key, payload));
+};
+
+const verify = async (payload: Uint8Array, signature: string, publicKey: string): Promise<boolean> => {
+  try {
+    const key = await crypto.subtle.importKey('spki', fromBase64(publicKey), ECDSA_PARAMS, false, ['verify']);
+    return await crypto.subtle.verify(SIGN_PARAMS, key, fromBase64(signature), payload);
+  } catch (e) {
+    return false;
+  }
+};
+
+export const signVoteRecord = (record: SignableRecord, privateKey: string): Promise<string> =>
+  sign(canonicalPayload(record), privateKey);
+
+export const verifyVoteSignature = (record: SignableRecord & { signature: string }, publicKey: string): Promise<boolean> =>
+  verify(canonicalPayload(record), record.signature, publicKey);
+
+export const signText = (text: string, privateKey: string): Promise<string> =>
+  sign(new TextEncoder().encode(text), privateKey);
+
+export const verifyTextSignature = (text: string, signature: string, publicKey: string): Promise<boolean> =>
+  verify(new TextEncoder().encode(text), signature, publicKey);
+
+/**
+ * Ingestion gate for incoming votes. Returns the rejection reason, or null
+ * when the vote is signed by the enrolled key of a booth that may accept it.
+ */
+export const checkIncomingVote = async (
+  vote: SignableRecord & { signature?: string },
+  booths: PollingBooth[]
+): Promise<string | null> => {
+  if (!vote.boothId || !vote.signature) return 'Unsigned vote';
+  if (vote.source !== 'BOOTH') return 'Booths may only submit booth ballots';
+
+  const booth = booths.find(b => b.id === vote.boothId);
+  if (!booth || !booth.signingPublicKey) return `Vote from unknown booth key (${vote.boothId})`;
+  if (booth.status === 'LOCKED') return `Vote from LOCKED booth ${booth.id}`;
+
+  if (!(await verifyVoteSignature({ ...vote, signature: vote.signature }, booth.signingPublicKey))) {
+    return `Signature does not match the enrolled key of booth ${booth.id}`;
+  }
+  return null;
+};
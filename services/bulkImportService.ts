@@ -0,0 +1,458 @@
+// Bulk import and export of parties, candidates, booths and the electoral roll.
+//
+// A real constituency has hundreds of booths, dozens of candidates and a roll
+// of a million electors, so the registry can be loaded from CSV or JSON files
+// instead of the one-at-a-time forms. Both formats use the same columns, and
+// an exported file imports back unchanged. An import is checked as a whole before anything is applied:
+// every row is validated against the election and against the other rows,
+// and the administrator sees each row's problems in a preview. Only a file
+// without problems can be applied. A row whose id (an elector's EPIC number)
+// already exists updates that record; booths keep their enrolment and status,
+// and electors their mark, when updated. The roll exports without marks.
+//
+// Images in an import (party symbols, candidate symbols and photographs) go
+// through the same checks as uploads in the forms.
+
+import { Candidate, ElectionConfig, Party, PartyCategory, PollingBooth, RollEntry, SecurityLog } from '../types';
+import { isNota, symbolClashes } from './ballotService';
+import { partyProblem, syncPartyCandidates } from './partyService';
+import { isImageSymbol, prepareCandidatePhoto, prepareSymbolImage } from './symbolService';
+import { EPIC_PATTERN, normalizeEpic } from './electoralRollService';
+
+export type BulkKind = 'parties' | 'candidates' | 'booths' | 'roll';
+export type BulkFormat = 'csv' | 'json';
+
+export const BULK_KIND_LABELS: Record<BulkKind, string> = {
+  parties: 'Parties',
+  candidates: 'Candidates',
+  booths: 'Polling Booths',
+  roll: 'Electoral Roll',
+};
+
+const COLUMNS: Record<BulkKind, string[]> = {
+  parties: ['id', 'name', 'shortCode', 'category', 'symbolUrl', 'retired'],
+  candidates: ['id', 'name', 'partyId', 'constituency', 'contestId', 'symbol', 'photoUrl'],
+  booths: ['id', 'name', 'location', 'constituency', 'deviceType', 'networkType', 'accessibilityReady'],
+  roll: ['epic', 'name', 'boothId'],
+};
+
+const REQUIRED: Record<BulkKind, string[]> = {
+  parties: ['name', 'shortCode', 'category', 'symbolUrl'],
+  candidates: ['name', 'partyId', 'constituency', 'contestId'],
+  booths: ['id', 'location', 'constituency', 'deviceType', 'networkType'],
+  roll: ['epic', 'name', 'boothId'],
+};
+
+const DEVICE_TYPES: PollingBooth['deviceType'][] = ['Kiosk', 'Tablet', 'Terminal'];
+const NETWORK_TYPES: PollingBooth['networkType'][] = ['LAN', 'Wi-Fi', '4G/5G'];
+
+/** The registry fields of a booth; the rest is runtime state set by the system. */
+export type BoothImport = Pick<PollingBooth, 'id' | 'name' | 'location' | 'constituency' | 'deviceType' | 'networkType' | 'accessibilityReady'>;
+
+export interface ImportRow {
+  source: string; // Where the row is in the file: "Line 3" (CSV) or "Item 2" (JSON)
+  summary: string;
+  action: 'ADD' | 'UPDATE';
+  errors: string[];
+}
+
+export type ImportPreview = { fileName: string; rows: ImportRow[] } & (
+  | { kind: 'parties'; records: Party[] }
+  | { kind: 'candidates'; records: Candidate[] }
+  | { kind: 'booths'; records: BoothImport[] }
+  | { kind: 'roll'; records: RollEntry[] }
+);
+
+type RawRow = { source: string; fields: Record<string, string>; errors: string[] };
+
+// --- CSV ---
+
+const csvField = (value: string) => /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// RFC 4180 records, each with the line it starts on. Quoted fields may hold commas, quotes and line breaks.
+const parseCsv = (text: string): { line: number; fields: string[] }[] => {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+  let quoteLine = 1;
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.some(f => f.trim() !== '')) records.push({ line: recordLine, fields });
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === '\n') line++;
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+      quoteLine = line;
+    } else if (ch === ',') {
+      fields.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += ch;
+    }
+  }
+  if (quoted) throw new Error(`The quoted value starting on line ${quoteLine} is never closed.`);
+  endRecord();
+  return records;
+};
+
+const readCsv = (kind: BulkKind, text: string): RawRow[] => {
+  const [header, ...records] = parseCsv(text);
+  if (!header) throw new Error('The file is empty.');
+  const columns = header.fields.map(f => f.trim());
+  const unknown = columns.filter(c => !COLUMNS[kind].includes(c));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown column(s) in the header: ${unknown.join(', ')}. ${BULK_KIND_LABELS[kind]} use: ${COLUMNS[kind].join(', ')}.`);
+  }
+  const missing = REQUIRED[kind].filter(c => !columns.includes(c));
+  if (missing.length > 0) throw new Error(`The header is missing required column(s): ${missing.join(', ')}.`);
+
+  return records.map(({ line, fields }) => ({
+    source: `Line ${line}`,
+    fields: Object.fromEntries(columns.map((c, i) => [c, (fields[i] ?? '').trim()])),
+    errors: fields.length > columns.length ? [`Has ${fields.length} values but the header has ${columns.length} columns.`] : [],
+  }));
+};
+
+// --- JSON ---
+
+const readJson = (kind: BulkKind, text: string): RawRow[] => {
+  let items: unknown;
+  try {
+    items = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!Array.isArray(items)) throw new Error(`The file must hold a JSON array of ${BULK_KIND_LABELS[kind].toLowerCase()}.`);
+
+  return items.map((item, i) => {
+    const row: RawRow = { source: `Item ${i + 1}`, fields: {}, errors: [] };
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      row.errors.push('Must be an object.');
+      return row;
+    }
+    for (const [key, value] of Object.entries(item)) {
+      if (!COLUMNS[kind].includes(key)) row.errors.push(`Unknown field "${key}".`);
+      else if (value === null || value === undefined) row.fields[key] = '';
+      else if (['string', 'number', 'boolean'].includes(typeof value)) row.fields[key] = String(value).trim();
+      else row.errors.push(`"${key}" must be a text, number or true/false value.`);
+    }
+    return row;
+  });
+};
+
+// --- Validation ---
+
+const parseFlag = (value: string): boolean | null => {
+  if (value === '' || /^(false|no|n|0)$/i.test(value)) return false;
+  if (/^(true|yes|y|1)$/i.test(value)) return true;
+  return null;
+};
+
+const parseCategory = (value: string): PartyCategory | null => {
+  const match = Object.entries(PartyCategory).find(([key, label]) =>
+    key.toLowerCase() === value.toLowerCase() || label.toLowerCase() === value.toLowerCase());
+  return match ? match[1] : null;
+};
+
+// Runs an image in the file through the same checks as an upload
+const checkImage = async (
+  value: string,
+  prepare: (file: File) => Promise<string>,
+  errors: string[]
+): Promise<string> => {
+  try {
+    const blob = await (await fetch(value)).blob();
+    return await prepare(new File([blob], 'import', { type: blob.type }));
+  } catch (e) {
+    errors.push(e instanceof Error ? e.message : 'Image could not be read.');
+    return value;
+  }
+};
+
+const requireFields = (kind: BulkKind, row: RawRow) => {
+  for (const column of REQUIRED[kind]) {
+    if (!row.fields[column]) row.errors.push(`${column} is required.`);
+  }
+};
+
+// Ids must be unique within the file; repeats are reported on the later row
+const checkRepeatedIds = (rows: RawRow[], ids: string[], what: string) => {
+  const firstSeen = new Map<string, string>();
+  ids.forEach((id, i) => {
+    if (!id) return;
+    const first = firstSeen.get(id);
+    if (first) rows[i].errors.push(`${what} ${id} repeats ${first}.`);
+    else firstSeen.set(id, rows[i].source);
+  });
+};
+
+const upsert = <T extends { id: string }>(existing: T[], records: T[]): T[] => [
+  ...existing.map(e => records.find(r => r.id === e.id) ?? e),
+  ...records.filter(r => !existing.some(e => e.id === r.id)),
+];
+
+const toImportRows = (rows: RawRow[], summaries: string[], existingIds: string[], ids: string[]): ImportRow[] =>
+  rows.map((row, i) => ({
+    source: row.source,
+    summary: summaries[i],
+    action: existingIds.includes(ids[i]) ? 'UPDATE' : 'ADD',
+    errors: row.errors,
+  }));
+
+const previewParties = async (rows: RawRow[], config: ElectionConfig, stamp: number) => {
+  checkRepeatedIds(rows, rows.map(r => r.fields.id ?? ''), 'Party id');
+  const records: Party[] = [];
+  for (const [i, row] of rows.entries()) {
+    const f = row.fields;
+    requireFields('parties', row);
+    const category = f.category ? parseCategory(f.category) : null;
+    if (f.category && !category) row.errors.push(`category must be one of: ${Object.values(PartyCategory).join(', ')}.`);
+    const retired = parseFlag(f.retired ?? '');
+    if (retired === null) row.errors.push('retired must be true or false.');
+    const symbolUrl = f.symbolUrl && isImageSymbol(f.symbolUrl) ? await checkImage(f.symbolUrl, prepareSymbolImage, row.errors) : f.symbolUrl ?? '';
+
+    const party: Party = {
+      id: f.id || `p-${stamp}-${i}`,
+      name: f.name ?? '',
+      shortCode: (f.shortCode ?? '').toUpperCase(),
+      category: category ?? PartyCategory.INDEPENDENT,
+      symbolUrl,
+    };
+    if (retired) party.retired = true;
+    records.push(party);
+  }
+
+  // Short codes must stay unique across the registry once the file is applied
+  const merged = upsert(config.parties, records);
+  rows.forEach((row, i) => {
+    const problem = row.errors.length === 0 ? partyProblem(records[i], merged) : null;
+    if (problem) row.errors.push(problem);
+  });
+  return {
+    records,
+    rows: toImportRows(rows, records.map(p => `${p.name} (${p.shortCode})`), config.parties.map(p => p.id), records.map(p => p.id)),
+  };
+};
+
+const previewCandidates = async (rows: RawRow[], config: ElectionConfig, stamp: number) => {
+  checkRepeatedIds(rows, rows.map(r => r.fields.id ?? ''), 'Candidate id');
+  const records: Candidate[] = [];
+  for (const [i, row] of rows.entries()) {
+    const f = row.fields;
+    requireFields('candidates', row);
+    const id = f.id || `c-${stamp}-${i}`;
+    const existing = config.candidates.find(c => c.id === id);
+    if (isNota(id)) row.errors.push(`${id} is reserved for None of the Above.`);
+
+    const party = config.parties.find(p => p.id === f.partyId);
+    if (f.partyId && !party) row.errors.push(`Unknown partyId ${f.partyId}. Import or add the party first.`);
+    // A retired party keeps its candidates but takes no new ones
+    if (party?.retired && existing?.partyId !== party.id) row.errors.push(`${party.name} is retired and takes no new candidates.`);
+    if (f.contestId && !config.contests.some(c => c.id === f.contestId)) {
+      row.errors.push(`Unknown contestId ${f.contestId}. Contests: ${config.contests.map(c => c.id).join(', ')}.`);
+    }
+
+    // Independents have no reserved symbol and must take a free one
+    let symbol = f.symbol || (party && party.category !== PartyCategory.INDEPENDENT ? party.symbolUrl : '');
+    if (party && !symbol) row.errors.push('symbol is required for independent candidates.');
+    if (isImageSymbol(symbol)) symbol = await checkImage(symbol, prepareSymbolImage, row.errors);
+
+    const candidate: Candidate = {
+      id,
+      name: f.name ?? '',
+      partyId: f.partyId ?? '',
+      partyName: party?.name,
+      partySymbol: party?.symbolUrl,
+      symbol,
+      constituency: f.constituency ?? '',
+      contestId: f.contestId ?? '',
+    };
+    if (f.photoUrl) {
+      if (isImageSymbol(f.photoUrl)) candidate.photoUrl = await checkImage(f.photoUrl, prepareCandidatePhoto, row.errors);
+      else row.errors.push('photoUrl must be an image data URL.');
+    }
+    records.push(candidate);
+  }
+
+  const clashes = symbolClashes(upsert(config.candidates, records));
+  records.forEach((candidate, i) => {
+    const group = candidate.symbol ? clashes.find(g => g.includes(candidate)) : undefined;
+    if (group) {
+      rows[i].errors.push(`Same symbol as ${group.filter(c => c !== candidate).map(c => c.name).join(', ')} on the ${candidate.constituency} ballot.`);
+    }
+  });
+  return {
+    records,
+    rows: toImportRows(rows, records.map(c => `${c.name} (${c.constituency})`), config.candidates.map(c => c.id), records.map(c => c.id)),
+  };
+};
+
+const previewBooths = (rows: RawRow[], config: ElectionConfig) => {
+  checkRepeatedIds(rows, rows.map(r => r.fields.id ?? ''), 'Booth id');
+  const records = rows.map((row): BoothImport => {
+    const f = row.fields;
+    requireFields('booths', row);
+    if (f.deviceType && !DEVICE_TYPES.includes(f.deviceType as PollingBooth['deviceType'])) {
+      row.errors.push(`deviceType must be one of: ${DEVICE_TYPES.join(', ')}.`);
+    }
+    if (f.networkType && !NETWORK_TYPES.includes(f.networkType as PollingBooth['networkType'])) {
+      row.errors.push(`networkType must be one of: ${NETWORK_TYPES.join(', ')}.`);
+    }
+    const accessibilityReady = parseFlag(f.accessibilityReady ?? '');
+    if (accessibilityReady === null) row.errors.push('accessibilityReady must be true or false.');
+    return {
+      id: f.id ?? '',
+      name: f.name || `Booth ${f.id}`,
+      location: f.location ?? '',
+      constituency: f.constituency ?? '',
+      deviceType: f.deviceType as PollingBooth['deviceType'],
+      networkType: f.networkType as PollingBooth['networkType'],
+      accessibilityReady: accessibilityReady ?? false,
+    };
+  });
+  return {
+    records,
+    rows: toImportRows(rows, records.map(b => `${b.id} ${b.location} (${b.constituency})`), config.booths.map(b => b.id), records.map(b => b.id)),
+  };
+};
+
+const previewRoll = (rows: RawRow[], config: ElectionConfig) => {
+  const epics = rows.map(r => normalizeEpic(r.fields.epic ?? ''));
+  checkRepeatedIds(rows, epics, 'EPIC number');
+  const records = rows.map((row, i): RollEntry => {
+    const f = row.fields;
+    requireFields('roll', row);
+    if (epics[i] && !EPIC_PATTERN.test(epics[i])) row.errors.push('epic must be three letters and seven digits, e.g. ABC1234567.');
+    if (f.boothId && !config.booths.some(b => b.id === f.boothId)) row.errors.push(`Unknown boothId ${f.boothId}. Import or add the booth first.`);
+    return {
+      epic: epics[i],
+      name: f.name ?? '',
+      boothId: f.boothId ?? '',
+      hasVoted: config.electoralRoll.find(e => e.epic === epics[i])?.hasVoted ?? false,
+    };
+  });
+  return {
+    records,
+    rows: toImportRows(rows, records.map(e => `${e.epic} ${e.name} (${e.boothId})`), config.electoralRoll.map(e => e.epic), epics),
+  };
+};
+
+/**
+ * Reads an import file and checks every row, without changing anything.
+ * Throws with a message for the administrator when the file as a whole
+ * cannot be read (bad JSON, unknown or missing columns); problems with
+ * single rows are reported in the preview instead.
+ */
+export const previewImport = async (
+  kind: BulkKind,
+  format: BulkFormat,
+  fileName: string,
+  text: string,
+  config: ElectionConfig
+): Promise<ImportPreview> => {
+  const content = text.replace(/^\uFEFF/, ''); // Spreadsheets often save CSV with a byte order mark
+  const rows = format === 'csv' ? readCsv(kind, content) : readJson(kind, content);
+  if (rows.length === 0) throw new Error(`The file holds no ${BULK_KIND_LABELS[kind].toLowerCase()}.`);
+  const stamp = Date.now();
+
+  switch (kind) {
+    case 'parties': return { kind, fileName, ...await previewParties(rows, config, stamp) };
+    case 'candidates': return { kind, fileName, ...await previewCandidates(rows, config, stamp) };
+    case 'booths': return { kind, fileName, ...previewBooths(rows, config) };
+    case 'roll': return { kind, fileName, ...previewRoll(rows, config) };
+  }
+};
+
+export const importErrorCount = (preview: ImportPreview) => preview.rows.reduce((n, row) => n + row.errors.length, 0);
+
+/** Applies a previewed import that has no errors, and records it in the log. */
+export const applyImport = (config: ElectionConfig, preview: ImportPreview, importedAt = Date.now()): ElectionConfig => {
+  const added = preview.rows.filter(r => r.action === 'ADD').length;
+  const log: SecurityLog = {
+    id: crypto.randomUUID(),
+    timestamp: importedAt,
+    level: 'INFO',
+    category: 'SYSTEM',
+    message: `Imported ${preview.rows.length} ${BULK_KIND_LABELS[preview.kind].toLowerCase()} from ${preview.fileName}: ${added} added, ${preview.rows.length - added} updated.`,
+  };
+  const logs = [log, ...config.logs];
+
+  switch (preview.kind) {
+    case 'parties': {
+      // Edited parties carry their new name and symbol over to their candidates
+      const candidates = preview.records.reduce((list, party) => {
+        const previous = config.parties.find(p => p.id === party.id);
+        return previous ? syncPartyCandidates(list, previous, party) : list;
+      }, config.candidates);
+      return { ...config, parties: upsert(config.parties, preview.records), candidates, logs };
+    }
+    case 'candidates':
+      return { ...config, candidates: upsert(config.candidates, preview.records), logs };
+    case 'booths': {
+      const booths = preview.records.map((record): PollingBooth => {
+        const existing = config.booths.find(b => b.id === record.id);
+        return existing ? { ...existing, ...record } : {
+          ...record,
+          status: 'ONLINE',
+          batteryLevel: 100,
+          lastHeartbeat: importedAt,
+          authKey: `auth-${record.id}-${importedAt}`,
+          signingPublicKey: null,
+        };
+      });
+      return { ...config, booths: upsert(config.booths, booths), logs };
+    }
+    case 'roll': {
+      const electoralRoll = upsert(config.electoralRoll.map(e => ({ ...e, id: e.epic })), preview.records.map(e => ({ ...e, id: e.epic })))
+        .map(({ id, ...entry }) => entry);
+      return { ...config, electoralRoll, logs };
+    }
+  }
+};
+
+const exportRows = (kind: BulkKind, config: ElectionConfig): Record<string, string | boolean>[] => {
+  switch (kind) {
+    case 'parties':
+      return config.parties.map(p => ({ id: p.id, name: p.name, shortCode: p.shortCode, category: p.category, symbolUrl: p.symbolUrl, retired: !!p.retired }));
+    case 'candidates':
+      return config.candidates.map(c => ({ id: c.id, name: c.name, partyId: c.partyId, constituency: c.constituency, contestId: c.contestId, symbol: c.symbol, photoUrl: c.photoUrl ?? '' }));
+    case 'booths':
+      return config.booths.map(b => ({ id: b.id, name: b.name, location: b.location, constituency: b.constituency, deviceType: b.deviceType, networkType: b.networkType, accessibilityReady: b.accessibilityReady }));
+    case 'roll':
+      return config.electoralRoll.map(e => ({ epic: e.epic, name: e.name, boothId: e.boothId }));
+  }
+};
+
+/** Rows as CSV under a header line, quoted where a spreadsheet would misread them. */
+export const toCsv = (columns: string[], rows: Record<string, string | boolean>[]): string =>
+  [columns, ...rows.map(row => columns.map(c => String(row[c])))]
+    .map(fields => fields.map(csvField).join(','))
+    .join('\r\n') + '\r\n';
+
+/** The election's parties, candidates, booths or roll as a file previewImport reads back unchanged. */
+export const exportRecords = (kind: BulkKind, format: BulkFormat, config: ElectionConfig): string => {
+  const rows = exportRows(kind, config);
+  return format === 'json' ? JSON.stringify(rows, null, 2) : toCsv(COLUMNS[kind], rows);
+};
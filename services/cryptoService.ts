@@ -1,35 +1,483 @@
-// In a real app, use Web Crypto API. This is a simulation for the prototype.
+// Ballot encryption: exponential ElGamal over a prime-order subgroup.
+//
+// A ballot is a vector with one ciphertext per candidate, each encrypting 0 or
+// 1 as g^m. Multiplying ciphertexts component-wise adds the plaintexts, so the
+// tally only ever decrypts per-candidate aggregates and no individual ballot
+// is opened. A stored vote holds one such ballot per contest. Big integers
+// are carried as lowercase hex strings.
+//
+// Every ballot carries non-interactive zero-knowledge proofs (Chaum-Pedersen,
+// made non-interactive with Fiat-Shamir over SHA-256) that each component
+// encrypts 0 or 1 and that the components sum to exactly 1, so a crafted
+// ciphertext worth two votes or a negative vote is rejected before tallying.
+// Ranked ballots encrypt a preference matrix instead (see Ballot layouts) and
+// additionally prove one choice per preference and each candidate at most once.
+
+import { BallotSpec, ChaumPedersenProof, ElGamalCiphertext, EncryptedBallot, ZeroOneProof } from '../types';
+
+/**
+ * Schnorr group: 2048-bit prime p, 256-bit prime q dividing p - 1, and
+ * g = 2^((p-1)/q) mod p generating the order-q subgroup.
+ */
+export const ELECTION_GROUP = {
+  p: BigInt('0xd1af5ea81035c090334a1363605f4adfea4574018f61b20f57a4ec86ac49b852c5525d5d1e6090eabc6517828097e07d009e95fac70ba19587ebd9982769af1819f91e6473291ed9a61136788bd724181f5070538aa18b4bead9c948a4a7beee81c01929d03c45b6ec981f62e26bc09a48f462ddcdeb5c613a83dbe7b8d4c7c43320e05f50525b1a1b920ecf4fc05f9341c386758fa4b1ffbcbf779526a0547b7489a07c5ba3acf0f1183f0dded7df09ca09902acd6bad6003f772eb17dbd7fb2ab4e2eda286ebfa5f5e51e65db4fbebda291ae15d207e2b197ab63f29f3f71ed43df88c754e9e8374d4c728b382c7dd3ecc4a3b4be509cb1df3f28e07d48ac9'),
+  q: BigInt('0xdb946494eef576d92d6aa36cf0ce73cdb4204e57e7f2e2f99e3345a4406befab'),
+  g: BigInt('0xaf9be12e3f70b40f1584f86f04814754cb95f9899e8f7ff328ae717b6bcd6321343a920a945b74418a74a3ef5a6df5004986ba5386f2b6b290a66b2b7be3c4a5d2d11de49ee8cc074a6fd3a1bc76581da5bf8858b5a8a7919e3af3d93acc4f893c9304f180a82a1921c90580b14544d9e00a87f70ceb5491de930c48465a48bcfdd341755fcb9a290141993e0bfe2d089bf620e651bc04a941a115af37391900a5637a3c41d7aa9dc6ed4ab2bb8aba3cf8a894ee9f5084a2caa70cf47779061e87394455b16ef5cd8c928de8057052f73fca6316107548c16aeb73c11b4dbf749a64d98670b214f8159770e37816c6848d25e4095e0642156952934165c52814'),
+};
+
+const { p: P, q: Q, g: G } = ELECTION_GROUP;
+
+export const mod = (a: bigint, m: bigint): bigint => {
+  const r = a % m;
+  return r < 0n ? r + m : r;
+};
+
+export const modPow = (base: bigint, exp: bigint, m: bigint): bigint => {
+  let result = 1n;
+  base = mod(base, m);
+  exp = exp < 0n ? 0n : exp;
+  while (exp > 0n) {
+    if (exp & 1n) result = (result * base) % m;
+    base = (base * base) % m;
+    exp >>= 1n;
+  }
+  return result;
+};
+
+// Fermat inverse, valid for a prime modulus.
+export const modInverse = (a: bigint, m: bigint): bigint => modPow(a, m - 2n, m);
+
+/** Uniformly random scalar in [1, q). */
+export const randomScalar = (): bigint => {
+  const bytes = crypto.getRandomValues(new Uint8Array(48));
+  return mod(bytes.reduce((acc, b) => (acc << 8n) | BigInt(b), 0n), Q - 1n) + 1n;
+};
+
+export const toHex = (value: bigint): string => value.toString(16);
+export const fromHex = (value: string): bigint => BigInt(`0x${value}`);
+
+export const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
 
 export const generateVoteId = () => {
   return crypto.randomUUID();
 };
 
-export const encryptVote = async (candidateId: string, publicKey: string): Promise<{ encryptedData: string; hash: string }> => {
-  // Simulate delay for encryption
-  await new Promise(resolve => setTimeout(resolve, 500));
-  
-  const rawPayload = JSON.stringify({ candidateId, salt: Math.random() });
-  
-  // Simulated encryption (Base64 of reversed string + key signature)
-  const encryptedData = btoa(rawPayload.split('').reverse().join('')) + `.${publicKey.substring(0, 5)}`;
-  
-  // Simulated Integrity Hash
-  const hash = btoa(`HASH-${candidateId}-${Date.now()}`);
-  
-  return { encryptedData, hash };
-};
-
-export const decryptVote = (encryptedData: string, privateKey: string): string | null => {
-  // Simulate decryption requiring keys
-  if (!privateKey) return null;
-  
+/** Public key h = g^x for the election secret x. */
+export const derivePublicKey = (secret: bigint): string => toHex(modPow(G, secret, P));
+
+/**
+ * Generates the election keypair. The public key is published in
+ * ElectionConfig.publicKey; the secret is handed straight to the key ceremony
+ * and never persisted by the app.
+ */
+export const generateElectionKeyPair = (): { publicKey: string; secret: bigint } => {
+  const secret = randomScalar();
+  return { publicKey: derivePublicKey(secret), secret };
+};
+
+/** Short SHA-256 fingerprint of a public key, for display and audit logs. */
+export const fingerprintKey = async (publicKey: string): Promise<string> => {
+  const digest = await sha256Hex(publicKey);
+  return digest.slice(0, 16).match(/../g)!.join(':').toUpperCase();
+};
+
+/** Encrypts g^m under the public key with fresh randomness r. */
+export const encryptExponent = (m: number, publicKey: string, r: bigint = randomScalar()): ElGamalCiphertext => {
+  const h = fromHex(publicKey);
+  return {
+    alpha: toHex(modPow(G, r, P)),
+    beta: toHex((modPow(G, BigInt(m), P) * modPow(h, r, P)) % P),
+  };
+};
+
+/** Component-wise product: the result encrypts the sum of the plaintexts. */
+export const multiplyCiphertexts = (x: ElGamalCiphertext, y: ElGamalCiphertext): ElGamalCiphertext => ({
+  alpha: toHex((fromHex(x.alpha) * fromHex(y.alpha)) % P),
+  beta: toHex((fromHex(x.beta) * fromHex(y.beta)) % P),
+});
+
+/** Encryption of zero with randomness zero, the identity for multiplyCiphertexts. */
+export const IDENTITY_CIPHERTEXT: ElGamalCiphertext = { alpha: '1', beta: '1' };
+
+/**
+ * Decrypts an exponential ElGamal ciphertext and recovers m by searching
+ * [0, maxValue]. Returns null when no m fits, which is what a wrong key or a
+ * corrupted ciphertext produces.
+ */
+export const decryptExponent = (ciphertext: ElGamalCiphertext, secret: bigint, maxValue: number): number | null => {
+  const alpha = fromHex(ciphertext.alpha);
+  const beta = fromHex(ciphertext.beta);
+  const gm = (beta * modPow(alpha, Q - mod(secret, Q), P)) % P;
+
+  let candidate = 1n;
+  for (let m = 0; m <= maxValue; m++) {
+    if (candidate === gm) return m;
+    candidate = (candidate * G) % P;
+  }
+  return null;
+};
+
+// --- Zero-knowledge proofs ---
+
+// g^-1, so dividing by g^m never needs a full-size modular inverse
+const G_INV = modPow(G, Q - 1n, P);
+
+// x^-e for a subgroup element x, computed as x^(q-e)
+export const powNeg = (x: bigint, e: bigint): bigint => modPow(x, Q - mod(e, Q), P);
+
+export const isSubgroupElement = (x: bigint): boolean => x > 1n && x < P && modPow(x, Q, P) === 1n;
+
+export const hashToScalar = async (...parts: (string | bigint)[]): Promise<bigint> =>
+  mod(fromHex(await sha256Hex(parts.map(p => typeof p === 'bigint' ? toHex(p) : p).join('|'))), Q);
+
+/** Proves (alpha, beta) encrypts m in {0, 1} under randomness r without revealing m. */
+export const proveZeroOne = async (
+  ciphertext: ElGamalCiphertext,
+  m: 0 | 1,
+  r: bigint,
+  publicKey: string,
+  context: string
+): Promise<ZeroOneProof> => {
+  const h = fromHex(publicKey);
+  const alpha = fromHex(ciphertext.alpha);
+  const beta = fromHex(ciphertext.beta);
+  // beta / g^j for each branch j
+  const betaOver = [beta, (beta * G_INV) % P];
+
+  // Simulate the false branch, commit honestly on the true one
+  const sim = (1 - m) as 0 | 1;
+  const cSim = randomScalar();
+  const zSim = randomScalar();
+  const w = randomScalar();
+  const a: bigint[] = [];
+  const b: bigint[] = [];
+  a[sim] = (modPow(G, zSim, P) * powNeg(alpha, cSim)) % P;
+  b[sim] = (modPow(h, zSim, P) * powNeg(betaOver[sim], cSim)) % P;
+  a[m] = modPow(G, w, P);
+  b[m] = modPow(h, w, P);
+
+  const c = await hashToScalar(context, publicKey, alpha, beta, a[0], b[0], a[1], b[1]);
+  const cReal = mod(c - cSim, Q);
+  const zReal = mod(w + cReal * r, Q);
+  const cs: bigint[] = [];
+  const zs: bigint[] = [];
+  cs[sim] = cSim; zs[sim] = zSim;
+  cs[m] = cReal; zs[m] = zReal;
+
+  return {
+    a0: toHex(a[0]), b0: toHex(b[0]), c0: toHex(cs[0]), z0: toHex(zs[0]),
+    a1: toHex(a[1]), b1: toHex(b[1]), c1: toHex(cs[1]), z1: toHex(zs[1]),
+  };
+};
+
+export const verifyZeroOne = async (
+  ciphertext: ElGamalCiphertext,
+  proof: ZeroOneProof,
+  publicKey: string,
+  context: string
+): Promise<boolean> => {
+  const h = fromHex(publicKey);
+  const alpha = fromHex(ciphertext.alpha);
+  const beta = fromHex(ciphertext.beta);
+  if (!isSubgroupElement(alpha) || !isSubgroupElement(beta)) return false;
+
+  const betaOver = [beta, (beta * G_INV) % P];
+  const branches = [
+    { a: fromHex(proof.a0), b: fromHex(proof.b0), c: fromHex(proof.c0), z: fromHex(proof.z0) },
+    { a: fromHex(proof.a1), b: fromHex(proof.b1), c: fromHex(proof.c1), z: fromHex(proof.z1) },
+  ];
+  const c = await hashToScalar(context, publicKey, alpha, beta, branches[0].a, branches[0].b, branches[1].a, branches[1].b);
+  if (mod(branches[0].c + branches[1].c, Q) !== c) return false;
+
+  return branches.every(({ a, b, c: cj, z }, j) =>
+    modPow(G, z, P) === (a * modPow(alpha, cj, P)) % P &&
+    modPow(h, z, P) === (b * modPow(betaOver[j], cj, P)) % P
+  );
+};
+
+/** Proves (alpha, beta) encrypts exactly `m` under randomness r. */
+export const proveEncryptionOf = async (
+  ciphertext: ElGamalCiphertext,
+  m: number,
+  r: bigint,
+  publicKey: string,
+  context: string
+): Promise<ChaumPedersenProof> => {
+  const h = fromHex(publicKey);
+  const w = randomScalar();
+  const a = modPow(G, w, P);
+  const b = modPow(h, w, P);
+  const c = await hashToScalar(context, publicKey, ciphertext.alpha, ciphertext.beta, String(m), a, b);
+  return { a: toHex(a), b: toHex(b), c: toHex(c), z: toHex(mod(w + c * r, Q)) };
+};
+
+export const verifyEncryptionOf = async (
+  ciphertext: ElGamalCiphertext,
+  m: number,
+  proof: ChaumPedersenProof,
+  publicKey: string,
+  context: string
+): Promise<boolean> => {
+  const h = fromHex(publicKey);
+  const alpha = fromHex(ciphertext.alpha);
+  const beta = fromHex(ciphertext.beta);
+  const a = fromHex(proof.a);
+  const b = fromHex(proof.b);
+  const z = fromHex(proof.z);
+  const c = await hashToScalar(context, publicKey, ciphertext.alpha, ciphertext.beta, String(m), a, b);
+  if (c !== fromHex(proof.c)) return false;
+
+  const betaOverGm = (beta * modPow(G_INV, BigInt(m), P)) % P;
+  return modPow(G, z, P) === (a * modPow(alpha, c, P)) % P &&
+    modPow(h, z, P) === (b * modPow(betaOverGm, c, P)) % P;
+};
+
+/**
+ * Proves (alpha, beta) decrypts to `m` under the secret behind the public
+ * key, i.e. log_g(h) = log_alpha(beta / g^m), without revealing the secret.
+ */
+export const proveDecryption = async (
+  ciphertext: ElGamalCiphertext,
+  m: number,
+  secret: bigint,
+  publicKey: string,
+  context: string
+): Promise<ChaumPedersenProof> => {
+  const w = randomScalar();
+  const a = modPow(G, w, P);
+  const b = modPow(fromHex(ciphertext.alpha), w, P);
+  const c = await hashToScalar(context, 'decrypt', publicKey, ciphertext.alpha, ciphertext.beta, String(m), a, b);
+  return { a: toHex(a), b: toHex(b), c: toHex(c), z: toHex(mod(w + c * secret, Q)) };
+};
+
+export const verifyDecryption = async (
+  ciphertext: ElGamalCiphertext,
+  m: number,
+  proof: ChaumPedersenProof,
+  publicKey: string,
+  context: string
+): Promise<boolean> => {
   try {
-    const payloadPart = encryptedData.split('.')[0];
-    const decryptedString = atob(payloadPart).split('').reverse().join('');
-    const parsed = JSON.parse(decryptedString);
-    return parsed.candidateId;
+    const h = fromHex(publicKey);
+    const alpha = fromHex(ciphertext.alpha);
+    const beta = fromHex(ciphertext.beta);
+    if (!isSubgroupElement(alpha)) return false;
+    const a = fromHex(proof.a);
+    const b = fromHex(proof.b);
+    const z = fromHex(proof.z);
+    const c = await hashToScalar(context, 'decrypt', publicKey, ciphertext.alpha, ciphertext.beta, String(m), a, b);
+    if (c !== fromHex(proof.c)) return false;
+
+    const betaOverGm = (beta * modPow(G_INV, BigInt(m), P)) % P;
+    return modPow(G, z, P) === (a * modPow(h, c, P)) % P &&
+      modPow(alpha, z, P) === (b * modPow(betaOverGm, c, P)) % P;
+  } catch (e) {
+    return false;
+  }
+};
+
+// --- Ballot layouts ---
+//
+// A single-choice ballot is one row holding a 0/1 per candidate. A ranked
+// ballot is a preference matrix: row r is a one-hot over the candidates plus
+// a final "no further preference" column, so row r names the voter's
+// (r+1)-th choice. Both reuse the same 0/1 and sum proofs.
+
+const ballotRows = (spec: BallotSpec) => spec.ranked ? spec.candidateIds.length : 1;
+const ballotColumns = (spec: BallotSpec) => spec.candidateIds.length + (spec.ranked ? 1 : 0);
+
+/** Number of ciphertexts in a ballot of this spec. */
+export const ballotWidth = (spec: BallotSpec) => ballotRows(spec) * ballotColumns(spec);
+
+const encodeChoices = (choices: string[], spec: BallotSpec): (0 | 1)[] => {
+  const columns = ballotColumns(spec);
+  const plaintext = new Array<0 | 1>(ballotWidth(spec)).fill(0);
+  for (let row = 0; row < ballotRows(spec); row++) {
+    // Rows past the last preference mark "no further preference"
+    const column = row < choices.length ? spec.candidateIds.indexOf(choices[row]) : columns - 1;
+    plaintext[row * columns + column] = 1;
+  }
+  return plaintext;
+};
+
+/**
+ * Reads the choices out of a 0/1 plaintext: the single candidate, or the
+ * preference list in order. Returns null for anything an honest booth could
+ * not have produced.
+ */
+export const decodeChoices = (plaintext: number[], spec: BallotSpec): string[] | null => {
+  if (plaintext.length !== ballotWidth(spec) || plaintext.some(m => m !== 0 && m !== 1)) return null;
+  const columns = ballotColumns(spec);
+  const choices: string[] = [];
+  let finished = false;
+  for (let row = 0; row < ballotRows(spec); row++) {
+    const cells = plaintext.slice(row * columns, (row + 1) * columns);
+    if (cells.reduce((acc, m) => acc + m, 0) !== 1) return null;
+    const column = cells.indexOf(1);
+    if (spec.ranked && column === columns - 1) {
+      finished = true;
+      continue;
+    }
+    const candidateId = spec.candidateIds[column];
+    if (finished || choices.includes(candidateId)) return null;
+    choices.push(candidateId);
+  }
+  return choices;
+};
+
+// Fiat-Shamir context binding every proof to its contest, candidate order and method
+const ballotContext = (spec: BallotSpec) => `${spec.ranked ? 'ranked-ballot' : 'ballot'}:${spec.contestId}:${spec.candidateIds.join(',')}`;
+
+const sumRandomness = (values: bigint[]) => values.reduce((acc, r) => mod(acc + r, Q), 0n);
+
+/**
+ * Encrypts one contest's ballot with its well-formedness proofs: a single
+ * choice, or an ordered preference list when the spec is ranked. The
+ * per-component randomness is returned so the booth can reveal it if the
+ * voter challenges the ballot; a cast ballot's randomness must be discarded.
+ */
+export const encryptBallot = async (
+  choices: string[],
+  publicKey: string,
+  spec: BallotSpec
+): Promise<{ ballot: EncryptedBallot; randomness: string[] }> => {
+  const unknown = choices.find(id => !spec.candidateIds.includes(id));
+  if (unknown) throw new Error(`Unknown candidate ${unknown}`);
+  if (new Set(choices).size !== choices.length) throw new Error('A candidate can only be chosen once');
+  if (spec.ranked ? choices.length === 0 : choices.length !== 1) {
+    throw new Error(spec.ranked ? 'Rank at least one candidate' : 'Choose exactly one candidate');
+  }
+
+  const context = ballotContext(spec);
+  const plaintexts = encodeChoices(choices, spec);
+  const randomness = plaintexts.map(() => randomScalar());
+  const ciphertexts = plaintexts.map((m, i) => encryptExponent(m, publicKey, randomness[i]));
+
+  const zeroOneProofs: ZeroOneProof[] = [];
+  for (let i = 0; i < ciphertexts.length; i++) {
+    zeroOneProofs.push(await proveZeroOne(ciphertexts[i], plaintexts[i], randomness[i], publicKey, context));
+  }
+  const total = ciphertexts.reduce(multiplyCiphertexts, IDENTITY_CIPHERTEXT);
+  const sumProof = await proveEncryptionOf(total, ballotRows(spec), sumRandomness(randomness), publicKey, context);
+
+  const ballot: EncryptedBallot = { contestId: spec.contestId, candidateIds: spec.candidateIds, ciphertexts, zeroOneProofs, sumProof };
+  if (spec.ranked) {
+    const columns = ballotColumns(spec);
+    const rowSumProofs: ChaumPedersenProof[] = [];
+    for (let row = 0; row < ballotRows(spec); row++) {
+      const cells = ciphertexts.slice(row * columns, (row + 1) * columns);
+      const r = sumRandomness(randomness.slice(row * columns, (row + 1) * columns));
+      rowSumProofs.push(await proveEncryptionOf(cells.reduce(multiplyCiphertexts, IDENTITY_CIPHERTEXT), 1, r, publicKey, `${context}:row${row}`));
+    }
+    const columnProofs: ZeroOneProof[] = [];
+    for (let column = 0; column < spec.candidateIds.length; column++) {
+      const indices = Array.from({ length: ballotRows(spec) }, (_, row) => row * columns + column);
+      const product = indices.map(i => ciphertexts[i]).reduce(multiplyCiphertexts, IDENTITY_CIPHERTEXT);
+      const m = choices.includes(spec.candidateIds[column]) ? 1 : 0;
+      columnProofs.push(await proveZeroOne(product, m, sumRandomness(indices.map(i => randomness[i])), publicKey, `${context}:column${column}`));
+    }
+    ballot.ranked = { rowSumProofs, columnProofs };
+  }
+  return { ballot, randomness: randomness.map(toHex) };
+};
+
+/**
+ * Checks that a contest ballot proves it is an honest ballot of `spec`: one
+ * candidate for a single-choice ballot, or distinct preferences for a ranked
+ * one. This runs on ingest and again before the mix.
+ */
+export const verifyBallotProofs = async (ballot: EncryptedBallot | null, publicKey: string, spec: BallotSpec): Promise<boolean> => {
+  if (!ballot) return false;
+  const { candidateIds } = spec;
+  if (ballot.contestId !== spec.contestId) return false;
+  if (ballot.candidateIds.length !== candidateIds.length || ballot.candidateIds.some((id, i) => id !== candidateIds[i])) return false;
+  if (!!ballot.ranked !== spec.ranked || ballot.ciphertexts.length !== ballotWidth(spec)) return false;
+  if (!Array.isArray(ballot.zeroOneProofs) || ballot.zeroOneProofs.length !== ballot.ciphertexts.length || !ballot.sumProof) return false;
+
+  try {
+    const context = ballotContext(spec);
+    for (let i = 0; i < ballot.ciphertexts.length; i++) {
+      if (!(await verifyZeroOne(ballot.ciphertexts[i], ballot.zeroOneProofs[i], publicKey, context))) return false;
+    }
+    const total = ballot.ciphertexts.reduce(multiplyCiphertexts, IDENTITY_CIPHERTEXT);
+    if (!(await verifyEncryptionOf(total, ballotRows(spec), ballot.sumProof, publicKey, context))) return false;
+    if (!ballot.ranked) return true;
+
+    const { rowSumProofs, columnProofs } = ballot.ranked;
+    const columns = ballotColumns(spec);
+    if (!Array.isArray(rowSumProofs) || rowSumProofs.length !== ballotRows(spec)) return false;
+    if (!Array.isArray(columnProofs) || columnProofs.length !== candidateIds.length) return false;
+    for (let row = 0; row < ballotRows(spec); row++) {
+      const product = ballot.ciphertexts.slice(row * columns, (row + 1) * columns).reduce(multiplyCiphertexts, IDENTITY_CIPHERTEXT);
+      if (!(await verifyEncryptionOf(product, 1, rowSumProofs[row], publicKey, `${context}:row${row}`))) return false;
+    }
+    for (let column = 0; column < candidateIds.length; column++) {
+      const product = ballot.ciphertexts.filter((_, i) => i % columns === column).reduce(multiplyCiphertexts, IDENTITY_CIPHERTEXT);
+      if (!(await verifyZeroOne(product, columnProofs[column], publicKey, `${context}:column${column}`))) return false;
+    }
+    return true;
+  } catch (e) {
+    // Malformed proof fields (non-hex values) land here
+    return false;
+  }
+};
+
+/**
+ * Benaloh challenge check: re-encrypts every component with the revealed
+ * randomness and returns the choices the ballot encodes (in preference
+ * order when ranked), or null if the ciphertexts are not an honest encryption.
+ */
+export const auditBallot = (ballot: EncryptedBallot, randomness: string[], publicKey: string): string[] | null => {
+  if (randomness.length !== ballot.ciphertexts.length) return null;
+
+  const plaintext: number[] = [];
+  for (let i = 0; i < ballot.ciphertexts.length; i++) {
+    const r = fromHex(randomness[i]);
+    const { alpha, beta } = ballot.ciphertexts[i];
+    const asZero = encryptExponent(0, publicKey, r);
+    const asOne = encryptExponent(1, publicKey, r);
+    if (alpha !== asZero.alpha) return null;
+    if (beta === asOne.beta) plaintext.push(1);
+    else if (beta === asZero.beta) plaintext.push(0);
+    else return null;
+  }
+  return decodeChoices(plaintext, { contestId: ballot.contestId, candidateIds: ballot.candidateIds, ranked: !!ballot.ranked });
+};
+
+// A contest ballot is well-formed if its vector has the width its layout needs and every component is in the group
+const isWellFormed = (ballot: EncryptedBallot): boolean => {
+  if (typeof ballot?.contestId !== 'string' || !Array.isArray(ballot.candidateIds) || !Array.isArray(ballot.ciphertexts)) return false;
+  if (ballotWidth({ contestId: ballot.contestId, candidateIds: ballot.candidateIds, ranked: !!ballot.ranked }) !== ballot.ciphertexts.length) return false;
+  const inRange = (v: string) => /^[0-9a-f]+$/.test(v) && fromHex(v) > 0n && fromHex(v) < P;
+  return ballot.ciphertexts.every(c => inRange(c.alpha) && inRange(c.beta));
+};
+
+/** Parses a stored vote into its contest ballots, returning null if any is not a well-formed vector. */
+export const parseBallots = (encryptedData: string): EncryptedBallot[] | null => {
+  try {
+    const ballots = JSON.parse(encryptedData) as EncryptedBallot[];
+    return Array.isArray(ballots) && ballots.every(isWellFormed) ? ballots : null;
   } catch (e) {
-    console.error("Decryption failed", e);
     return null;
   }
 };
+
+/** The ballot a stored vote holds for one contest, or null if the vote is malformed or lacks it. */
+export const contestBallot = (encryptedData: string, contestId: string): EncryptedBallot | null =>
+  parseBallots(encryptedData)?.find(b => b.contestId === contestId) ?? null;
+
+/**
+ * Checks a whole stored vote: exactly one proven ballot per contest spec, in
+ * contest order.
+ */
+export const verifyVoteProofs = async (encryptedData: string, publicKey: string, specs: BallotSpec[]): Promise<boolean> => {
+  const ballots = parseBallots(encryptedData);
+  if (!ballots || ballots.length !== specs.length) return false;
+  for (let i = 0; i < specs.length; i++) {
+    if (!(await verifyBallotProofs(ballots[i], publicKey, specs[i]))) return false;
+  }
+  return true;
+};
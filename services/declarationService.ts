@@ -0,0 +1,269 @@
+// Result declaration.
+//
+// Decrypting the ballots produces counts; the result only becomes official
+// when the returning officer declares it, which publishes the election. Each
+// contest's winners and winning margin come from its count. A tie for the
+// last winning place of a plurality contest is settled by drawing lots: the
+// tied candidates are ordered by SHA-256 of a random seed and their id, and
+// the seed is logged and exported so the draw can be replayed. An STV count
+// stops at a tie for exclusion or for the last seats that earlier rounds do
+// not separate; the drawn seed then orders every candidate of the contest,
+// and the count is run again with that order settling this tie and any
+// later one.
+//
+// Before declaring, the returning officer may order a recount of any contest.
+// It starts again from the ledger, not from the first count's output: the
+// trustees reconstruct the key once more, every ballot's proofs are checked
+// again, and each source (booth or postal) is counted afresh - from the
+// homomorphic aggregate of its ledger ballots, or, where ballots are opened
+// one by one, from a new mix of them. A recount that differs from the first
+// count blocks the declaration.
+
+import { ContestDeclaration, DrawOfLots, ElectionConfig, PublishedTally, Recount, SecurityLog, SourceTally, VoteRecord } from '../types';
+import { NOTA_CANDIDATE } from '../constants';
+import { sha256Hex } from './cryptoService';
+import { VOTE_SOURCES, ballotSpec, contestSeats, sourceOfVote, votesForConstituency } from './ballotService';
+import { computeMerkleRoot } from './merkleService';
+import { mixBallots } from './mixnetService';
+import { samePreferentialCount } from './stvService';
+import { combineSourceTallies, leadingCandidates, opensPerBallot, tallyLedgerAggregate, tallyMixedBallots } from './tallyService';
+
+/** Candidates tied across the last winning place, and how many of the remaining seats they share. */
+export interface Tie {
+  candidateIds: string[];
+  places: number;
+}
+
+export interface ContestOutcome {
+  winners: string[];
+  margin: number | null;
+  tie: Tie | null; // Unsettled; winners then holds only the clear winners
+}
+
+const sameTally = (tally: Pick<PublishedTally, 'constituency' | 'contestId'>) =>
+  (other: Pick<PublishedTally, 'constituency' | 'contestId'>) => other.constituency === tally.constituency && other.contestId === tally.contestId;
+
+const nameOf = (config: ElectionConfig, candidateId: string) =>
+  [...config.candidates, NOTA_CANDIDATE].find(c => c.id === candidateId)?.name ?? candidateId;
+
+const contestLabel = (config: ElectionConfig, tally: Pick<PublishedTally, 'constituency' | 'contestId'>) =>
+  `${tally.constituency} / ${config.contests.find(c => c.id === tally.contestId)?.name ?? tally.contestId}`;
+
+const systemLog = (level: SecurityLog['level'], message: string, timestamp: number): SecurityLog => ({
+  id: crypto.randomUUID(),
+  timestamp,
+  level,
+  category: 'VOTE',
+  message,
+});
+
+/** The tie a plurality count leaves for the last winning place, or the tie that stopped an STV count, if any. */
+export const findTie = (tally: PublishedTally, seats: number): Tie | null => {
+  if (tally.preferential) return tally.preferential.tie ?? null;
+  const ordered = tally.results.filter(r => !r.isNota && r.count > 0).sort((a, b) => b.count - a.count);
+  const last = ordered[seats - 1];
+  if (!last || ordered[seats]?.count !== last.count) return null;
+  const clear = leadingCandidates(tally.results, seats);
+  return { candidateIds: ordered.filter(r => r.count === last.count).map(r => r.candidateId), places: seats - clear.length };
+};
+
+const sameTie = (draw: DrawOfLots, tie: Tie) =>
+  draw.places === tie.places && draw.candidateIds.length === tie.candidateIds.length && tie.candidateIds.every(id => draw.candidateIds.includes(id));
+
+/**
+ * Winners and margin of one contest. A draw settles the tie only if it was
+ * drawn between exactly the candidates still tied. The margin is between
+ * the last winner and the best placed loser, in the final STV round for a
+ * preferential count; it is null when nobody lost.
+ */
+export const contestOutcome = (tally: PublishedTally, seats: number, draw?: DrawOfLots | null): ContestOutcome => {
+  if (tally.preferential) {
+    const { elected, rounds } = tally.preferential;
+    const final = rounds[rounds.length - 1]?.tallies ?? {};
+    const losers = Object.keys(final).filter(id => !elected.includes(id)).map(id => final[id]);
+    const lastElected = elected[elected.length - 1];
+    const tie = findTie(tally, seats);
+    const margin = !tie && lastElected !== undefined && losers.length > 0 ? final[lastElected] - Math.max(...losers) : null;
+    return { winners: elected, margin, tie };
+  }
+
+  const clear = leadingCandidates(tally.results, seats);
+  const tie = findTie(tally, seats);
+  const settled = tie && draw && sameTie(draw, tie) ? draw.chosen : null;
+  const winners = settled ? [...clear, ...settled] : clear;
+  const countOf = (id: string) => tally.results.find(r => r.candidateId === id)?.count ?? 0;
+  const losers = tally.results.filter(r => !r.isNota && !winners.includes(r.candidateId)).map(r => r.count);
+  const margin = winners.length > 0 && losers.length > 0 && (!tie || settled)
+    ? Math.min(...winners.map(countOf)) - Math.max(...losers)
+    : null;
+  return { winners, margin, tie: settled ? null : tie };
+};
+
+// The candidates in lot order: ascending SHA-256 of seed and id
+const lotOrder = async (seed: string, candidateIds: string[]): Promise<string[]> => {
+  const keys = await Promise.all(candidateIds.map(id => sha256Hex(`lot:${seed}:${id}`)));
+  return candidateIds.map((id, i) => ({ id, key: keys[i] })).sort((a, b) => a.key < b.key ? -1 : a.key > b.key ? 1 : 0).map(c => c.id);
+};
+
+/** Draws lots between tied candidates with a fresh random seed. */
+export const drawLots = async (tally: PublishedTally, tie: Tie, drawnBy: string, drawnAt = Date.now()): Promise<DrawOfLots> => {
+  const seed = Array.from(crypto.getRandomValues(new Uint8Array(32)), b => b.toString(16).padStart(2, '0')).join('');
+  const order = await lotOrder(seed, tie.candidateIds);
+  return {
+    constituency: tally.constituency,
+    contestId: tally.contestId,
+    candidateIds: tie.candidateIds,
+    places: tie.places,
+    seed,
+    chosen: order.slice(0, tie.places),
+    drawnBy,
+    drawnAt,
+  };
+};
+
+/** Whether a draw's winners follow from its seed. */
+export const replayDraw = async (draw: DrawOfLots): Promise<boolean> => {
+  const order = await lotOrder(draw.seed, draw.candidateIds);
+  return JSON.stringify(order.slice(0, draw.places)) === JSON.stringify(draw.chosen);
+};
+
+/** Every candidate of the draw's contest in lot order, which settles all ties of an STV count. */
+export const drawOrder = (draw: DrawOfLots, candidateIds: string[]): Promise<string[]> => lotOrder(draw.seed, candidateIds);
+
+/** The drawn order of every candidate of the draw's contest, which settles the ties of an STV count. */
+export const contestLotOrder = (config: ElectionConfig, draw: DrawOfLots): Promise<string[]> =>
+  drawOrder(draw, ballotSpec(config, draw.constituency, draw.contestId).candidateIds);
+
+/**
+ * Adds a draw to the election and records its seed and result in the log. An
+ * STV contest is counted again with the drawn order (see contestLotOrder),
+ * which may settle later ties of the same count too.
+ */
+export const recordDraw = (config: ElectionConfig, draw: DrawOfLots, lotOrder: string[]): ElectionConfig => {
+  const names = (ids: string[]) => ids.map(id => nameOf(config, id)).join(', ');
+  const tally = config.tally?.find(sameTally(draw));
+  let settled = config.tally;
+  let outcome = `${draw.places} place(s) to ${names(draw.chosen)}`;
+  if (tally?.preferential) {
+    const spec = ballotSpec(config, tally.constituency, tally.contestId);
+    const recounted = combineSourceTallies(tally.constituency, spec, tally.sources, tally.preferential.seats, lotOrder);
+    settled = config.tally!.map(t => t === tally ? { ...tally, preferential: recounted.preferential } : t);
+    outcome = `lot order ${names(lotOrder)} settles this and any later tie; STV count run again, elected ${names(recounted.preferential?.elected ?? []) || 'nobody'}`;
+  }
+  const log = systemLog('WARNING',
+    `Tie in ${contestLabel(config, draw)} between ${names(draw.candidateIds)} settled by lot, drawn by ${draw.drawnBy}. ` +
+    `Seed ${draw.seed}; ${outcome}.`,
+    draw.drawnAt);
+  return { ...config, tally: settled, draws: [...config.draws, draw], logs: [log, ...config.logs] };
+};
+
+/**
+ * Recounts one contest from the ledger with the reconstructed election
+ * secret, the same way the election's tally mode counted it the first time,
+ * and compares the result with the first count. Throws if a ballot cannot be
+ * decrypted.
+ */
+export const recountContest = async (
+  config: ElectionConfig,
+  votes: VoteRecord[],
+  tally: PublishedTally,
+  secret: bigint,
+  orderedBy: string,
+  countedAt = Date.now()
+): Promise<Recount> => {
+  const recount = (differences: string[]): Recount =>
+    ({ constituency: tally.constituency, contestId: tally.contestId, orderedBy, countedAt, matches: differences.length === 0, differences });
+  const { publicKey, bulletinBoard } = config;
+  if (!publicKey || !bulletinBoard || (await computeMerkleRoot(votes)) !== bulletinBoard.root) {
+    return recount(['The ballot ledger no longer matches the bulletin board frozen at close.']);
+  }
+
+  const differences: string[] = [];
+  const seats = contestSeats(config.contests, tally.contestId);
+  const spec = ballotSpec(config, tally.constituency, tally.contestId);
+  const ledger = votesForConstituency(votes, config.booths, tally.constituency);
+  const sources: SourceTally[] = [];
+  for (const source of VOTE_SOURCES) {
+    const label = source === 'POSTAL' ? 'Postal ballots' : 'Booth ballots';
+    const subset = ledger.filter(v => sourceOfVote(v) === source);
+    let rejected: string[];
+    if (opensPerBallot(config.tallyMode, spec)) {
+      // Opened ballots are mixed afresh, so the recount cannot link a plaintext to its ledger record either
+      const mixed = await mixBallots(subset, spec, publicKey, tally.constituency, source, bulletinBoard.root);
+      sources.push(await tallyMixedBallots(mixed, secret, publicKey, seats));
+      rejected = mixed.excludedVoteIds;
+    } else {
+      const counted = await tallyLedgerAggregate(subset, spec, source, secret, publicKey);
+      sources.push(counted.tally);
+      rejected = counted.rejected;
+    }
+
+    const excluded = config.mixedBallots?.find(m => sameTally(tally)(m) && m.source === source)?.excludedVoteIds ?? [];
+    if (rejected.length !== excluded.length || rejected.some(id => !excluded.includes(id))) {
+      differences.push(`${label}: ${excluded.length} excluded at the first count, ${rejected.length} failing their proofs at the recount.`);
+    }
+    const first = tally.sources.find(part => part.source === source)?.results ?? [];
+    const again = sources[sources.length - 1].results;
+    if (again.some(r => first.find(f => f.candidateId === r.candidateId)?.count !== r.count)) {
+      differences.push(`${label}: ${again.map(r => `${nameOf(config, r.candidateId)} ${r.count}`).join(', ')} at the recount; the first count differs.`);
+    }
+  }
+
+  const draw = drawFor(config, tally);
+  const counted = combineSourceTallies(tally.constituency, spec, sources, seats, draw && tally.preferential ? await drawOrder(draw, spec.candidateIds) : undefined);
+  tally.results.forEach(first => {
+    const again = counted.results.find(r => r.candidateId === first.candidateId)?.count ?? 0;
+    if (again !== first.count) differences.push(`${nameOf(config, first.candidateId)}: ${first.count} at the first count, ${again} at the recount.`);
+  });
+  if (counted.invalid !== tally.invalid) differences.push(`Invalid ballots: ${tally.invalid} at the first count, ${counted.invalid} at the recount.`);
+  if (!samePreferentialCount(counted.preferential, tally.preferential)) {
+    differences.push('The STV rounds differ from the first count.');
+  }
+  return recount(differences);
+};
+
+/** Adds a recount to the election and logs its outcome; a differing recount is critical. */
+export const recordRecount = (config: ElectionConfig, recount: Recount): ElectionConfig => {
+  const log = recount.matches
+    ? systemLog('INFO', `Recount of ${contestLabel(config, recount)} ordered by ${recount.orderedBy}: matches the first count.`, recount.countedAt)
+    : systemLog('CRITICAL', `Recount of ${contestLabel(config, recount)} ordered by ${recount.orderedBy} DIFFERS from the first count: ${recount.differences.join(' ')}`, recount.countedAt);
+  return { ...config, recounts: [...config.recounts, recount], logs: [log, ...config.logs] };
+};
+
+/** The most recent recount of a contest, if one was ordered. */
+export const latestRecount = (config: ElectionConfig, tally: Pick<PublishedTally, 'constituency' | 'contestId'>): Recount | null =>
+  config.recounts.filter(sameTally(tally)).reduce<Recount | null>((latest, r) => !latest || r.countedAt >= latest.countedAt ? r : latest, null);
+
+/** The draw settling a contest's tie, if lots were drawn. */
+export const drawFor = (config: ElectionConfig, tally: Pick<PublishedTally, 'constituency' | 'contestId'>): DrawOfLots | null =>
+  config.draws.find(sameTally(tally)) ?? null;
+
+/** Why the results cannot be declared yet, or null. */
+export const declarationProblem = (config: ElectionConfig): string | null => {
+  if (config.status !== 'CLOSED' || !config.tally) return 'Decrypt the results before declaring them.';
+  for (const tally of config.tally) {
+    const { tie } = contestOutcome(tally, contestSeats(config.contests, tally.contestId), drawFor(config, tally));
+    if (tie) return `${contestLabel(config, tally)} is tied between ${tie.candidateIds.map(id => nameOf(config, id)).join(', ')}. Draw lots first.`;
+    if (latestRecount(config, tally)?.matches === false) return `The recount of ${contestLabel(config, tally)} differs from the first count. The result cannot be declared.`;
+  }
+  return null;
+};
+
+/** Declares every contest's result and publishes the election. Callers check declarationProblem first. */
+export const declareResults = (config: ElectionConfig, declaredBy: string, declaredAt = Date.now()): ElectionConfig => {
+  const contests: ContestDeclaration[] = (config.tally ?? []).map(tally => {
+    const draw = drawFor(config, tally);
+    const { winners, margin } = contestOutcome(tally, contestSeats(config.contests, tally.contestId), draw);
+    return { constituency: tally.constituency, contestId: tally.contestId, winners, margin, draw };
+  });
+  const summary = contests.map(c =>
+    `${contestLabel(config, c)}: ${c.winners.map(id => nameOf(config, id)).join(', ') || 'no winner'}` +
+    (c.draw ? ' (by lot)' : c.margin !== null ? ` (margin ${Number.isInteger(c.margin) ? c.margin : c.margin.toFixed(2)})` : ''));
+  const log = systemLog('INFO', `Results declared by returning officer ${declaredBy}. ${summary.join('; ')}.`, declaredAt);
+  return {
+    ...config,
+    status: 'PUBLISHED',
+    declaration: { declaredBy, declaredAt, contests },
+    logs: [log, ...config.logs],
+  };
+};
@@ -0,0 +1,347 @@
+// Published election record.
+//
+// Once results are published the whole election can be exported as one JSON
+// document, and checked end to end by anyone: the ledger hash chain, the
+// bulletin board root, booth and postal desk signatures, the postal envelope
+// register, roll check-in tokens and turnout, ballot proofs, the shuffle
+// proofs, every decryption proof (of aggregate sums or of opened ballots),
+// the final counts and the declared winners, including any draw of lots.
+// Nothing here relies on the app's own verdicts - each check is recomputed
+// from the raw record.
+
+import { ElectionConfig, ElectionRecord, VoteRecord } from '../types';
+import { contestBallot, verifyBallotProofs, verifyDecryption } from './cryptoService';
+import { verifyLedger } from './ledgerService';
+import { computeMerkleRoot } from './merkleService';
+import { verifyVoteSignature } from './boothSigningService';
+import { verifyBallotToken } from './ballotTokenService';
+import { boothTurnout } from './electoralRollService';
+import { verifyElectionMix } from './mixnetService';
+import { ballotSpec, contestSeats, listConstituencies, sourceOfVote, votesForConstituency } from './ballotService';
+import { combineSourceTallies, countDecryptedBallots, decryptionContext, multiplyMixedBallots } from './tallyService';
+import { samePreferentialCount } from './stvService';
+import { contestOutcome, drawOrder, replayDraw } from './declarationService';
+
+export const ELECTION_RECORD_FORMAT = 'securevote-election-record/1';
+
+export interface RecordCheck {
+  label: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface RecordVerification {
+  valid: boolean;
+  checks: RecordCheck[];
+}
+
+/** Assembles the export for a declared election. Booth auth keys are left out. */
+export const buildElectionRecord = (config: ElectionConfig, votes: VoteRecord[]): ElectionRecord => {
+  if (config.status !== 'PUBLISHED' || !config.publicKey || !config.ledgerHead || !config.bulletinBoard || !config.mixedBallots || !config.tally || !config.declaration || !config.tokenKey) {
+    throw new Error('Only a published election can be exported');
+  }
+  return {
+    format: ELECTION_RECORD_FORMAT,
+    exportedAt: Date.now(),
+    ballot: { id: config.id, name: config.name, type: config.type, contests: config.contests, ballotOrder: config.ballotOrder, parties: config.parties, candidates: config.candidates },
+    booths: config.booths.map(b => ({ id: b.id, constituency: b.constituency, signingPublicKey: b.signingPublicKey })),
+    tokenKey: config.tokenKey,
+    turnout: boothTurnout(config),
+    trustees: config.trustees,
+    threshold: config.threshold,
+    publicKey: config.publicKey,
+    postalDeskKey: config.postalDeskKey,
+    postalEnvelopes: config.postalEnvelopes,
+    votes,
+    ledgerHead: config.ledgerHead,
+    bulletinBoard: config.bulletinBoard,
+    mixedBallots: config.mixedBallots,
+    tally: config.tally,
+    declaration: config.declaration,
+    logs: config.logs,
+  };
+};
+
+// --- Record shape ---
+//
+// A record comes from a file anyone may have edited or truncated, so its
+// shape is checked before any check trusts a field to be there.
+
+// Where and why a value does not fit, e.g. ".votes[3].voteId: expected a string", or null
+type Shape = (value: unknown) => string | null;
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const str: Shape = v => typeof v === 'string' ? null : ': expected a string';
+const num: Shape = v => typeof v === 'number' && Number.isFinite(v) ? null : ': expected a number';
+const bool: Shape = v => typeof v === 'boolean' ? null : ': expected true or false';
+const oneOf = (...values: string[]): Shape => v => values.includes(v as string) ? null : `: expected one of ${values.join(', ')}`;
+const nullable = (shape: Shape): Shape => v => v === null ? null : shape(v);
+const optional = (shape: Shape): Shape => v => v === undefined ? null : shape(v);
+const arrayOf = (shape: Shape): Shape => v => {
+  if (!Array.isArray(v)) return ': expected a list';
+  for (const [i, item] of v.entries()) {
+    const problem = shape(item);
+    if (problem) return `[${i}]${problem}`;
+  }
+  return null;
+};
+const object = (fields: Record<string, Shape>): Shape => v => {
+  if (!isObject(v)) return ': expected an object';
+  for (const [key, shape] of Object.entries(fields)) {
+    const problem = shape(v[key]);
+    if (problem) return `.${key}${problem}`;
+  }
+  return null;
+};
+
+const ciphertextShape = object({ alpha: str, beta: str });
+const decryptionProofShape = object({ a: str, b: str, c: str, z: str });
+const sourceShape = oneOf('BOOTH', 'POSTAL');
+const resultShape = object({ candidateId: str, count: num });
+const sourceTallyShape: Shape = v => object({ source: sourceShape, mode: oneOf('AGGREGATE', 'PER_BALLOT'), results: arrayOf(resultShape), invalid: num })(v) ?? (
+  isObject(v) && v.mode === 'AGGREGATE'
+    ? object({ aggregate: object({ ciphertexts: arrayOf(ciphertextShape), counts: arrayOf(num), decryptionProofs: arrayOf(decryptionProofShape) }) })(v)
+    : object({ decryptedBallots: arrayOf(object({ plaintext: arrayOf(num), decryptionProofs: arrayOf(decryptionProofShape) })) })(v)
+);
+const shuffleProofShape = object({
+  permutationCommitments: arrayOf(str), chainCommitments: arrayOf(str), t1: str, t2: str, t3: str, t4: arrayOf(ciphertextShape),
+  tHat: arrayOf(str), s1: str, s2: str, s3: str, s4: arrayOf(str), sHat: arrayOf(str), sTilde: arrayOf(str),
+});
+const drawShape = object({ constituency: str, contestId: str, candidateIds: arrayOf(str), places: num, seed: str, chosen: arrayOf(str), drawnBy: str });
+
+const recordShape = object({
+  format: str,
+  ballot: object({
+    id: str, name: str, type: str,
+    contests: arrayOf(object({ id: str, name: str, seats: num })),
+    candidates: arrayOf(object({ id: str, name: str, constituency: str, contestId: str })),
+  }),
+  booths: arrayOf(object({ id: str, constituency: str, signingPublicKey: nullable(str) })),
+  tokenKey: object({ n: str, e: str }),
+  turnout: arrayOf(object({ boothId: str, electors: num, checkedIn: num })),
+  postalDeskKey: nullable(str),
+  postalEnvelopes: arrayOf(object({ serial: str, constituency: str, status: oneOf('ACCEPTED', 'REJECTED') })),
+  trustees: arrayOf(object({})),
+  threshold: num,
+  publicKey: str,
+  votes: arrayOf(object({
+    voteId: str, encryptedData: str, timestamp: num, source: optional(sourceShape), boothId: str, constituency: optional(str),
+    ballotToken: optional(object({ token: str, signature: str })), signature: str, previousHash: str, integrityHash: str,
+  })),
+  ledgerHead: object({ count: num, hash: str }),
+  bulletinBoard: object({ root: str, leafCount: num, frozenAt: num }),
+  mixedBallots: arrayOf(object({
+    constituency: str, contestId: str, source: sourceShape, boardRoot: str, candidateIds: arrayOf(str), ranked: bool,
+    excludedVoteIds: arrayOf(str), ciphertexts: arrayOf(arrayOf(ciphertextShape)), proof: shuffleProofShape,
+  })),
+  tally: arrayOf(object({
+    constituency: str, contestId: str, results: arrayOf(resultShape), sources: arrayOf(sourceTallyShape), invalid: num,
+    preferential: optional(object({ seats: num, quota: num, rounds: arrayOf(object({})), elected: arrayOf(str), tie: optional(object({ candidateIds: arrayOf(str), places: num })) })),
+  })),
+  declaration: nullable(object({
+    declaredBy: str, declaredAt: num,
+    contests: arrayOf(object({ constituency: str, contestId: str, winners: arrayOf(str), margin: nullable(num), draw: nullable(drawShape) })),
+  })),
+  logs: arrayOf(object({})),
+});
+
+/** Why a parsed file is not an election record this verifier can check, or null. */
+export const recordShapeProblem = (value: unknown): string | null => {
+  if (isObject(value) && value.format !== ELECTION_RECORD_FORMAT) return `Unsupported format ${String(value.format)}`;
+  const problem = recordShape(value);
+  return problem ? `record${problem}` : null;
+};
+
+/** Independently re-verifies every claim in an exported record. */
+export const verifyElectionRecord = async (record: ElectionRecord): Promise<RecordVerification> => {
+  const checks: RecordCheck[] = [];
+  const check = (label: string, passed: boolean, detail: string) => { checks.push({ label, passed, detail }); };
+
+  const shapeProblem = recordShapeProblem(record);
+  if (shapeProblem) {
+    check('Record format', false, shapeProblem);
+    return { valid: false, checks };
+  }
+
+  const { votes, publicKey, mixedBallots, tally } = record;
+  const election = { type: record.ballot.type, contests: record.ballot.contests, booths: record.booths, candidates: record.ballot.candidates };
+  const contestName = (contestId: string) => record.ballot.contests.find(c => c.id === contestId)?.name ?? contestId;
+
+  // 1. Ledger hash chain and bulletin board
+  const ledger = await verifyLedger(votes, record.ledgerHead);
+  check('Ledger hash chain', ledger.valid,
+    ledger.valid ? `${votes.length} records chained to head ${record.ledgerHead.hash}` : `${ledger.fault} at record #${(ledger.brokenAt ?? 0) + 1}`);
+
+  const root = await computeMerkleRoot(votes);
+  const boardValid = root === record.bulletinBoard.root && votes.length === record.bulletinBoard.leafCount;
+  check('Bulletin board root', boardValid, boardValid ? `Merkle root ${root}` : `Recomputed root ${root} does not match ${record.bulletinBoard.root}`);
+
+  // 2. Booth and postal desk signatures
+  const unsigned: string[] = [];
+  for (const vote of votes) {
+    const key = sourceOfVote(vote) === 'POSTAL' ? record.postalDeskKey : record.booths.find(b => b.id === vote.boothId)?.signingPublicKey;
+    if (!key || !(await verifyVoteSignature(vote, key))) unsigned.push(vote.voteId);
+  }
+  const postalVotes = votes.filter(v => sourceOfVote(v) === 'POSTAL');
+  check('Booth signatures', unsigned.length === 0,
+    unsigned.length === 0
+      ? `All ${votes.length} ballots signed by an enrolled booth key${postalVotes.length > 0 ? ` or the postal desk key (${postalVotes.length} postal)` : ''}`
+      : `Bad or missing signature on ${unsigned.join(', ')}`);
+
+  // 3. Every postal ballot on the ledger comes from an accepted envelope of its constituency
+  const envelopes = record.postalEnvelopes ?? [];
+  const serials = new Set(envelopes.map(e => e.serial));
+  const unbalanced = listConstituencies(election).flatMap(constituency => {
+    const accepted = envelopes.filter(e => e.status === 'ACCEPTED' && e.constituency === constituency).length;
+    const cast = votesForConstituency(postalVotes, record.booths, constituency).length;
+    return accepted === cast ? [] : [`${constituency}: ${accepted} envelope(s) accepted, ${cast} postal ballot(s) on the ledger`];
+  });
+  if (serials.size !== envelopes.length) unbalanced.push('Envelope serials are repeated');
+  if (postalVotes.some(v => !v.constituency)) unbalanced.push('A postal ballot names no constituency');
+  check('Postal envelopes', unbalanced.length === 0,
+    unbalanced.length === 0
+      ? `${envelopes.filter(e => e.status === 'ACCEPTED').length} envelope(s) accepted, ${envelopes.filter(e => e.status === 'REJECTED').length} rejected`
+      : unbalanced.join('; '));
+
+  // 4. Every booth ballot spends its own roll desk token, and no booth has more ballots than check-ins
+  const badTokens: string[] = [];
+  const spent = new Set<string>();
+  const boothVotes = votes.filter(v => sourceOfVote(v) === 'BOOTH');
+  for (const vote of boothVotes) {
+    if (!vote.ballotToken || !(await verifyBallotToken(vote.ballotToken, record.tokenKey))) badTokens.push(`${vote.voteId} has no valid token`);
+    else if (spent.has(vote.ballotToken.token)) badTokens.push(`${vote.voteId} reuses a token`);
+    else spent.add(vote.ballotToken.token);
+  }
+  for (const booth of record.booths) {
+    const checkedIn = record.turnout.find(t => t.boothId === booth.id)?.checkedIn ?? 0;
+    const cast = boothVotes.filter(v => v.boothId === booth.id).length;
+    if (cast > checkedIn) badTokens.push(`${booth.id} has ${cast} ballot(s) but ${checkedIn} check-in(s)`);
+  }
+  const checkedIn = record.turnout.reduce((n, t) => n + t.checkedIn, 0);
+  const electors = record.turnout.reduce((n, t) => n + t.electors, 0);
+  check('Roll check-ins', badTokens.length === 0,
+    badTokens.length === 0
+      ? `${boothVotes.length} booth ballot(s), each with a single-use token; ${checkedIn} of ${electors} electors checked in`
+      : badTokens.join('; '));
+
+  // 5. Ballot well-formedness: in every contest, exactly the excluded ballots fail their proofs
+  const misclassified: string[] = [];
+  let proven = 0, excluded = 0;
+  for (const mixed of mixedBallots) {
+    const spec = ballotSpec(election, mixed.constituency, mixed.contestId);
+    for (const vote of votesForConstituency(votes, record.booths, mixed.constituency).filter(v => sourceOfVote(v) === mixed.source)) {
+      const passed = await verifyBallotProofs(contestBallot(vote.encryptedData, mixed.contestId), publicKey, spec);
+      if (passed === mixed.excludedVoteIds.includes(vote.voteId)) misclassified.push(`${vote.voteId} (${contestName(mixed.contestId)})`);
+      else if (passed) proven++;
+      else excluded++;
+    }
+  }
+  check('Ballot proofs', misclassified.length === 0,
+    misclassified.length === 0
+      ? `${proven} contest ballots proven well-formed, ${excluded} excluded`
+      : `Proof status disagrees with the mix for ${misclassified.join(', ')}`);
+
+  // 6. Shuffle proofs, one mix per constituency, contest and source
+  const mix = await verifyElectionMix(mixedBallots, votes, election, publicKey, record.bulletinBoard.root);
+  check('Shuffle proofs', mix.valid,
+    mix.valid ? `${mixedBallots.length} contest mix(es), ${mixedBallots.reduce((n, m) => n + m.ciphertexts.length, 0)} ballots shuffled and re-encrypted` : mix.reason ?? 'Invalid mix');
+
+  // 7. Decryption proofs: of each aggregate sum, recomputed from the mixed set, or of each opened ballot
+  const parts = tally.flatMap(published => published.sources.map(part => ({ published, part })));
+  let badDecryptions = parts.length === mixedBallots.length ? 0 : 1;
+  let openedBallots = 0, openedAggregates = 0;
+  for (const { published, part } of parts) {
+    const mixed = mixedBallots.find(m => m.constituency === published.constituency && m.contestId === published.contestId && m.source === part.source);
+    if (!mixed) {
+      badDecryptions++;
+      continue;
+    }
+    const context = decryptionContext(mixed);
+    if (part.mode === 'AGGREGATE') {
+      const ciphertexts = multiplyMixedBallots(mixed);
+      const { counts, decryptionProofs } = part.aggregate;
+      let proven = !mixed.ranked && counts.length === ciphertexts.length;
+      if (proven && mixed.ciphertexts.length === 0) proven = counts.every(n => n === 0);
+      else if (proven && decryptionProofs.length === ciphertexts.length) {
+        for (let k = 0; proven && k < ciphertexts.length; k++) {
+          proven = await verifyDecryption(ciphertexts[k], counts[k], decryptionProofs[k], publicKey, context);
+        }
+      } else proven = false;
+      if (proven) openedAggregates++;
+      else badDecryptions++;
+      continue;
+    }
+    if (part.decryptedBallots.length !== mixed.ciphertexts.length) {
+      badDecryptions++;
+      continue;
+    }
+    openedBallots += mixed.ciphertexts.length;
+    for (let i = 0; i < mixed.ciphertexts.length; i++) {
+      const { plaintext, decryptionProofs } = part.decryptedBallots[i];
+      const ballot = mixed.ciphertexts[i];
+      if (plaintext.length !== ballot.length || decryptionProofs.length !== ballot.length) {
+        badDecryptions++;
+        continue;
+      }
+      for (let k = 0; k < ballot.length; k++) {
+        if (!(await verifyDecryption(ballot[k], plaintext[k], decryptionProofs[k], publicKey, context))) {
+          badDecryptions++;
+          break;
+        }
+      }
+    }
+  }
+  check('Decryption proofs', badDecryptions === 0,
+    badDecryptions === 0 ? `${openedAggregates} aggregate(s) and ${openedBallots} opened ballot(s) correctly decrypted` : `${badDecryptions} decryption(s) do not verify`);
+
+  // 8. Tally reproduction, per constituency and contest, including every STV round and each source's share
+  for (const published of tally) {
+    const spec = ballotSpec(election, published.constituency, published.contestId);
+    const seats = contestSeats(record.ballot.contests, published.contestId);
+    // A drawn lot order settles the ties of an STV count
+    const draw = record.declaration?.contests.find(d => d.constituency === published.constituency && d.contestId === published.contestId)?.draw;
+    const lotOrder = draw && published.preferential ? await drawOrder(draw, spec.candidateIds) : undefined;
+    const recount = combineSourceTallies(published.constituency, spec, published.sources, seats, lotOrder);
+    const sourcesMatch = published.sources.every(part => {
+      const again = part.mode === 'AGGREGATE'
+        ? { invalid: 0, results: part.aggregate.counts.map((count, i) => ({ candidateId: spec.candidateIds[i], count })) }
+        : countDecryptedBallots(spec, part.decryptedBallots, seats);
+      return again.invalid === part.invalid && again.results.length === part.results.length &&
+        again.results.every((r, i) => r.candidateId === part.results[i].candidateId && r.count === part.results[i].count);
+    });
+    const matches =
+      sourcesMatch &&
+      recount.invalid === published.invalid &&
+      recount.results.length === published.results.length &&
+      recount.results.every((r, i) => r.candidateId === published.results[i].candidateId && r.count === published.results[i].count) &&
+      samePreferentialCount(recount.preferential, published.preferential);
+    const summary = recount.preferential
+      ? `${recount.preferential.rounds.length} STV round(s), elected ${recount.preferential.elected.join(', ') || 'nobody'}`
+      : recount.results.map(r => `${r.candidateId}: ${r.count}`).join(', ');
+    check(`Tally (${published.constituency} / ${contestName(published.contestId)})`, matches, matches ? summary : `Recount (${summary}) differs from the published tally`);
+  }
+
+  // 9. Declared winners follow from the tally, with every draw of lots replayed from its seed
+  const declared = record.declaration?.contests ?? [];
+  const misdeclared: string[] = declared.length === tally.length ? [] : [`${declared.length} contest(s) declared, ${tally.length} counted`];
+  for (const published of tally) {
+    const label = `${published.constituency} / ${contestName(published.contestId)}`;
+    const declaration = declared.find(d => d.constituency === published.constituency && d.contestId === published.contestId);
+    if (!declaration) {
+      misdeclared.push(`${label} not declared`);
+      continue;
+    }
+    if (declaration.draw && !(await replayDraw(declaration.draw))) misdeclared.push(`${label} draw of lots does not follow from its seed`);
+    const outcome = contestOutcome(published, contestSeats(record.ballot.contests, published.contestId), declaration.draw);
+    if (JSON.stringify(outcome.winners) !== JSON.stringify(declaration.winners) || outcome.margin !== declaration.margin) {
+      misdeclared.push(`${label} declared ${declaration.winners.join(', ') || 'nobody'}, count gives ${outcome.winners.join(', ') || 'nobody'}`);
+    }
+  }
+  const draws = declared.filter(d => d.draw).length;
+  check('Declaration', !!record.declaration && misdeclared.length === 0,
+    !record.declaration ? 'The record has no result declaration'
+      : misdeclared.length === 0 ? `${declared.length} contest result(s) declared by ${record.declaration.declaredBy}${draws > 0 ? `, ${draws} tie(s) settled by lot` : ''}`
+      : misdeclared.join('; '));
+
+  return { valid: checks.every(c => c.passed), checks };
+};
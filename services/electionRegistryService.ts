@@ -0,0 +1,102 @@
+// Election registry.
+//
+// Phases of a general election and bye-elections run side by side, so every
+// election has its own id and its own stored config (logs included), ballot
+// ledger and spoiled ballots. The registry lists them for the admin selector
+// and remembers which one is open. An election is archived once published:
+// it stays listed and readable, but nothing about it can change.
+//
+// Storage stands in for the election database: one localStorage entry per
+// election and part, plus the registry itself.
+
+import { ElectionConfig, ElectionRegistry, ElectionSummary, SpoiledBallot, VoteRecord } from '../types';
+import { INITIAL_ELECTION_CONFIG } from '../constants';
+
+export interface StoredElection {
+  config: ElectionConfig;
+  votes: VoteRecord[];
+  spoiledBallots: SpoiledBallot[];
+}
+
+const REGISTRY_KEY = 'election_registry';
+// Keys of the single election stored before the registry existed
+const LEGACY_KEYS = { config: 'election_config', votes: 'secure_votes', spoiled: 'spoiled_ballots' };
+
+const storageKey = (electionId: string, part: 'config' | 'votes' | 'spoiled') => `election:${electionId}:${part}`;
+
+const readJson = <T>(key: string, fallback: T): T => {
+  const saved = localStorage.getItem(key);
+  return saved ? JSON.parse(saved) : fallback;
+};
+
+export const summarize = (config: ElectionConfig, previous?: ElectionSummary): ElectionSummary => ({
+  id: config.id,
+  name: config.name,
+  type: config.type,
+  status: config.status,
+  createdAt: previous?.createdAt ?? Date.now(),
+  archived: previous?.archived ?? false,
+});
+
+export const saveRegistry = (registry: ElectionRegistry) => {
+  localStorage.setItem(REGISTRY_KEY, JSON.stringify(registry));
+};
+
+export const saveElection = ({ config, votes, spoiledBallots }: StoredElection) => {
+  localStorage.setItem(storageKey(config.id, 'config'), JSON.stringify(config));
+  localStorage.setItem(storageKey(config.id, 'votes'), JSON.stringify(votes));
+  localStorage.setItem(storageKey(config.id, 'spoiled'), JSON.stringify(spoiledBallots));
+};
+
+/** One election's stored state. Fields added since it was saved take their initial values. */
+export const loadElection = (electionId: string): StoredElection => ({
+  config: { ...INITIAL_ELECTION_CONFIG, ...readJson<Partial<ElectionConfig>>(storageKey(electionId, 'config'), {}), id: electionId },
+  votes: readJson<VoteRecord[]>(storageKey(electionId, 'votes'), []),
+  spoiledBallots: readJson<SpoiledBallot[]>(storageKey(electionId, 'spoiled'), []),
+});
+
+/**
+ * The stored registry. On first run it is created around the election kept
+ * under the pre-registry keys, if any, or else the initial demo election.
+ */
+export const loadRegistry = (): ElectionRegistry => {
+  const saved = localStorage.getItem(REGISTRY_KEY);
+  if (saved) return JSON.parse(saved);
+
+  const legacy: StoredElection = {
+    config: { ...INITIAL_ELECTION_CONFIG, ...readJson<Partial<ElectionConfig>>(LEGACY_KEYS.config, {}) },
+    votes: readJson<VoteRecord[]>(LEGACY_KEYS.votes, []),
+    spoiledBallots: readJson<SpoiledBallot[]>(LEGACY_KEYS.spoiled, []),
+  };
+  saveElection(legacy);
+  Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+
+  const registry: ElectionRegistry = { currentId: legacy.config.id, elections: [summarize(legacy.config)] };
+  saveRegistry(registry);
+  return registry;
+};
+
+/**
+ * A new election in setup, e.g. the next phase. It starts from the ballot
+ * setup of an existing election (type, contests, ballot order rule, tally
+ * mode, parties, candidates, booths and their electoral roll, unmarked);
+ * keys, trustees, schedule, ballots and logs are never carried over, and
+ * every kiosk must enrol again.
+ */
+export const newElectionConfig = (template: ElectionConfig, name: string): ElectionConfig => {
+  const createdAt = Date.now();
+  return {
+    ...INITIAL_ELECTION_CONFIG,
+    id: `election-${createdAt}`,
+    name,
+    type: template.type,
+    contests: template.contests,
+    ballotOrder: { ...template.ballotOrder, rotations: null, lockedAt: null },
+    tallyMode: template.tallyMode,
+    parties: template.parties,
+    candidates: template.candidates,
+    booths: template.booths.map(b => ({ ...b, status: 'ONLINE' as const, signingPublicKey: null, lastHeartbeat: createdAt })),
+    electoralRoll: template.electoralRoll.map(e => ({ ...e, hasVoted: false })),
+    logs: [{ id: crypto.randomUUID(), timestamp: createdAt, level: 'INFO', category: 'SYSTEM', message: `Election created from the ballot setup of "${template.name}".` }],
+  };
+};
@@ -0,0 +1,65 @@
+// Electoral roll.
+//
+// Every booth has its part of the roll, imported by the administrator and
+// keyed by EPIC (Elector's Photo Identity Card) number. At the AUTH step the
+// kiosk looks the voter up; the roll desk refuses anyone not listed at that
+// booth or already marked, and otherwise marks them as having voted and
+// blind-signs a single-use ballot token (see ballotTokenService). The roll
+// keeps only the mark: no time, no order and no token, so no entry can be
+// matched to a ballot. A voter who leaves without casting stays marked, as
+// with a paper roll.
+//
+// Turnout is counted from the marks, never from the ballots, so it can be
+// published per booth without touching ballot secrecy.
+
+import { BoothTurnout, ElectionConfig, RollEntry } from '../types';
+import { TokenSigningKey } from './ballotTokenService';
+
+/** Three letters and seven digits, e.g. ABC1234567. */
+export const EPIC_PATTERN = /^[A-Z]{3}[0-9]{7}$/;
+
+export const normalizeEpic = (value: string) => value.replace(/[\s-]/g, '').toUpperCase();
+
+export const findElector = (roll: RollEntry[], epic: string): RollEntry | null =>
+  roll.find(e => e.epic === normalizeEpic(epic)) ?? null;
+
+/** Why this voter may not check in at this booth, or null. */
+export const checkInProblem = (config: Pick<ElectionConfig, 'status' | 'electoralRoll'>, boothId: string, epic: string): string | null => {
+  if (config.status !== 'ACTIVE') return 'The polls are not open.';
+  if (!EPIC_PATTERN.test(normalizeEpic(epic))) return 'An EPIC number has three letters and seven digits.';
+  const elector = findElector(config.electoralRoll, epic);
+  if (!elector) return 'This EPIC number is not on the electoral roll.';
+  if (elector.boothId !== boothId) return `This elector is listed at booth ${elector.boothId} and must vote there.`;
+  if (elector.hasVoted) return 'This elector is already marked as having voted.';
+  return null;
+};
+
+/**
+ * Checks a voter in: refuses them with the reason, or marks them as having
+ * voted. Nothing else about the check-in is kept.
+ */
+export const checkIn = (config: ElectionConfig, boothId: string, epic: string): { config: ElectionConfig; problem: string | null } => {
+  const problem = checkInProblem(config, boothId, epic);
+  if (problem) return { config, problem };
+  const electoralRoll = config.electoralRoll.map(e => e.epic === normalizeEpic(epic) ? { ...e, hasVoted: true } : e);
+  return { config: { ...config, electoralRoll }, problem: null };
+};
+
+/** Electors listed and checked in at every booth, in booth order. */
+export const boothTurnout = (config: Pick<ElectionConfig, 'booths' | 'electoralRoll'>): BoothTurnout[] =>
+  config.booths.map(b => {
+    const listed = config.electoralRoll.filter(e => e.boothId === b.id);
+    return { boothId: b.id, electors: listed.length, checkedIn: listed.filter(e => e.hasVoted).length };
+  });
+
+// Stands in for the roll desk's secure key storage, like the kiosk identity
+const signingKeyStorage = (electionId: string) => `roll_desk:${electionId}`;
+
+export const saveTokenSigningKey = (electionId: string, key: TokenSigningKey) => {
+  localStorage.setItem(signingKeyStorage(electionId), JSON.stringify(key));
+};
+
+export const loadTokenSigningKey = (electionId: string): TokenSigningKey | null => {
+  const saved = localStorage.getItem(signingKeyStorage(electionId));
+  return saved ? JSON.parse(saved) : null;
+};
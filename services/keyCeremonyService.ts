@@ -0,0 +1,100 @@
+// Trustee key ceremony: Shamir secret sharing of the election private key.
+//
+// The election secret is the constant term of a random polynomial of degree
+// k-1 over Z_q (the order of the ElGamal group). Each trustee receives one
+// point on the polynomial; any k of them recover the secret by Lagrange
+// interpolation at x = 0, fewer reveal nothing about it.
+
+import { Trustee } from '../types';
+import { ELECTION_GROUP, derivePublicKey, generateElectionKeyPair, mod, modInverse, randomScalar, sha256Hex } from './cryptoService';
+
+const FIELD = ELECTION_GROUP.q;
+const SHARE_PREFIX = 'SVS1';
+
+export interface SecretShare {
+  index: number;
+  value: bigint;
+}
+
+export const splitSecret = (secret: bigint, shareCount: number, threshold: number): SecretShare[] => {
+  if (threshold < 1 || threshold > shareCount) {
+    throw new Error(`Threshold must be between 1 and ${shareCount}`);
+  }
+  const coefficients = [mod(secret, FIELD)];
+  for (let i = 1; i < threshold; i++) coefficients.push(randomScalar());
+
+  return Array.from({ length: shareCount }, (_, i) => {
+    const x = BigInt(i + 1);
+    // Horner evaluation of the polynomial at x
+    const value = coefficients.reduceRight((acc, c) => mod(acc * x + c, FIELD), 0n);
+    return { index: i + 1, value };
+  });
+};
+
+export const combineShares = (shares: SecretShare[]): bigint => {
+  return shares.reduce((secret, { index: xi, value: yi }) => {
+    let numerator = 1n;
+    let denominator = 1n;
+    shares.forEach(({ index: xj }) => {
+      if (xj === xi) return;
+      numerator = mod(numerator * BigInt(-xj), FIELD);
+      denominator = mod(denominator * BigInt(xi - xj), FIELD);
+    });
+    return mod(secret + yi * numerator * modInverse(denominator, FIELD), FIELD);
+  }, 0n);
+};
+
+export const encodeShare = (share: SecretShare): string =>
+  `${SHARE_PREFIX}-${share.index}-${share.value.toString(16)}`;
+
+export const decodeShare = (encoded: string): SecretShare | null => {
+  const match = encoded.trim().match(/^SVS1-(\d+)-([0-9a-f]+)$/i);
+  if (!match) return null;
+  return { index: Number(match[1]), value: BigInt(`0x${match[2]}`) };
+};
+
+export const hashShare = (encoded: string): Promise<string> => sha256Hex(encoded.trim());
+
+/**
+ * Generates the election keypair and splits its secret between the named
+ * trustees. The encoded shares are returned once for distribution; only their
+ * hashes are kept on the Trustee records.
+ */
+export const runKeyCeremony = async (
+  trusteeNames: string[],
+  threshold: number
+): Promise<{ publicKey: string; trustees: Trustee[]; shares: Record<string, string> }> => {
+  const { publicKey, secret } = generateElectionKeyPair();
+  const rawShares = splitSecret(secret, trusteeNames.length, threshold);
+
+  const trustees: Trustee[] = [];
+  const shares: Record<string, string> = {};
+  for (let i = 0; i < trusteeNames.length; i++) {
+    const encoded = encodeShare(rawShares[i]);
+    const trustee: Trustee = {
+      id: `t-${rawShares[i].index}`,
+      name: trusteeNames[i],
+      shareIndex: rawShares[i].index,
+      shareHash: await hashShare(encoded),
+    };
+    trustees.push(trustee);
+    shares[trustee.id] = encoded;
+  }
+
+  return { publicKey, trustees, shares };
+};
+
+/**
+ * Reconstructs the election secret from trustee shares. Throws if the shares
+ * do not rebuild the secret behind the published public key.
+ */
+export const reconstructSecret = (encodedShares: string[], publicKey: string): bigint => {
+  const shares = encodedShares.map(decodeShare);
+  if (shares.some(s => s === null)) throw new Error('Malformed key share');
+
+  const secret = combineShares(shares as SecretShare[]);
+  if (derivePublicKey(secret) !== publicKey) {
+    throw new Error('Reconstructed key does not match the election public key');
+  }
+  return secret;
+};
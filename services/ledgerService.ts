@@ -0,0 +1,66 @@
+// Append-only ballot ledger.
+//
+// Each VoteRecord carries the SHA-256 of its own contents chained to the
+// previous record's hash, so editing, reordering or deleting any stored
+// record breaks every link after it. The ledger head (count + last hash) is
+// kept on the ElectionConfig to also catch truncation of the tail.
+
+import { LedgerHead, VoteRecord } from '../types';
+import { sha256Hex } from './cryptoService';
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+export type LedgerFault = 'HASH_MISMATCH' | 'CHAIN_BROKEN' | 'HEAD_MISMATCH';
+
+export interface LedgerVerification {
+  valid: boolean;
+  brokenAt: number | null; // Index of the first bad record (votes.length for a truncated tail)
+  fault: LedgerFault | null;
+}
+
+type UnsealedRecord = Omit<VoteRecord, 'previousHash' | 'integrityHash'>;
+
+// Postal records also cover their source and constituency, and booth records their ballot token; records without them hash as before
+export const computeRecordHash = (record: UnsealedRecord, previousHash: string): Promise<string> =>
+  sha256Hex([
+    previousHash, record.voteId, record.timestamp, record.boothId, record.signature, record.encryptedData,
+    ...(record.source === 'POSTAL' ? [record.source, record.constituency] : []),
+    ...(record.ballotToken ? [record.ballotToken.token, record.ballotToken.signature] : []),
+  ].join('|'));
+
+/** Links a new record to the current ledger tail. */
+export const sealRecord = async (record: UnsealedRecord, previousHash: string): Promise<VoteRecord> => ({
+  ...record,
+  previousHash,
+  integrityHash: await computeRecordHash(record, previousHash),
+});
+
+export const ledgerHeadOf = (votes: VoteRecord[]): LedgerHead => ({
+  count: votes.length,
+  hash: votes.length > 0 ? votes[votes.length - 1].integrityHash : GENESIS_HASH,
+});
+
+/**
+ * Walks the chain from the genesis hash and reports the first record whose
+ * link or digest does not hold. When a head is given, the chain must also
+ * end exactly there.
+ */
+export const verifyLedger = async (votes: VoteRecord[], head?: LedgerHead | null): Promise<LedgerVerification> => {
+  let previousHash = GENESIS_HASH;
+
+  for (let i = 0; i < votes.length; i++) {
+    const record = votes[i];
+    if (record.previousHash !== previousHash) {
+      return { valid: false, brokenAt: i, fault: 'CHAIN_BROKEN' };
+    }
+    if ((await computeRecordHash(record, previousHash)) !== record.integrityHash) {
+      return { valid: false, brokenAt: i, fault: 'HASH_MISMATCH' };
+    }
+    previousHash = record.integrityHash;
+  }
+
+  if (head && (head.count !== votes.length || head.hash !== previousHash)) {
+    return { valid: false, brokenAt: Math.min(head.count, votes.length), fault: 'HEAD_MISMATCH' };
+  }
+  return { valid: true, brokenAt: null, fault: null };
+};
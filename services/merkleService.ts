@@ -0,0 +1,61 @@
+// Merkle-tree bulletin board over the ballot ledger.
+//
+// Every VoteRecord is a leaf; the root is frozen when polls close. A voter's
+// inclusion proof is the list of sibling hashes from their leaf to the root,
+// so anyone holding only the root can check that a ballot is on the board.
+// Leaves and inner nodes use distinct prefixes so one can never pose as the
+// other, and an unpaired node is promoted to the next level unchanged.
+
+import { MerkleProofStep, VoteRecord } from '../types';
+import { sha256Hex } from './cryptoService';
+
+const EMPTY_ROOT_INPUT = 'empty:';
+
+export const hashLeaf = (record: Pick<VoteRecord, 'integrityHash'>): Promise<string> =>
+  sha256Hex(`leaf:${record.integrityHash}`);
+
+const hashNode = (left: string, right: string): Promise<string> => sha256Hex(`node:${left}${right}`);
+
+/** All tree levels, leaves first and the root level (one hash) last. */
+const buildLevels = async (leaves: string[]): Promise<string[][]> => {
+  const levels = [leaves];
+  while (levels[levels.length - 1].length > 1) {
+    const current = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < current.length; i += 2) {
+      next.push(i + 1 < current.length ? await hashNode(current[i], current[i + 1]) : current[i]);
+    }
+    levels.push(next);
+  }
+  return levels;
+};
+
+export const computeMerkleRoot = async (votes: VoteRecord[]): Promise<string> => {
+  if (votes.length === 0) return sha256Hex(EMPTY_ROOT_INPUT);
+  const levels = await buildLevels(await Promise.all(votes.map(hashLeaf)));
+  return levels[levels.length - 1][0];
+};
+
+export const buildInclusionProof = async (votes: VoteRecord[], index: number): Promise<MerkleProofStep[]> => {
+  if (index < 0 || index >= votes.length) throw new Error(`No leaf at position ${index}`);
+
+  const levels = await buildLevels(await Promise.all(votes.map(hashLeaf)));
+  const proof: MerkleProofStep[] = [];
+  let position = index;
+  for (const level of levels.slice(0, -1)) {
+    const sibling = position % 2 === 0 ? position + 1 : position - 1;
+    if (sibling < level.length) {
+      proof.push({ hash: level[sibling], side: position % 2 === 0 ? 'R' : 'L' });
+    }
+    position = Math.floor(position / 2);
+  }
+  return proof;
+};
+
+export const verifyInclusionProof = async (leafHash: string, proof: MerkleProofStep[], root: string): Promise<boolean> => {
+  let current = leafHash;
+  for (const step of proof) {
+    current = step.side === 'L' ? await hashNode(step.hash, current) : await hashNode(current, step.hash);
+  }
+  return current === root;
+};
@@ -0,0 +1,366 @@
+// Verifiable re-encryption mixnet.
+//
+// After polls close, the ballot vectors are shuffled with a secret
+// permutation and every component is re-encrypted, so the mixed set can be
+// decrypted ballot by ballot without linking a plaintext to its ledger
+// position or timestamp. The mix publishes a Terelius-Wikstrom proof of
+// shuffle (made non-interactive with Fiat-Shamir) showing the output is a
+// permutation of the input re-encrypted under the election key, without
+// revealing the permutation. One permutation is applied to whole ballot
+// vectors, so a ballot's components are never split up. Each contest on the
+// ballot is mixed on its own, so contest choices cannot be linked either.
+// Booth and postal ballots are mixed apart so the count can report each
+// source separately.
+
+import { BallotSpec, ElGamalCiphertext, MixedBallotSet, ShuffleProof, VoteRecord, VoteSource } from '../types';
+import {
+  ELECTION_GROUP, ballotWidth, encryptExponent, fromHex, hashToScalar, isSubgroupElement, mod, modPow,
+  contestBallot, multiplyCiphertexts, powNeg, randomScalar, sha256Hex, toHex, verifyBallotProofs
+} from './cryptoService';
+import { computeMerkleRoot } from './merkleService';
+import { aggregateBallots } from './tallyService';
+import { BallotDefinition, VOTE_SOURCES, ballotSpec, constituencyOfVote, listConstituencies, sourceOfVote, votesForConstituency } from './ballotService';
+
+const { p: P, q: Q, g: G } = ELECTION_GROUP;
+const COFACTOR = (P - 1n) / Q;
+
+export interface MixVerification {
+  valid: boolean;
+  reason: string | null;
+}
+
+// Independent generators h_0..h_n, derived by hashing into the subgroup so
+// nobody knows their discrete logs. Cached because the derivation is costly.
+const generatorCache: bigint[] = [];
+
+const getGenerators = async (count: number): Promise<bigint[]> => {
+  for (let i = generatorCache.length; i < count; i++) {
+    let counter = 0;
+    let h = 1n;
+    while (h === 1n) {
+      h = modPow(fromHex(await sha256Hex(`mixnet-generator|${i}|${counter++}`)), COFACTOR, P);
+    }
+    generatorCache.push(h);
+  }
+  return generatorCache.slice(0, count);
+};
+
+const randomPermutation = (n: number): number[] => {
+  const psi = Array.from({ length: n }, (_, i) => i);
+  for (let i = n - 1; i > 0; i--) {
+    const j = Number(randomScalar() % BigInt(i + 1));
+    [psi[i], psi[j]] = [psi[j], psi[i]];
+  }
+  return psi;
+};
+
+const product = (values: bigint[]): bigint => values.reduce((acc, v) => (acc * v) % P, 1n);
+
+const flatten = (ballots: ElGamalCiphertext[][]): string =>
+  ballots.map(b => b.map(c => `${c.alpha},${c.beta}`).join(';')).join('/');
+
+// Per-ballot challenges u_i, bound to both ballot sets and the permutation commitment
+const getChallenges = async (
+  n: number,
+  publicKey: string,
+  inputs: ElGamalCiphertext[][],
+  outputs: ElGamalCiphertext[][],
+  commitments: string[]
+): Promise<bigint[]> => {
+  const seed = await sha256Hex(['shuffle', publicKey, flatten(inputs), flatten(outputs), commitments.join(',')].join('|'));
+  const challenges: bigint[] = [];
+  for (let i = 0; i < n; i++) challenges.push(await hashToScalar(seed, 'u', BigInt(i)));
+  return challenges;
+};
+
+const getChallenge = (
+  publicKey: string,
+  inputs: ElGamalCiphertext[][],
+  outputs: ElGamalCiphertext[][],
+  proof: Pick<ShuffleProof, 'permutationCommitments' | 'chainCommitments' | 't1' | 't2' | 't3' | 't4' | 'tHat'>
+): Promise<bigint> =>
+  hashToScalar(
+    'shuffle-challenge', publicKey, flatten(inputs), flatten(outputs),
+    proof.permutationCommitments.join(','), proof.chainCommitments.join(','),
+    proof.t1, proof.t2, proof.t3, proof.t4.map(t => `${t.alpha},${t.beta}`).join(';'), proof.tHat.join(',')
+  );
+
+/** Shuffles and re-encrypts a list of ballot vectors, returning the output and its proof. */
+export const shuffleBallots = async (
+  inputs: ElGamalCiphertext[][],
+  publicKey: string
+): Promise<{ ciphertexts: ElGamalCiphertext[][]; proof: ShuffleProof }> => {
+  const n = inputs.length;
+  const width = n > 0 ? inputs[0].length : 0;
+  const pk = fromHex(publicKey);
+  const [h0, ...h] = await getGenerators(n + 1);
+  const psi = randomPermutation(n);
+
+  // Output i is input psi[i], re-encrypted component by component
+  const reencryption = psi.map(() => Array.from({ length: width }, () => randomScalar()));
+  const outputs = psi.map((j, i) =>
+    inputs[j].map((c, k) => multiplyCiphertexts(c, encryptExponent(0, publicKey, reencryption[i][k])))
+  );
+
+  // Commit to the permutation: c_psi(i) = g^r_psi(i) * h_i
+  const r: bigint[] = new Array(n);
+  const commitments: bigint[] = new Array(n);
+  psi.forEach((j, i) => {
+    r[j] = randomScalar();
+    commitments[j] = (modPow(G, r[j], P) * h[i]) % P;
+  });
+  const permutationCommitments = commitments.map(toHex);
+
+  const u = await getChallenges(n, publicKey, inputs, outputs, permutationCommitments);
+  const uPermuted = psi.map(j => u[j]);
+
+  // Commitment chain over the permuted challenges
+  const rHat: bigint[] = [];
+  const chain: bigint[] = [];
+  let previous = h0;
+  for (let i = 0; i < n; i++) {
+    rHat.push(randomScalar());
+    previous = (modPow(G, rHat[i], P) * modPow(previous, uPermuted[i], P)) % P;
+    chain.push(previous);
+  }
+
+  const w1 = randomScalar(), w2 = randomScalar(), w3 = randomScalar();
+  const w4 = Array.from({ length: width }, () => randomScalar());
+  const wHat = psi.map(() => randomScalar());
+  const wTilde = psi.map(() => randomScalar());
+
+  const t1 = modPow(G, w1, P);
+  const t2 = modPow(G, w2, P);
+  const t3 = (modPow(G, w3, P) * product(h.map((hi, i) => modPow(hi, wTilde[i], P)))) % P;
+  const t4 = w4.map((w, k) => ({
+    alpha: toHex((powNeg(G, w) * product(outputs.map((b, i) => modPow(fromHex(b[k].alpha), wTilde[i], P)))) % P),
+    beta: toHex((powNeg(pk, w) * product(outputs.map((b, i) => modPow(fromHex(b[k].beta), wTilde[i], P)))) % P),
+  }));
+  const tHat = wHat.map((w, i) => (modPow(G, w, P) * modPow(i === 0 ? h0 : chain[i - 1], wTilde[i], P)) % P);
+
+  const committed = {
+    permutationCommitments,
+    chainCommitments: chain.map(toHex),
+    t1: toHex(t1), t2: toHex(t2), t3: toHex(t3), t4,
+    tHat: tHat.map(toHex),
+  };
+  const c = await getChallenge(publicKey, inputs, outputs, committed);
+
+  // Aggregate witnesses
+  const rBar = r.reduce((acc, x) => mod(acc + x, Q), 0n);
+  const v: bigint[] = new Array(n);
+  for (let i = n - 1, acc = 1n; i >= 0; i--) {
+    v[i] = acc;
+    acc = mod(acc * uPermuted[i], Q);
+  }
+  const rHatSum = rHat.reduce((acc, x, i) => mod(acc + x * v[i], Q), 0n);
+  const rTilde = r.reduce((acc, x, j) => mod(acc + x * u[j], Q), 0n);
+  const rPrime = w4.map((_, k) => reencryption.reduce((acc, ri, i) => mod(acc + ri[k] * uPermuted[i], Q), 0n));
+
+  return {
+    ciphertexts: outputs,
+    proof: {
+      ...committed,
+      s1: toHex(mod(w1 + c * rBar, Q)),
+      s2: toHex(mod(w2 + c * rHatSum, Q)),
+      s3: toHex(mod(w3 + c * rTilde, Q)),
+      s4: w4.map((w, k) => toHex(mod(w + c * rPrime[k], Q))),
+      sHat: wHat.map((w, i) => toHex(mod(w + c * rHat[i], Q))),
+      sTilde: wTilde.map((w, i) => toHex(mod(w + c * uPermuted[i], Q))),
+    },
+  };
+};
+
+/** Checks a shuffle proof for the given input and output ballot vectors. */
+export const verifyShuffle = async (
+  inputs: ElGamalCiphertext[][],
+  outputs: ElGamalCiphertext[][],
+  proof: ShuffleProof,
+  publicKey: string
+): Promise<boolean> => {
+  const n = inputs.length;
+  const width = n > 0 ? inputs[0].length : 0;
+  if (outputs.length !== n || outputs.some(b => b.length !== width)) return false;
+  if (n === 0) return true;
+  if (
+    proof.permutationCommitments.length !== n || proof.chainCommitments.length !== n ||
+    proof.tHat.length !== n || proof.sHat.length !== n || proof.sTilde.length !== n ||
+    proof.t4.length !== width || proof.s4.length !== width
+  ) return false;
+
+  try {
+    const pk = fromHex(publicKey);
+    const commitments = proof.permutationCommitments.map(fromHex);
+    const chain = proof.chainCommitments.map(fromHex);
+    const outputValues = outputs.map(b => b.map(c => ({ alpha: fromHex(c.alpha), beta: fromHex(c.beta) })));
+    const inputValues = inputs.map(b => b.map(c => ({ alpha: fromHex(c.alpha), beta: fromHex(c.beta) })));
+    if (![...commitments, ...chain].every(isSubgroupElement)) return false;
+    if (!outputValues.every(b => b.every(c => isSubgroupElement(c.alpha) && isSubgroupElement(c.beta)))) return false;
+
+    const [h0, ...h] = await getGenerators(n + 1);
+    const u = await getChallenges(n, publicKey, inputs, outputs, proof.permutationCommitments);
+    const c = await getChallenge(publicKey, inputs, outputs, proof);
+
+    const s1 = fromHex(proof.s1), s2 = fromHex(proof.s2), s3 = fromHex(proof.s3);
+    const s4 = proof.s4.map(fromHex);
+    const sHat = proof.sHat.map(fromHex);
+    const sTilde = proof.sTilde.map(fromHex);
+
+    const cBar = (product(commitments) * powNeg(product(h), 1n)) % P;
+    const uProduct = u.reduce((acc, x) => mod(acc * x, Q), 1n);
+    const cHat = (chain[n - 1] * powNeg(h0, uProduct)) % P;
+    const cTilde = product(commitments.map((cj, j) => modPow(cj, u[j], P)));
+
+    if (fromHex(proof.t1) !== (powNeg(cBar, c) * modPow(G, s1, P)) % P) return false;
+    if (fromHex(proof.t2) !== (powNeg(cHat, c) * modPow(G, s2, P)) % P) return false;
+    const t3 = (powNeg(cTilde, c) * modPow(G, s3, P) * product(h.map((hi, i) => modPow(hi, sTilde[i], P)))) % P;
+    if (fromHex(proof.t3) !== t3) return false;
+
+    for (let k = 0; k < width; k++) {
+      const alphaIn = product(inputValues.map((b, j) => modPow(b[k].alpha, u[j], P)));
+      const betaIn = product(inputValues.map((b, j) => modPow(b[k].beta, u[j], P)));
+      const alpha = (powNeg(alphaIn, c) * powNeg(G, s4[k]) * product(outputValues.map((b, i) => modPow(b[k].alpha, sTilde[i], P)))) % P;
+      const beta = (powNeg(betaIn, c) * powNeg(pk, s4[k]) * product(outputValues.map((b, i) => modPow(b[k].beta, sTilde[i], P)))) % P;
+      if (fromHex(proof.t4[k].alpha) !== alpha || fromHex(proof.t4[k].beta) !== beta) return false;
+    }
+
+    return proof.tHat.every((t, i) =>
+      fromHex(t) === (powNeg(chain[i], c) * modPow(G, sHat[i], P) * modPow(i === 0 ? h0 : chain[i - 1], sTilde[i], P)) % P
+    );
+  } catch (e) {
+    // Malformed proof fields (non-hex values) land here
+    return false;
+  }
+};
+
+// One contest's ballot vectors entering the mix, in ledger order
+const mixInputs = (votes: VoteRecord[], contestId: string, excludedVoteIds: string[]): ElGamalCiphertext[][] | null => {
+  const inputs: ElGamalCiphertext[][] = [];
+  for (const vote of votes) {
+    if (excludedVoteIds.includes(vote.voteId)) continue;
+    const ballot = contestBallot(vote.encryptedData, contestId);
+    if (!ballot) return null;
+    inputs.push(ballot.ciphertexts);
+  }
+  return inputs;
+};
+
+/**
+ * Mixes one source's ballots for one contest in one constituency from the frozen bulletin board. Ballots
+ * whose well-formedness proofs fail are listed as excluded rather than
+ * mixed, since nothing can be rejected once the link to the ledger is gone.
+ */
+export const mixBallots = async (
+  votes: VoteRecord[],
+  spec: BallotSpec,
+  publicKey: string,
+  constituency: string,
+  source: VoteSource,
+  boardRoot: string
+): Promise<MixedBallotSet> => {
+  const { rejected: excludedVoteIds } = await aggregateBallots(votes, spec, publicKey);
+  const inputs = mixInputs(votes, spec.contestId, excludedVoteIds)!;
+  const { ciphertexts, proof } = await shuffleBallots(inputs, publicKey);
+  return {
+    constituency,
+    contestId: spec.contestId,
+    source,
+    boardRoot,
+    candidateIds: spec.candidateIds,
+    ranked: spec.ranked,
+    excludedVoteIds,
+    ciphertexts,
+    proof,
+    mixedAt: Date.now(),
+  };
+};
+
+/**
+ * Re-derives one mix input from the constituency's ledger records and checks
+ * the shuffle proof. Every excluded ballot must genuinely fail its proofs,
+ * so the mix cannot quietly drop valid votes.
+ */
+export const verifyMixedBallots = async (
+  mixed: MixedBallotSet,
+  votes: VoteRecord[],
+  publicKey: string
+): Promise<MixVerification> => {
+  const spec: BallotSpec = { contestId: mixed.contestId, candidateIds: mixed.candidateIds, ranked: mixed.ranked };
+  for (const voteId of mixed.excludedVoteIds) {
+    const vote = votes.find(v => v.voteId === voteId);
+    if (!vote || (await verifyBallotProofs(contestBallot(vote.encryptedData, mixed.contestId), publicKey, spec))) {
+      return { valid: false, reason: `Ballot ${voteId} was excluded from the mix without cause` };
+    }
+  }
+  const inputs = mixInputs(votes, mixed.contestId, mixed.excludedVoteIds);
+  if (!inputs || inputs.some(b => b.length !== ballotWidth(spec))) {
+    return { valid: false, reason: 'Mix input contains a malformed ballot' };
+  }
+  if (!(await verifyShuffle(inputs, mixed.ciphertexts, mixed.proof, publicKey))) {
+    return { valid: false, reason: 'Shuffle proof does not verify' };
+  }
+  return { valid: true, reason: null };
+};
+
+/** Mixes every contest of every constituency of the closed election separately, booth and postal ballots apart. */
+export const mixElection = async (
+  votes: VoteRecord[],
+  election: BallotDefinition,
+  publicKey: string
+): Promise<MixedBallotSet[]> => {
+  const boardRoot = await computeMerkleRoot(votes);
+  const sets: MixedBallotSet[] = [];
+  for (const constituency of listConstituencies(election)) {
+    for (const source of VOTE_SOURCES) {
+      const subset = votesForConstituency(votes, election.booths, constituency).filter(v => sourceOfVote(v) === source);
+      for (const contest of election.contests) {
+        sets.push(await mixBallots(subset, ballotSpec(election, constituency, contest.id), publicKey, constituency, source, boardRoot));
+      }
+    }
+  }
+  return sets;
+};
+
+/**
+ * Checks that the mixed sets cover the frozen bulletin board exactly: one
+ * verified set per constituency, contest and source, bound to the current
+ * ballot definition, and no ballot from outside every constituency.
+ */
+export const verifyElectionMix = async (
+  mixedSets: MixedBallotSet[],
+  votes: VoteRecord[],
+  election: BallotDefinition,
+  publicKey: string,
+  boardRoot: string
+): Promise<MixVerification> => {
+  if ((await computeMerkleRoot(votes)) !== boardRoot) {
+    return { valid: false, reason: 'Ballot set no longer matches the one that was mixed' };
+  }
+  const constituencies = listConstituencies(election);
+  const stray = votes.find(v => !constituencies.includes(constituencyOfVote(election.booths, v) ?? ''));
+  if (stray) {
+    return { valid: false, reason: `Ballot ${stray.voteId} comes from outside every constituency` };
+  }
+
+  const expected = constituencies.length * election.contests.length * VOTE_SOURCES.length;
+  if (mixedSets.length !== expected) {
+    return { valid: false, reason: `Expected ${expected} mixed set(s), found ${mixedSets.length}` };
+  }
+  for (const constituency of constituencies) for (const source of VOTE_SOURCES) {
+    const subset = votesForConstituency(votes, election.booths, constituency).filter(v => sourceOfVote(v) === source);
+    for (const contest of election.contests) {
+      const label = `${constituency} / ${contest.name}${source === 'POSTAL' ? ' (postal)' : ''}`;
+      const mixed = mixedSets.find(m => m.constituency === constituency && m.contestId === contest.id && m.source === source);
+      if (!mixed) return { valid: false, reason: `No mixed set for ${label}` };
+      if (mixed.boardRoot !== boardRoot) return { valid: false, reason: `Mixed set for ${label} was taken from a different bulletin board` };
+
+      const { candidateIds, ranked } = ballotSpec(election, constituency, contest.id);
+      if (mixed.ranked !== ranked || mixed.candidateIds.length !== candidateIds.length || mixed.candidateIds.some((id, i) => id !== candidateIds[i])) {
+        return { valid: false, reason: `Mixed set for ${label} is bound to a different ballot` };
+      }
+      const result = await verifyMixedBallots(mixed, subset, publicKey);
+      if (!result.valid) return { valid: false, reason: `${label}: ${result.reason}` };
+    }
+  }
+  return { valid: true, reason: null };
+};
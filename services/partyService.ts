@@ -0,0 +1,36 @@
+// Party registry rules.
+//
+// Parties are managed per election during setup. Short codes identify a
+// party on results and exports, so they are unique regardless of case. A
+// party that candidates still reference cannot be deleted, only retired:
+// a retired party keeps its existing candidates but takes no new ones.
+// Candidates carry a copy of their party's name and symbol for display, kept
+// in step here whenever the party changes.
+
+import { Candidate, Party } from '../types';
+
+const normalizeCode = (shortCode: string) => shortCode.trim().toUpperCase();
+
+/** Why a new or edited party cannot be saved, or null. */
+export const partyProblem = (party: Party, parties: Party[]): string | null => {
+  if (!party.name.trim()) return 'Party name is required.';
+  if (!party.shortCode.trim()) return 'Short code is required.';
+  if (!party.symbolUrl.trim()) return 'Choose an emoji or upload a symbol image.';
+  const clash = parties.find(p => p.id !== party.id && normalizeCode(p.shortCode) === normalizeCode(party.shortCode));
+  if (clash) return `Short code ${normalizeCode(party.shortCode)} is already used by ${clash.name}.`;
+  return null;
+};
+
+export const candidatesOfParty = (candidates: Candidate[], partyId: string) => candidates.filter(c => c.partyId === partyId);
+
+/**
+ * Applies an edited party to its candidates' display copies. A candidate
+ * showing the party's old symbol gets the new one; a symbol of their own is kept.
+ */
+export const syncPartyCandidates = (candidates: Candidate[], previous: Party, updated: Party): Candidate[] =>
+  candidates.map(c => c.partyId !== updated.id ? c : {
+    ...c,
+    partyName: updated.name,
+    partySymbol: updated.symbolUrl,
+    symbol: c.symbol === previous.symbolUrl ? updated.symbolUrl : c.symbol,
+  });
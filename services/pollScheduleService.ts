@@ -0,0 +1,131 @@
+// Opening and closing the polls.
+//
+// An administrator can open and close the polls by hand, or plan both times
+// in advance. Scheduled transitions go through exactly the same readiness
+// checks and the same bulletin board freeze as the manual buttons; only the
+// log entry differs. At a scheduled close, new voters are turned away but a
+// voter already in the booth may finish, and the polls close once the booth
+// is empty. A session left open on a kiosk cannot hold the polls open for
+// long: after a short grace period they close anyway, and the forced close is
+// logged.
+
+import { BulletinBoard, ElectionConfig, SecurityLog, VoteRecord } from '../types';
+import { computeMerkleRoot } from './merkleService';
+import { lockBallotOrder } from './ballotOrderService';
+import { contestingCandidates, isPreferential, listConstituencies, symbolClashes } from './ballotService';
+
+const systemLog = (level: SecurityLog['level'], message: string, timestamp: number): SecurityLog => ({
+  id: crypto.randomUUID(),
+  timestamp,
+  level,
+  category: 'SYSTEM',
+  message,
+});
+
+/** Why the polls cannot open yet, or null when the election is ready. */
+export const readinessProblem = (config: ElectionConfig): string | null => {
+  const unreadyBooths = config.booths.filter(b => !b.accessibilityReady);
+  if (unreadyBooths.length > 0) {
+    return `These booths failed the Accessibility Readiness Check: ${unreadyBooths.map(b => b.id).join(', ')}. Mark them ready once the equipment works, or remove them.`;
+  }
+  if (config.contests.length === 0) {
+    return 'Add at least one contest to the ballot before starting.';
+  }
+  // Every contest needs more candidates than seats in every constituency.
+  // NOTA is added to single-choice ballots automatically and does not count towards the minimum.
+  const thinBallots = listConstituencies(config).flatMap(constituency => config.contests
+    .filter(contest => contestingCandidates(config.candidates, constituency, contest.id).length < Math.max(2, contest.seats + 1))
+    .map(contest => `${constituency} / ${contest.name} (needs ${Math.max(2, contest.seats + 1)})`));
+  if (thinBallots.length > 0) {
+    return `Every contest needs more candidates than seats, and at least 2, in every constituency${isPreferential(config.type) ? '' : ' (NOTA is added automatically)'}. Short of candidates: ${thinBallots.join(', ')}`;
+  }
+  // Party symbols edited after candidates were added can leave two candidates looking alike
+  const clashes = symbolClashes(config.candidates);
+  if (clashes.length > 0) {
+    return `Candidates on the same ballot share a symbol: ${clashes.map(group => `${group.map(c => c.name).join(' and ')} (${group[0].constituency})`).join('; ')}. Give each a distinct free symbol.`;
+  }
+  const unservedCandidates = config.candidates.filter(c => !config.booths.some(b => b.constituency === c.constituency));
+  if (unservedCandidates.length > 0) {
+    return `No polling booth serves the constituency of: ${unservedCandidates.map(c => `${c.name} (${c.constituency})`).join(', ')}`;
+  }
+  const unlistedBooths = config.booths.filter(b => !config.electoralRoll.some(e => e.boothId === b.id));
+  if (unlistedBooths.length > 0) {
+    return `No electors are on the roll of these booths: ${unlistedBooths.map(b => b.id).join(', ')}. Import the electoral roll first.`;
+  }
+  if (!config.publicKey || !config.tokenKey || config.trustees.length === 0) {
+    return 'Run the trustee key ceremony before starting.';
+  }
+  return null;
+};
+
+/** Opens the polls, locking the ballot order. Callers check readinessProblem first. */
+export const openPolls = (config: ElectionConfig, message: string, openedAt = Date.now()): ElectionConfig => {
+  const locked = lockBallotOrder(config, openedAt);
+  return {
+    ...locked,
+    status: 'ACTIVE',
+    startTime: openedAt,
+    logs: [systemLog('INFO', message, openedAt), ...locked.logs],
+  };
+};
+
+/** Merkle root over the whole ledger at close: from here on it pins the exact ballot set. */
+export const freezeBulletinBoard = async (votes: VoteRecord[], frozenAt = Date.now()): Promise<BulletinBoard> => ({
+  root: await computeMerkleRoot(votes),
+  leafCount: votes.length,
+  frozenAt,
+});
+
+/** Closes the polls: every booth is locked and the frozen board is published. */
+export const closePolls = (config: ElectionConfig, board: BulletinBoard, message: string): ElectionConfig => {
+  const boardLog: SecurityLog = {
+    id: crypto.randomUUID(),
+    timestamp: board.frozenAt,
+    level: 'INFO',
+    category: 'VOTE',
+    message: `Bulletin board frozen with ${board.leafCount} ballot(s). Merkle root: ${board.root}`,
+  };
+  return {
+    ...config,
+    status: 'CLOSED',
+    endTime: board.frozenAt,
+    booths: config.booths.map(b => ({ ...b, status: 'LOCKED' as const })),
+    bulletinBoard: board,
+    logs: [boardLog, systemLog('WARNING', message, board.frozenAt), ...config.logs],
+  };
+};
+
+/** Whether a scheduled close has passed, so no new voter may start a session. */
+export const pastScheduledClose = (config: Pick<ElectionConfig, 'scheduledEnd'>, now = Date.now()) =>
+  config.scheduledEnd !== null && now >= config.scheduledEnd;
+
+/** How long a voter still in the booth at a scheduled close may take to finish. */
+export const CLOSE_GRACE_MS = 5 * 60 * 1000;
+
+/** Whether the grace period after a scheduled close is over, so the polls close even with a voter in the booth. */
+export const pastCloseGrace = (config: Pick<ElectionConfig, 'scheduledEnd'>, now = Date.now()) =>
+  config.scheduledEnd !== null && now >= config.scheduledEnd + CLOSE_GRACE_MS;
+
+/** Checks a planned opening and closing time, or returns null when they are usable. */
+export const scheduleProblem = (
+  config: Pick<ElectionConfig, 'status' | 'scheduledStart' | 'scheduledEnd'>,
+  now = Date.now()
+): string | null => {
+  const { status, scheduledStart, scheduledEnd } = config;
+  if (status === 'SETUP' && scheduledStart !== null && scheduledStart <= now) return 'The opening time has already passed.';
+  if (scheduledEnd !== null && scheduledEnd <= now) return 'The closing time has already passed.';
+  if (status === 'SETUP' && scheduledStart !== null && scheduledEnd !== null && scheduledEnd <= scheduledStart) {
+    return 'The polls must close after they open.';
+  }
+  return null;
+};
+
+/** Time left as H:MM:SS, with a day count when it is more than a day away. */
+export const formatCountdown = (ms: number): string => {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const days = Math.floor(total / 86400);
+  const clock = [Math.floor(total / 3600) % 24, Math.floor(total / 60) % 60, total % 60]
+    .map((n, i) => i === 0 ? String(n) : String(n).padStart(2, '0'))
+    .join(':');
+  return days > 0 ? `${days}d ${clock}` : clock;
+};
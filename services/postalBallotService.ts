@@ -0,0 +1,91 @@
+// Postal and service-voter ballots.
+//
+// Postal ballots (absentee voters) and service voters' ballots reach the
+// returning officer in envelopes. At the postal desk each envelope's serial is
+// entered and its declaration checked; a rejected envelope is recorded with
+// the reason and its ballot is never entered. An accepted ballot is keyed in
+// by the officer, encrypted under the election key like a kiosk ballot, signed
+// with the postal desk's key and sealed onto the ledger tagged POSTAL with its
+// constituency. From there it is mixed and counted apart from booth ballots.
+//
+// The envelope register never records which ledger ballot an envelope
+// produced. Nor can timing link them: an envelope is dated only by the day it
+// was checked, the register is kept in serial order rather than entry order,
+// and the log entry for an accepted envelope leaves out its serial. Anyone
+// can still check that each constituency has exactly as many postal ballots
+// on the ledger as accepted envelopes.
+
+import { ElectionConfig, PostalEnvelope, SecurityLog } from '../types';
+import { generateBoothKeyPair } from './boothSigningService';
+import { listConstituencies } from './ballotService';
+
+/** boothId carried by postal ballots on the ledger. */
+export const POSTAL_DESK_ID = 'POSTAL';
+
+export const VOTER_CATEGORY_LABELS: Record<PostalEnvelope['voterCategory'], string> = {
+  POSTAL: 'Postal voter',
+  SERVICE: 'Service voter',
+};
+
+export const POSTAL_REJECTION_REASONS = [
+  'Declaration (Form 13A) not signed or not attested',
+  'Serial number on the declaration does not match the envelope',
+  'Envelope opened or tampered with',
+  'Ballot paper missing or damaged',
+  'Ballot marked invalidly',
+  'Ballot paper identifies the voter',
+  'Other',
+];
+
+/** Why this envelope cannot be entered, or null. */
+export const envelopeProblem = (config: ElectionConfig, envelope: Pick<PostalEnvelope, 'serial' | 'constituency' | 'status' | 'reason' | 'checkedBy'>): string | null => {
+  if (config.status !== 'ACTIVE') return 'Postal ballots are entered only while the polls are open.';
+  const serial = envelope.serial.trim();
+  if (!serial) return 'Enter the envelope serial number.';
+  if (config.postalEnvelopes.some(e => e.serial === serial)) return `Envelope ${serial} has already been entered.`;
+  if (!listConstituencies(config).includes(envelope.constituency)) return 'Choose the constituency the voter is enrolled in.';
+  if (!envelope.checkedBy.trim()) return 'Enter the name of the officer checking the envelope.';
+  if (envelope.status === 'REJECTED' && !envelope.reason?.trim()) return 'Give a reason for rejecting the envelope.';
+  return null;
+};
+
+// Stands in for the returning officer's secure key storage, like the kiosk identity
+const deskKeyStorage = (electionId: string) => `postal_desk:${electionId}`;
+
+/**
+ * The postal desk's signing keypair for this election, generated on first
+ * use. Throws if the election already has a desk key that this device does
+ * not hold.
+ */
+export const postalDeskKeyPair = async (config: Pick<ElectionConfig, 'id' | 'postalDeskKey'>): Promise<{ publicKey: string; privateKey: string }> => {
+  const saved = localStorage.getItem(deskKeyStorage(config.id));
+  const keyPair = saved ? JSON.parse(saved) as { publicKey: string; privateKey: string } : null;
+  if (keyPair && (!config.postalDeskKey || keyPair.publicKey === config.postalDeskKey)) return keyPair;
+  if (config.postalDeskKey) throw new Error('Postal ballots for this election are entered at another postal desk.');
+
+  const generated = await generateBoothKeyPair();
+  localStorage.setItem(deskKeyStorage(config.id), JSON.stringify(generated));
+  return generated;
+};
+
+/** The day an envelope is checked on, as recorded in the register. */
+export const envelopeCheckDay = (at = Date.now()): string => {
+  const day = new Date(at);
+  return [day.getFullYear(), day.getMonth() + 1, day.getDate()].map(n => String(n).padStart(2, '0')).join('-');
+};
+
+/** Adds a checked envelope to the register, in serial order, and logs it. */
+export const recordEnvelope = (config: ElectionConfig, envelope: PostalEnvelope): ElectionConfig => {
+  const log: SecurityLog = {
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    level: envelope.status === 'ACCEPTED' ? 'INFO' : 'WARNING',
+    category: 'VOTE',
+    // The ballot enters the ledger moments later, so an accepted envelope's serial stays out of the log
+    message: envelope.status === 'ACCEPTED'
+      ? `${VOTER_CATEGORY_LABELS[envelope.voterCategory]} envelope (${envelope.constituency}) accepted by ${envelope.checkedBy}; ballot encrypted and entered.`
+      : `${VOTER_CATEGORY_LABELS[envelope.voterCategory]} envelope ${envelope.serial} (${envelope.constituency}) rejected by ${envelope.checkedBy}: ${envelope.reason}`,
+  };
+  const postalEnvelopes = [...config.postalEnvelopes, envelope].sort((a, b) => a.serial.localeCompare(b.serial, undefined, { numeric: true }));
+  return { ...config, postalEnvelopes, logs: [log, ...config.logs] };
+};
@@ -0,0 +1,54 @@
+// QR code reading from the kiosk camera.
+//
+// Uses the browser's BarcodeDetector where it can read QR codes, and otherwise
+// decodes frames with the bundled jsQR, loaded only when needed. Frames are
+// scaled down before jsQR sees them: a slip held up to the camera fills most
+// of the picture, and full-resolution frames are slow on kiosk hardware.
+
+// BarcodeDetector is not yet in the TypeScript DOM library
+interface BarcodeDetectorInstance {
+  detect(source: CanvasImageSource): Promise<{ rawValue: string }[]>;
+}
+interface BarcodeDetectorClass {
+  new (options: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+const JSQR_MAX_WIDTH = 640;
+
+/** Reads the QR code in the current video frame, or null if none can be read. */
+export type QrDecoder = (video: HTMLVideoElement) => Promise<string | null>;
+
+export const createQrDecoder = async (): Promise<QrDecoder> => {
+  const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorClass }).BarcodeDetector;
+  if (Detector && (await Detector.getSupportedFormats()).includes('qr_code')) {
+    const detector = new Detector({ formats: ['qr_code'] });
+    return async video => (await detector.detect(video))[0]?.rawValue ?? null;
+  }
+
+  const { default: jsQR } = await import('jsqr');
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('This device cannot decode QR codes.');
+  return async video => {
+    const scale = Math.min(1, JSQR_MAX_WIDTH / video.videoWidth);
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    if (!canvas.width || !canvas.height) return null;
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const frame = context.getImageData(0, 0, canvas.width, canvas.height);
+    return jsQR(frame.data, frame.width, frame.height, { inversionAttempts: 'dontInvert' })?.data ?? null;
+  };
+};
+
+/** The rear camera where there is one; kiosks usually have only a front camera. */
+export const openCamera = async (): Promise<MediaStream> => {
+  if (!navigator.mediaDevices?.getUserMedia) throw new Error('This device has no camera access.');
+  try {
+    return await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false });
+  } catch (e) {
+    throw new Error(e instanceof DOMException && e.name === 'NotAllowedError'
+      ? 'Camera permission was refused.'
+      : 'The camera could not be started.');
+  }
+};
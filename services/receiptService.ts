@@ -0,0 +1,49 @@
+// Public receipt verification.
+//
+// A voter's receipt carries the record's integrity hash (or its bulletin
+// board leaf hash). Verification only ever looks at hashes and positions, so
+// it tells the voter their ballot is recorded intact without revealing or
+// decrypting anything about its contents.
+
+import { BulletinBoard, VoteRecord } from '../types';
+import { GENESIS_HASH, computeRecordHash } from './ledgerService';
+import { buildInclusionProof, hashLeaf, verifyInclusionProof } from './merkleService';
+
+export interface ReceiptVerification {
+  found: boolean;
+  position: number | null; // 1-based position in the ledger
+  total: number;
+  integrityValid: boolean; // Record digest and link to its predecessor hold
+  inclusion: 'VERIFIED' | 'FAILED' | 'PENDING'; // Against the frozen board root
+}
+
+export const verifyReceipt = async (
+  votes: VoteRecord[],
+  receiptCode: string,
+  board: BulletinBoard | null
+): Promise<ReceiptVerification> => {
+  const code = receiptCode.trim().toLowerCase();
+  const leafHashes = await Promise.all(votes.map(hashLeaf));
+  const index = votes.findIndex((v, i) => v.integrityHash === code || leafHashes[i] === code);
+
+  if (index < 0) {
+    return { found: false, position: null, total: votes.length, integrityValid: false, inclusion: 'PENDING' };
+  }
+
+  const record = votes[index];
+  const expectedPrevious = index > 0 ? votes[index - 1].integrityHash : GENESIS_HASH;
+  const integrityValid =
+    record.previousHash === expectedPrevious &&
+    (await computeRecordHash(record, record.previousHash)) === record.integrityHash;
+
+  let inclusion: ReceiptVerification['inclusion'] = 'PENDING';
+  if (board) {
+    const boardVotes = votes.slice(0, board.leafCount);
+    inclusion = index < boardVotes.length &&
+      (await verifyInclusionProof(leafHashes[index], await buildInclusionProof(boardVotes, index), board.root))
+      ? 'VERIFIED'
+      : 'FAILED';
+  }
+
+  return { found: true, position: index + 1, total: votes.length, integrityValid, inclusion };
+};
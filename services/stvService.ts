@@ -0,0 +1,163 @@
+// Single transferable vote count for preferential ballots.
+//
+// Uses the Droop quota. A candidate reaching the quota is elected and their
+// surplus moves on to each ballot's next continuing preference at a reduced
+// value (surplus / votes held), so every ballot keeps contributing in
+// proportion. When nobody reaches the quota the lowest candidate is excluded
+// and their ballots move on at their current value. With one seat this is
+// instant-runoff voting. The count is deterministic, so anyone holding the
+// decrypted ballots reproduces the same rounds.
+//
+// A tie the ballots cannot separate - for exclusion, or for the last seats
+// when more candidates reach the quota than seats remain - is never broken
+// by ballot order. Without a lot order the count stops there and reports the
+// tie; the returning officer draws lots (see declarationService), and the
+// count is run again with the drawn order settling that tie and any later
+// one.
+
+import { PreferentialCount, StvRound } from '../types';
+
+interface WeightedBallot {
+  ranking: string[];
+  position: number; // Index of the preference currently holding the ballot
+  weight: number;
+}
+
+/** Votes needed to be elected: floor(valid / (seats + 1)) + 1. */
+export const droopQuota = (validBallots: number, seats: number) => Math.floor(validBallots / (seats + 1)) + 1;
+
+/**
+ * Counts ranked ballots (each an ordered list of candidate ids) for the given
+ * number of seats. Candidates tied for exclusion are separated by their votes
+ * in the most recent earlier round where they differ. Ties that remain are
+ * settled by `lotOrder` (candidate ids in the order drawn; the later-drawn is
+ * excluded, the earlier-drawn elected), or stop the count with `tie` set.
+ */
+export const countPreferential = (candidateIds: string[], rankings: string[][], seats: number, lotOrder?: string[]): PreferentialCount => {
+  const quota = droopQuota(rankings.length, seats);
+  const continuing = new Set(candidateIds);
+  const piles = new Map<string, WeightedBallot[]>(candidateIds.map(id => [id, []]));
+  const retained = new Map<string, number>(); // Value kept by elected candidates
+  const elected: string[] = [];
+  const rounds: StvRound[] = [];
+  let exhausted = 0;
+
+  // Moves a ballot to its next continuing preference, returning who received it
+  const place = (ballot: WeightedBallot): string | null => {
+    while (ballot.position < ballot.ranking.length && !continuing.has(ballot.ranking[ballot.position])) ballot.position++;
+    const holder = ballot.ranking[ballot.position];
+    if (holder === undefined) {
+      exhausted += ballot.weight;
+      return null;
+    }
+    piles.get(holder)!.push(ballot);
+    return holder;
+  };
+  const transfer = (ballots: WeightedBallot[], factor: number): Record<string, number> => {
+    const moved: Record<string, number> = {};
+    ballots.forEach(ballot => {
+      ballot.weight *= factor;
+      ballot.position++;
+      const holder = place(ballot);
+      if (holder) moved[holder] = (moved[holder] ?? 0) + ballot.weight;
+    });
+    return moved;
+  };
+  const votesOf = (id: string) => piles.get(id)!.reduce((acc, b) => acc + b.weight, 0);
+  const byLot = (ids: string[]) => [...ids].sort((a, b) => lotOrder!.indexOf(a) - lotOrder!.indexOf(b));
+
+  rankings.forEach(ranking => { place({ ranking, position: 0, weight: 1 }); });
+
+  while (elected.length < seats && continuing.size > 0) {
+    const standing = candidateIds.filter(id => continuing.has(id));
+    const tallies: Record<string, number> = {};
+    candidateIds.forEach(id => {
+      if (continuing.has(id)) tallies[id] = votesOf(id);
+      else if (retained.has(id)) tallies[id] = retained.get(id)!;
+    });
+    const round: StvRound = { round: rounds.length + 1, tallies, exhausted, elected: [], excluded: null, transfers: {} };
+    rounds.push(round);
+
+    // Every remaining seat has exactly one continuing candidate left for it
+    if (standing.length <= seats - elected.length) {
+      round.elected = [...standing].sort((a, b) => tallies[b] - tallies[a]);
+      elected.push(...round.elected);
+      break;
+    }
+
+    const remaining = seats - elected.length;
+    let reached = standing.filter(id => tallies[id] >= quota).sort((a, b) => tallies[b] - tallies[a]);
+    if (reached.length > remaining) {
+      const cutoff = tallies[reached[remaining - 1]];
+      const tied = reached.filter(id => tallies[id] === cutoff);
+      const clear = reached.filter(id => tallies[id] > cutoff);
+      if (tied.length > remaining - clear.length && !lotOrder) {
+        return { seats, quota, rounds, elected, tie: { candidateIds: tied, places: remaining - clear.length } };
+      }
+      reached = [...clear, ...(lotOrder ? byLot(tied) : tied)].slice(0, remaining);
+    }
+    if (reached.length > 0) {
+      reached.forEach(id => {
+        continuing.delete(id);
+        elected.push(id);
+        retained.set(id, quota);
+      });
+      round.elected = reached;
+      if (elected.length < seats) {
+        reached.forEach(id => {
+          const surplus = tallies[id] - quota;
+          if (surplus <= 0) return;
+          const moved = transfer(piles.get(id)!, surplus / tallies[id]);
+          Object.entries(moved).forEach(([to, value]) => { round.transfers[to] = (round.transfers[to] ?? 0) + value; });
+        });
+      }
+      continue;
+    }
+
+    const lowest = Math.min(...standing.map(id => tallies[id]));
+    let tied = standing.filter(id => tallies[id] === lowest);
+    for (let earlier = rounds.length - 2; earlier >= 0 && tied.length > 1; earlier--) {
+      const before = rounds[earlier].tallies;
+      const least = Math.min(...tied.map(id => before[id] ?? 0));
+      tied = tied.filter(id => (before[id] ?? 0) === least);
+    }
+    if (tied.length > 1 && !lotOrder) {
+      return { seats, quota, rounds, elected, tie: { candidateIds: tied, places: tied.length - 1 } };
+    }
+    const excluded = lotOrder ? byLot(tied)[tied.length - 1] : tied[0];
+    continuing.delete(excluded);
+    round.excluded = excluded;
+    round.transfers = transfer(piles.get(excluded)!, 1);
+  }
+
+  return { seats, quota, rounds, elected };
+};
+
+// Vote values summed in another ballot order can differ in the last bits
+const VALUE_TOLERANCE = 1e-9;
+
+const sameValues = (a: Record<string, number>, b: Record<string, number>) =>
+  Object.keys(a).length === Object.keys(b).length &&
+  Object.entries(a).every(([id, value]) => id in b && Math.abs(value - b[id]) <= VALUE_TOLERANCE);
+
+const sameIds = (a: string[], b: string[]) => a.length === b.length && a.every((id, i) => id === b[i]);
+
+/**
+ * Whether two counts of the same ballots agree: the same candidates elected
+ * in the same order, and the same tallies, transfers, elections and
+ * exclusion in every round. A recount opens the ballots in a fresh mix, so
+ * neither the order of the candidates within a round nor rounding in the
+ * vote values is significant.
+ */
+export const samePreferentialCount = (a: PreferentialCount | undefined, b: PreferentialCount | undefined): boolean => {
+  if (!a || !b) return a === b;
+  return a.seats === b.seats && a.quota === b.quota && sameIds(a.elected, b.elected) &&
+    (a.tie && b.tie ? a.tie.places === b.tie.places && sameIds(a.tie.candidateIds, b.tie.candidateIds) : !a.tie && !b.tie) &&
+    a.rounds.length === b.rounds.length &&
+    a.rounds.every((round, i) => {
+      const other = b.rounds[i];
+      return round.round === other.round && round.excluded === other.excluded && sameIds(round.elected, other.elected) &&
+        Math.abs(round.exhausted - other.exhausted) <= VALUE_TOLERANCE &&
+        sameValues(round.tallies, other.tallies) && sameValues(round.transfers, other.transfers);
+    });
+};
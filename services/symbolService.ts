@@ -0,0 +1,106 @@
+// Ballot images: party and candidate symbols, and candidate photographs.
+//
+// A symbol is either an emoji or an uploaded image. Uploads are checked and
+// normalised in the browser, then kept as data URLs inside the election
+// config, so kiosks show them without any network access. Voters who cannot
+// read rely on the symbol alone, so an image must be clearly visible on the
+// white ballot: its ink, the pixels that are not background, needs at least
+// the WCAG 3:1 contrast against white required of graphical objects.
+
+export const SYMBOL_MAX_BYTES = 200 * 1024;
+export const PHOTO_MAX_BYTES = 500 * 1024;
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+const MIN_SYMBOL_SIDE = 64; // Pixels; smaller images blur at kiosk size
+const STORED_SYMBOL_SIDE = 128;
+const MIN_PHOTO_SIDE = 120;
+const STORED_PHOTO_SIDE = 240;
+const MIN_CONTRAST = 3;
+const BACKGROUND_CONTRAST = 1.1; // Pixels this close to white are paper, not ink
+const MIN_INK_SHARE = 0.02; // A few stray specks are not a symbol
+const WHITE = 1; // Relative luminance of the ballot paper
+
+export const isImageSymbol = (symbol: string) => symbol.startsWith('data:image/');
+
+// WCAG relative luminance of an sRGB colour
+const luminance = (r: number, g: number, b: number) => {
+  const linear = (c: number) => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+};
+
+const contrastRatio = (a: number, b: number) => (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+
+// Opens an upload as an image, or throws with a message for the administrator
+const readImage = async (file: File, what: string, maxBytes: number, minSide: number): Promise<ImageBitmap> => {
+  if (!IMAGE_TYPES.includes(file.type)) {
+    throw new Error(`${what} must be a PNG, JPEG or WebP image.`);
+  }
+  if (file.size > maxBytes) {
+    throw new Error(`${what} is ${Math.ceil(file.size / 1024)} KB; the limit is ${maxBytes / 1024} KB.`);
+  }
+  const image = await createImageBitmap(file).catch(() => {
+    throw new Error(`${what} could not be read.`);
+  });
+  if (Math.min(image.width, image.height) < minSide) {
+    image.close();
+    throw new Error(`${what} is ${image.width}x${image.height} pixels; it must be at least ${minSide}x${minSide}.`);
+  }
+  return image;
+};
+
+// Draws the image scaled to fit `side`, flattened onto white
+const drawScaled = (image: ImageBitmap, side: number) => {
+  const scale = Math.min(1, side / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(image.height * scale);
+  const context = canvas.getContext('2d')!;
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  image.close();
+  return { canvas, context };
+};
+
+/**
+ * Checks an uploaded symbol and returns it as a PNG data URL scaled to fit
+ * STORED_SYMBOL_SIDE. Throws with a message for the administrator when the
+ * file is the wrong type, too large, too small, or lacks contrast. Contrast
+ * is that of the median ink pixel against white, so the lighter anti-aliased
+ * edges and a few dark specks cannot decide it either way.
+ */
+export const prepareSymbolImage = async (file: File): Promise<string> => {
+  const image = await readImage(file, 'Symbol image', SYMBOL_MAX_BYTES, MIN_SYMBOL_SIDE);
+  const { canvas, context } = drawScaled(image, STORED_SYMBOL_SIDE);
+
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+  const ink: number[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    const level = luminance(data[i], data[i + 1], data[i + 2]);
+    if (contrastRatio(level, WHITE) >= BACKGROUND_CONTRAST) ink.push(level);
+  }
+  if (ink.length < (data.length / 4) * MIN_INK_SHARE) {
+    throw new Error('Symbol image is blank or too faint to see on the white ballot.');
+  }
+  ink.sort((a, b) => a - b);
+  const contrast = contrastRatio(ink[Math.floor(ink.length / 2)], WHITE);
+  if (contrast < MIN_CONTRAST) {
+    throw new Error(`Symbol contrast against the white ballot is ${contrast.toFixed(1)}:1; at least ${MIN_CONTRAST}:1 is needed to be clearly visible.`);
+  }
+
+  return canvas.toDataURL('image/png');
+};
+
+/** Checks an uploaded candidate photograph and returns it as a JPEG data URL scaled to fit STORED_PHOTO_SIDE. */
+export const prepareCandidatePhoto = async (file: File): Promise<string> => {
+  const image = await readImage(file, 'Photograph', PHOTO_MAX_BYTES, MIN_PHOTO_SIDE);
+  return drawScaled(image, STORED_PHOTO_SIDE).canvas.toDataURL('image/jpeg', 0.85);
+};
+
+/** Alternative text for a candidate's photograph, shown to screen readers and spoken by the booth. */
+export const photoAltText = (candidate: { name: string }) => `Photograph of ${candidate.name}`;
+
+/** What the booth's speech says for a symbol: the emoji itself, or whose symbol an image is. */
+export const spokenSymbol = (symbol: string, owner: string) => isImageSymbol(symbol) ? `the ${owner} symbol` : symbol;
@@ -0,0 +1,239 @@
+// Tally. By default a plurality contest's mixed ballots are multiplied
+// together component-wise and only the per-candidate sums are decrypted, each
+// with a decryption proof, so no single ballot is ever opened. The election
+// may instead be set to open each mixed ballot on its own (PER_BALLOT), and
+// ranked ballots are always opened one by one and counted by STV, which needs
+// every preference list. Booth and postal ballots are opened from their own
+// mixed sets and then counted together, so the published result also shows
+// each source's share.
+
+import { BallotSpec, DecryptedBallot, ElGamalCiphertext, MixedBallotSet, PreferentialCount, PublishedTally, SourceTally, TallyMode, TallyResult, VoteRecord, VoteSource } from '../types';
+import {
+  IDENTITY_CIPHERTEXT, ballotWidth, contestBallot, decodeChoices, decryptExponent, multiplyCiphertexts, proveDecryption, verifyBallotProofs
+} from './cryptoService';
+import { isNota } from './ballotService';
+import { countPreferential } from './stvService';
+
+export const TALLY_MODE_LABELS: Record<TallyMode, string> = {
+  AGGREGATE: 'Homomorphic sums only (no ballot is opened)',
+  PER_BALLOT: 'Open each mixed ballot',
+};
+
+export interface AggregateBallots {
+  spec: BallotSpec;
+  ciphertexts: ElGamalCiphertext[]; // One per ballot component
+  accepted: number;
+  rejected: string[]; // voteIds that could not enter the aggregate
+}
+
+const sameOrder = (a: string[], b: string[]) => a.length === b.length && a.every((id, i) => id === b[i]);
+
+/**
+ * Multiplies every vote's well-formed ballot for the spec's contest into one
+ * ciphertext per component. Ballots bound to a different candidate order, or
+ * whose zero-knowledge proofs do not verify, are rejected, never re-mapped.
+ */
+export const aggregateBallots = async (votes: VoteRecord[], spec: BallotSpec, publicKey: string): Promise<AggregateBallots> => {
+  const ciphertexts = new Array<ElGamalCiphertext>(ballotWidth(spec)).fill(IDENTITY_CIPHERTEXT);
+  const rejected: string[] = [];
+  let accepted = 0;
+
+  for (const v of votes) {
+    const ballot = contestBallot(v.encryptedData, spec.contestId);
+    if (!ballot || !sameOrder(ballot.candidateIds, spec.candidateIds) || !(await verifyBallotProofs(ballot, publicKey, spec))) {
+      rejected.push(v.voteId);
+      continue;
+    }
+    ballot.ciphertexts.forEach((c, i) => { ciphertexts[i] = multiplyCiphertexts(ciphertexts[i], c); });
+    accepted++;
+  }
+
+  return { spec, ciphertexts, accepted, rejected };
+};
+
+/**
+ * Decrypts the aggregate with the election secret. Throws if any component
+ * does not decrypt to a count between 0 and the number of accepted ballots.
+ */
+export const decryptAggregate = (aggregate: AggregateBallots, secret: bigint): number[] => {
+  return aggregate.ciphertexts.map((ciphertext, i) => {
+    const count = decryptExponent(ciphertext, secret, aggregate.accepted);
+    if (count === null) {
+      throw new Error(`Aggregate component ${i} did not decrypt to a valid count`);
+    }
+    return count;
+  });
+};
+
+const toResults = (candidateIds: string[], counts: number[]): TallyResult[] =>
+  candidateIds.map((candidateId, i) => isNota(candidateId) ? { candidateId, count: counts[i], isNota: true } : { candidateId, count: counts[i] });
+
+/**
+ * Counts one source's ballots for a contest straight from the ledger: their
+ * proofs are checked again, they are multiplied together and only the sums
+ * are decrypted. This gives a recount a path that does not go through the
+ * mix. The sums are not proven, so the count is only ever compared with the
+ * first count, never published.
+ */
+export const tallyLedgerAggregate = async (
+  votes: VoteRecord[],
+  spec: BallotSpec,
+  source: VoteSource,
+  secret: bigint,
+  publicKey: string
+): Promise<{ tally: SourceTally; rejected: string[] }> => {
+  const aggregate = await aggregateBallots(votes, spec, publicKey);
+  const counts = decryptAggregate(aggregate, secret);
+  return {
+    tally: { source, mode: 'AGGREGATE', results: toResults(spec.candidateIds, counts), invalid: 0, aggregate: { ciphertexts: aggregate.ciphertexts, counts, decryptionProofs: [] } },
+    rejected: aggregate.rejected,
+  };
+};
+
+/** Whether a contest's ballots are opened one by one rather than as an aggregate. */
+export const opensPerBallot = (mode: TallyMode, spec: Pick<BallotSpec, 'ranked'>) => spec.ranked || mode === 'PER_BALLOT';
+
+export const specOfMixedSet = (mixed: MixedBallotSet): BallotSpec =>
+  ({ contestId: mixed.contestId, candidateIds: mixed.candidateIds, ranked: mixed.ranked });
+
+/** A mixed set's ballots multiplied together, one ciphertext per component. */
+export const multiplyMixedBallots = (mixed: MixedBallotSet): ElGamalCiphertext[] =>
+  Array.from({ length: ballotWidth(specOfMixedSet(mixed)) }, (_, k) =>
+    mixed.ciphertexts.reduce((acc, b) => multiplyCiphertexts(acc, b[k]), IDENTITY_CIPHERTEXT));
+
+/**
+ * Counts opened ballots. A single-choice ballot must hold exactly one choice;
+ * a ranked ballot must hold a non-empty list of distinct preferences, and is
+ * counted by STV for the given number of seats. Results are first
+ * preferences. Anything else is counted as invalid. `lotOrder` settles STV
+ * ties once lots have been drawn.
+ */
+export const countDecryptedBallots = (
+  spec: BallotSpec,
+  ballots: DecryptedBallot[],
+  seats: number,
+  lotOrder?: string[]
+): { results: TallyResult[]; invalid: number; preferential?: PreferentialCount } => {
+  const { candidateIds } = spec;
+  const counts = candidateIds.map(() => 0);
+  const rankings: string[][] = [];
+  let invalid = 0;
+  ballots.forEach(({ plaintext }) => {
+    const choices = decodeChoices(plaintext, spec);
+    if (!choices || choices.length === 0) {
+      invalid++;
+      return;
+    }
+    counts[candidateIds.indexOf(choices[0])]++;
+    rankings.push(choices);
+  });
+  const results = toResults(candidateIds, counts);
+  return spec.ranked
+    ? { results, invalid, preferential: countPreferential(candidateIds, rankings, seats, lotOrder) }
+    : { results, invalid };
+};
+
+// Fiat-Shamir context for the decryption proofs of one mixed set
+export const decryptionContext = (mixed: MixedBallotSet) =>
+  `mix:${mixed.boardRoot}:${mixed.constituency}:${mixed.contestId}${mixed.source === 'POSTAL' ? ':POSTAL' : ''}`;
+
+/**
+ * Decrypts only the product of a plurality contest's mixed ballots, proving
+ * each per-candidate sum. The ballot proofs checked before the mix guarantee
+ * every ballot holds exactly one choice, so nothing is invalid. An empty set
+ * decrypts to zeros with nothing to prove.
+ */
+export const tallyMixedAggregate = async (mixed: MixedBallotSet, secret: bigint, publicKey: string): Promise<SourceTally> => {
+  const spec = specOfMixedSet(mixed);
+  if (spec.ranked) throw new Error('Ranked ballots cannot be counted from an aggregate');
+  const ciphertexts = multiplyMixedBallots(mixed);
+  const counts = decryptAggregate({ spec, ciphertexts, accepted: mixed.ciphertexts.length, rejected: mixed.excludedVoteIds }, secret);
+  const context = decryptionContext(mixed);
+  const decryptionProofs = [];
+  if (mixed.ciphertexts.length > 0) {
+    for (let k = 0; k < ciphertexts.length; k++) decryptionProofs.push(await proveDecryption(ciphertexts[k], counts[k], secret, publicKey, context));
+  }
+  return { source: mixed.source, mode: 'AGGREGATE', results: toResults(spec.candidateIds, counts), invalid: 0, aggregate: { ciphertexts, counts, decryptionProofs } };
+};
+
+/**
+ * Decrypts each mixed ballot on its own (the mix has already cut the link to
+ * the ledger), proving every component's plaintext, and counts them. The
+ * plaintexts are cross-checked against the homomorphic aggregate of the same
+ * ballots. Throws if any component is not a 0/1 encryption.
+ */
+export const tallyMixedBallots = async (mixed: MixedBallotSet, secret: bigint, publicKey: string, seats: number): Promise<SourceTally> => {
+  const context = decryptionContext(mixed);
+  const decryptedBallots: DecryptedBallot[] = [];
+
+  for (const ballot of mixed.ciphertexts) {
+    const plaintext = ballot.map(c => decryptExponent(c, secret, 1));
+    if (plaintext.some(m => m === null)) {
+      throw new Error('A mixed ballot component did not decrypt to 0 or 1');
+    }
+    const decryptionProofs = [];
+    for (let i = 0; i < ballot.length; i++) {
+      decryptionProofs.push(await proveDecryption(ballot[i], plaintext[i]!, secret, publicKey, context));
+    }
+    decryptedBallots.push({ plaintext: plaintext as number[], decryptionProofs });
+  }
+
+  const spec = specOfMixedSet(mixed);
+  const { results, invalid } = countDecryptedBallots(spec, decryptedBallots, seats);
+
+  const aggregate: AggregateBallots = { spec, ciphertexts: multiplyMixedBallots(mixed), accepted: mixed.ciphertexts.length, rejected: mixed.excludedVoteIds };
+  const aggregated = decryptAggregate(aggregate, secret);
+  if (aggregated.some((count, k) => count !== decryptedBallots.reduce((acc, b) => acc + b.plaintext[k], 0))) {
+    throw new Error('Per-ballot plaintexts do not match the homomorphic aggregate');
+  }
+
+  return { source: mixed.source, mode: 'PER_BALLOT', results, decryptedBallots, invalid };
+};
+
+/** Opens one mixed set the way the election's tally mode asks for its contest. */
+export const tallyMixedSet = (mixed: MixedBallotSet, secret: bigint, publicKey: string, seats: number, mode: TallyMode): Promise<SourceTally> =>
+  opensPerBallot(mode, mixed) ? tallyMixedBallots(mixed, secret, publicKey, seats) : tallyMixedAggregate(mixed, secret, publicKey);
+
+/** Per-candidate counts summed over sources, in the spec's candidate order. */
+const sumSourceResults = (spec: BallotSpec, sources: SourceTally[]): TallyResult[] =>
+  toResults(spec.candidateIds, spec.candidateIds.map(id =>
+    sources.reduce((n, s) => n + (s.results.find(r => r.candidateId === id)?.count ?? 0), 0)));
+
+/**
+ * Counts one contest over the ballots of every source together. Aggregates
+ * are summed; opened ballots are counted again as one pool, since STV needs
+ * the whole pool and the preferential count is never summed from the
+ * per-source counts.
+ */
+export const combineSourceTallies = (
+  constituency: string,
+  spec: BallotSpec,
+  sources: SourceTally[],
+  seats: number,
+  lotOrder?: string[]
+): PublishedTally => {
+  const publishedAt = Date.now();
+  if (!sources.every(s => s.mode === 'PER_BALLOT')) {
+    return { constituency, contestId: spec.contestId, results: sumSourceResults(spec, sources), sources, invalid: sources.reduce((n, s) => n + s.invalid, 0), publishedAt };
+  }
+  const { results, invalid, preferential } = countDecryptedBallots(spec, sources.flatMap(s => s.mode === 'PER_BALLOT' ? s.decryptedBallots : []), seats, lotOrder);
+  const published: PublishedTally = { constituency, contestId: spec.contestId, results, sources, invalid, publishedAt };
+  if (preferential) published.preferential = preferential;
+  return published;
+};
+
+/**
+ * The `seats` candidates with the most votes. Candidates tied across the
+ * last winning place are all left out, so fewer winners than seats means a
+ * tie; nobody without votes wins. NOTA votes are counted but never win, even
+ * with a plurality.
+ */
+export const leadingCandidates = (results: TallyResult[], seats: number): string[] => {
+  const ordered = results.filter(r => !r.isNota && r.count > 0).sort((a, b) => b.count - a.count);
+  const cutoff = ordered[seats]?.count;
+  return ordered.slice(0, seats).filter(r => r.count !== cutoff).map(r => r.candidateId);
+};
+
+/** Who won one contest in one constituency: the STV elected list, or the plurality leaders. */
+export const winningCandidates = (tally: PublishedTally, seats: number): string[] =>
+  tally.preferential ? tally.preferential.elected : leadingCandidates(tally.results, seats);
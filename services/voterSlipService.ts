@@ -0,0 +1,101 @@
+// Voter information slips.
+//
+// Before polling day every elector receives a slip with their name, EPIC
+// number and booth, and a QR code the kiosk scans at check-in. The QR code
+// carries the election id, EPIC number and booth id signed with the returning
+// officer's slip key, so the kiosk can tell a slip issued for this election
+// from a foreign or home-made one before it asks the roll desk. A slip only
+// identifies the elector: the roll desk still refuses anyone listed at another
+// booth or already marked (see electoralRollService). A damaged slip is
+// replaced by typing the EPIC number from the voter's card.
+//
+// Slips are issued as a CSV for the printer, who renders each payload as a QR
+// code. Re-issuing signs the current roll again with the same key.
+
+import { ElectionConfig, SecurityLog } from '../types';
+import { generateBoothKeyPair, signText, verifyTextSignature } from './boothSigningService';
+import { EPIC_PATTERN, findElector } from './electoralRollService';
+
+/** Leads every slip payload; a later layout would take a new tag. */
+export const SLIP_FORMAT = 'VSLIP1';
+
+export interface VoterSlip {
+  electionId: string;
+  epic: string;
+  boothId: string;
+  signature: string; // Slip key ECDSA signature (base64)
+}
+
+/** What the kiosk makes of a scanned code. */
+export type SlipScan =
+  | { status: 'OK'; slip: VoterSlip }
+  | { status: 'UNREADABLE'; message: string } // Not a voter slip, or a garbled one
+  | { status: 'UNKNOWN_VOTER'; message: string }; // A slip, but not one for an elector of this election
+
+const signedText = (slip: Omit<VoterSlip, 'signature'>) =>
+  [SLIP_FORMAT, slip.electionId, slip.epic, slip.boothId].join('|');
+
+export const encodeVoterSlip = (slip: VoterSlip) => `${signedText(slip)}|${slip.signature}`;
+
+/** The fields of a slip payload, or null if it is not one. Does not check the signature. */
+export const parseVoterSlip = (payload: string): VoterSlip | null => {
+  const fields = payload.trim().split('|');
+  if (fields.length !== 5 || fields[0] !== SLIP_FORMAT) return null;
+  const [, electionId, epic, boothId, signature] = fields;
+  if (!electionId || !EPIC_PATTERN.test(epic) || !boothId || !signature) return null;
+  return { electionId, epic, boothId, signature };
+};
+
+/**
+ * Checks a scanned payload against this election. The booth on the slip is
+ * not checked here: the roll decides where an elector votes, and the roll desk
+ * gives the reason if it is another booth.
+ */
+export const readVoterSlip = async (payload: string, config: Pick<ElectionConfig, 'id' | 'slipKey' | 'electoralRoll'>): Promise<SlipScan> => {
+  const slip = parseVoterSlip(payload);
+  if (!slip) return { status: 'UNREADABLE', message: 'This code is not a voter information slip.' };
+  if (slip.electionId !== config.id) return { status: 'UNKNOWN_VOTER', message: 'This slip was issued for a different election.' };
+  if (!config.slipKey || !(await verifyTextSignature(signedText(slip), slip.signature, config.slipKey))) {
+    return { status: 'UNKNOWN_VOTER', message: 'This slip was not issued by the returning officer.' };
+  }
+  if (!findElector(config.electoralRoll, slip.epic)) return { status: 'UNKNOWN_VOTER', message: 'This EPIC number is not on the electoral roll.' };
+  return { status: 'OK', slip };
+};
+
+// Stands in for the returning officer's secure key storage, like the kiosk identity
+const slipKeyStorage = (electionId: string) => `slip_desk:${electionId}`;
+
+/**
+ * The slip signing keypair for this election, generated on first use. Throws
+ * if the election already has a slip key that this device does not hold.
+ */
+export const slipKeyPair = async (config: Pick<ElectionConfig, 'id' | 'slipKey'>): Promise<{ publicKey: string; privateKey: string }> => {
+  const saved = localStorage.getItem(slipKeyStorage(config.id));
+  const keyPair = saved ? JSON.parse(saved) as { publicKey: string; privateKey: string } : null;
+  if (keyPair && (!config.slipKey || keyPair.publicKey === config.slipKey)) return keyPair;
+  if (config.slipKey) throw new Error('Voter slips for this election are issued from another device.');
+
+  const generated = await generateBoothKeyPair();
+  localStorage.setItem(slipKeyStorage(config.id), JSON.stringify(generated));
+  return generated;
+};
+
+/**
+ * Signs a slip for every elector on the roll. Returns the printer's rows and
+ * the config with the slip key registered and the issue logged.
+ */
+export const issueVoterSlips = async (config: ElectionConfig): Promise<{ config: ElectionConfig; rows: Record<string, string>[] }> => {
+  const { publicKey, privateKey } = await slipKeyPair(config);
+  const rows = await Promise.all(config.electoralRoll.map(async e => {
+    const fields = { electionId: config.id, epic: e.epic, boothId: e.boothId };
+    return { epic: e.epic, name: e.name, boothId: e.boothId, qr: encodeVoterSlip({ ...fields, signature: await signText(signedText(fields), privateKey) }) };
+  }));
+  const log: SecurityLog = {
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    level: 'INFO',
+    category: 'SECURITY',
+    message: `Voter information slips issued for ${rows.length} elector(s).`,
+  };
+  return { config: { ...config, slipKey: publicKey, logs: [log, ...config.logs] }, rows };
+};
@@ -0,0 +1,58 @@
+// Blind ballot tokens and the roll check-in that issues them.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BallotToken, VoteRecord } from '../types';
+import { INITIAL_ELECTION_CONFIG } from '../constants';
+import { ballotTokenProblem, blindToken, generateTokenKeyPair, signBlindedToken, spentTokenProblem, unblindToken, verifyBallotToken } from '../services/ballotTokenService';
+import { checkIn } from '../services/electoralRollService';
+
+const { publicKey, privateKey } = await generateTokenKeyPair();
+
+const issueToken = async (): Promise<BallotToken> => {
+  const { token, blinded, blindingFactor } = await blindToken(publicKey);
+  return unblindToken(token, signBlindedToken(blinded, privateKey), blindingFactor, publicKey);
+};
+
+// Only the field the token check reads
+const spent = (ballotToken: BallotToken) => ({ voteId: 'v1', ballotToken }) as VoteRecord;
+
+test('a token signed blind verifies once unblinded', async () => {
+  const ballotToken = await issueToken();
+  assert.equal(await verifyBallotToken(ballotToken, publicKey), true);
+  assert.equal(await verifyBallotToken(ballotToken, (await generateTokenKeyPair()).publicKey), false);
+});
+
+test('a token casts one ballot and is refused the second time', async () => {
+  const ballotToken = await issueToken();
+  assert.equal(await ballotTokenProblem({ ballotToken }, publicKey, []), null);
+  assert.equal(await ballotTokenProblem({ ballotToken }, publicKey, [spent(ballotToken)]), 'Ballot token has already been used');
+  assert.equal(await ballotTokenProblem({ ballotToken: await issueToken() }, publicKey, [spent(ballotToken)]), null);
+  // The check repeated as the ballot is appended
+  assert.equal(spentTokenProblem({ ballotToken }, []), null);
+  assert.equal(spentTokenProblem({ ballotToken }, [spent(ballotToken)]), 'Ballot token has already been used');
+});
+
+test('a missing, forged or altered token is refused', async () => {
+  const ballotToken = await issueToken();
+  assert.equal(await ballotTokenProblem({}, publicKey, []), 'Ballot carries no roll check-in token');
+  assert.equal(await ballotTokenProblem({ ballotToken }, null, []), 'Ballot token is not signed by the roll desk');
+
+  const { token } = await blindToken(publicKey);
+  assert.equal(await ballotTokenProblem({ ballotToken: { token, signature: ballotToken.signature } }, publicKey, []), 'Ballot token is not signed by the roll desk');
+  assert.equal(await ballotTokenProblem({ ballotToken: { token, signature: '0' } }, publicKey, []), 'Ballot token is not signed by the roll desk');
+  await assert.rejects(unblindToken(token, ballotToken.signature, '1', publicKey));
+});
+
+test('an elector checks in once; a second check-in on the updated roll is refused', () => {
+  const open = { ...INITIAL_ELECTION_CONFIG, status: 'ACTIVE' as const };
+  const [elector] = open.electoralRoll;
+  const first = checkIn(open, elector.boothId, elector.epic.toLowerCase());
+  assert.equal(first.problem, null);
+  assert.equal(first.config.electoralRoll.find(e => e.epic === elector.epic)!.hasVoted, true);
+
+  const second = checkIn(first.config, elector.boothId, elector.epic);
+  assert.equal(second.problem, 'This elector is already marked as having voted.');
+  assert.equal(second.config, first.config);
+  assert.match(checkIn(open, 'NO-SUCH-BOOTH', elector.epic).problem!, /must vote there/);
+});
@@ -0,0 +1,62 @@
+// Bulk import and export of the registry.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { INITIAL_ELECTION_CONFIG } from '../constants';
+import { BulkFormat, BulkKind, applyImport, exportRecords, importErrorCount, previewImport } from '../services/bulkImportService';
+
+const config = INITIAL_ELECTION_CONFIG;
+const KINDS: BulkKind[] = ['parties', 'candidates', 'booths', 'roll'];
+const FORMATS: BulkFormat[] = ['csv', 'json'];
+
+for (const kind of KINDS) for (const format of FORMATS) {
+  test(`${kind} exported as ${format} import back unchanged`, async () => {
+    const exported = exportRecords(kind, format, config);
+    const preview = await previewImport(kind, format, `${kind}.${format}`, exported, config);
+    assert.equal(importErrorCount(preview), 0);
+    assert.ok(preview.rows.every(row => row.action === 'UPDATE'));
+    const applied = applyImport(config, preview);
+    assert.equal(exportRecords(kind, format, applied), exported);
+    assert.equal(applied.logs.length, config.logs.length + 1);
+  });
+}
+
+test('updating booths from a file keeps their enrolment and status', async () => {
+  const preview = await previewImport('booths', 'json', 'booths.json', exportRecords('booths', 'json', config), config);
+  assert.deepEqual(applyImport(config, preview).booths, config.booths);
+});
+
+test('an exported roll fills an empty roll, without the marks', async () => {
+  const marked = { ...config, electoralRoll: config.electoralRoll.map((e, i) => ({ ...e, hasVoted: i === 0 })) };
+  const empty = { ...config, electoralRoll: [] };
+  const preview = await previewImport('roll', 'csv', 'roll.csv', exportRecords('roll', 'csv', marked), empty);
+  assert.equal(importErrorCount(preview), 0);
+  assert.ok(preview.rows.every(row => row.action === 'ADD'));
+  assert.deepEqual(applyImport(empty, preview).electoralRoll, config.electoralRoll.map(e => ({ ...e, hasVoted: false })));
+});
+
+test('CSV fields a spreadsheet would misread survive the round trip', async () => {
+  const booth = config.booths[0];
+  const awkward = { ...config, booths: [{ ...booth, name: 'Hall "B", east wing', location: 'Line one\nline two' }, ...config.booths.slice(1)] };
+  const preview = await previewImport('booths', 'csv', 'booths.csv', exportRecords('booths', 'csv', awkward), awkward);
+  assert.equal(importErrorCount(preview), 0);
+  assert.deepEqual(applyImport(awkward, preview).booths, awkward.booths);
+});
+
+test('bad rows are reported in the preview rather than applied', async () => {
+  const [first] = config.electoralRoll;
+  const rows = [
+    { epic: first.epic, name: first.name, boothId: first.boothId },
+    { epic: first.epic, name: 'Someone Else', boothId: first.boothId },
+    { epic: 'NOT-AN-EPIC', name: 'Nobody', boothId: first.boothId },
+    { epic: 'ZZZ9999999', name: 'Nowhere', boothId: 'NO-SUCH-BOOTH' },
+  ];
+  const preview = await previewImport('roll', 'json', 'roll.json', JSON.stringify(rows), config);
+  assert.deepEqual(preview.rows.map(row => row.errors.length > 0), [false, true, true, true]);
+});
+
+test('a file that is not an import at all is refused outright', async () => {
+  await assert.rejects(previewImport('roll', 'json', 'roll.json', '{ not json', config));
+  await assert.rejects(previewImport('roll', 'csv', 'roll.csv', 'colour,size\r\nred,large\r\n', config));
+  await assert.rejects(previewImport('roll', 'json', 'roll.json', '[]', config));
+});
@@ -0,0 +1,44 @@
+// Ballot encryption and well-formedness proofs.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BallotSpec } from '../types';
+import { auditBallot, decodeChoices, decryptExponent, encryptBallot, encryptExponent, generateElectionKeyPair, verifyBallotProofs } from '../services/cryptoService';
+
+const { publicKey, secret } = generateElectionKeyPair();
+const single: BallotSpec = { contestId: 'mp', candidateIds: ['a', 'b', 'c'], ranked: false };
+const ranked: BallotSpec = { contestId: 'mlc', candidateIds: ['a', 'b', 'c'], ranked: true };
+
+test('a single-choice ballot proves itself and decrypts to its choice', async () => {
+  const { ballot, randomness } = await encryptBallot(['b'], publicKey, single);
+  assert.equal(await verifyBallotProofs(ballot, publicKey, single), true);
+  assert.deepEqual(auditBallot(ballot, randomness, publicKey), ['b']);
+  const plaintext = ballot.ciphertexts.map(c => decryptExponent(c, secret, 1)!);
+  assert.deepEqual(decodeChoices(plaintext, single), ['b']);
+});
+
+test('a ranked ballot proves itself and decrypts to its preference order', async () => {
+  const { ballot } = await encryptBallot(['c', 'a'], publicKey, ranked);
+  assert.equal(await verifyBallotProofs(ballot, publicKey, ranked), true);
+  const plaintext = ballot.ciphertexts.map(c => decryptExponent(c, secret, 1)!);
+  assert.deepEqual(decodeChoices(plaintext, ranked), ['c', 'a']);
+});
+
+test('a ballot with a component swapped for a double vote fails its proofs', async () => {
+  const { ballot } = await encryptBallot(['a'], publicKey, single);
+  const stuffed = { ...ballot, ciphertexts: [encryptExponent(2, publicKey), ...ballot.ciphertexts.slice(1)] };
+  assert.equal(await verifyBallotProofs(stuffed, publicKey, single), false);
+});
+
+test('a ballot is refused for another contest or candidate order', async () => {
+  const { ballot } = await encryptBallot(['a'], publicKey, single);
+  assert.equal(await verifyBallotProofs(ballot, publicKey, { ...single, contestId: 'ward' }), false);
+  assert.equal(await verifyBallotProofs(ballot, publicKey, { ...single, candidateIds: ['b', 'a', 'c'] }), false);
+  assert.equal(await verifyBallotProofs(ballot, generateElectionKeyPair().publicKey, single), false);
+});
+
+test('encryptBallot refuses a ballot that is not one honest choice', async () => {
+  await assert.rejects(encryptBallot(['a', 'b'], publicKey, single));
+  await assert.rejects(encryptBallot(['x'], publicKey, single));
+  await assert.rejects(encryptBallot(['a', 'a'], publicKey, ranked));
+});
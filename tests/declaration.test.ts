@@ -0,0 +1,114 @@
+// Ties, draws of lots and declaration.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Candidate, DecryptedBallot, ElectionConfig, PublishedTally } from '../types';
+import { INITIAL_ELECTION_CONFIG } from '../constants';
+import { decryptExponent, encryptBallot, generateElectionKeyPair } from '../services/cryptoService';
+import { ballotSpec } from '../services/ballotService';
+import { combineSourceTallies } from '../services/tallyService';
+import { contestLotOrder, contestOutcome, declarationProblem, drawFor, drawLots, drawOrder, recordDraw, recountContest, replayDraw } from '../services/declarationService';
+import { candidate, closedElection } from './election';
+
+const CONSTITUENCY = 'New Delhi Central';
+
+const pluralityTally = (counts: Record<string, number>): PublishedTally => ({
+  constituency: CONSTITUENCY,
+  contestId: 'mp',
+  results: Object.entries(counts).map(([candidateId, count]) => ({ candidateId, count })),
+  sources: [],
+  invalid: 0,
+  publishedAt: 0,
+});
+
+test('a draw of lots replays from its seed, and a changed result does not', async () => {
+  const tally = pluralityTally({ c1: 3, c2: 3, c3: 3, c4: 1 });
+  const tie = contestOutcome(tally, 2).tie!;
+  assert.deepEqual(tie, { candidateIds: ['c1', 'c2', 'c3'], places: 2 });
+
+  const draw = await drawLots(tally, tie, 'Returning Officer');
+  assert.equal(draw.chosen.length, 2);
+  assert.ok(draw.chosen.every(id => tie.candidateIds.includes(id)));
+  assert.equal(await replayDraw(draw), true);
+  assert.equal(await replayDraw({ ...draw }), true);
+  assert.deepEqual(await drawOrder(draw, ['c4', 'c3', 'c2', 'c1']), await drawOrder(draw, ['c1', 'c2', 'c3', 'c4']));
+
+  const loser = tie.candidateIds.find(id => !draw.chosen.includes(id))!;
+  assert.equal(await replayDraw({ ...draw, chosen: [draw.chosen[0], loser] }), false);
+});
+
+test('a draw settles a plurality tie only between the candidates still tied', async () => {
+  const tally = pluralityTally({ c1: 3, c2: 3, c3: 1 });
+  const tie = contestOutcome(tally, 1).tie!;
+  const draw = await drawLots(tally, tie, 'Returning Officer');
+
+  const settled = contestOutcome(tally, 1, draw);
+  assert.equal(settled.tie, null);
+  assert.deepEqual(settled.winners, draw.chosen);
+  assert.equal(settled.margin, 0);
+
+  const stale = contestOutcome(pluralityTally({ c1: 3, c2: 3, c3: 3 }), 1, draw);
+  assert.notEqual(stale.tie, null);
+  assert.deepEqual(stale.winners, []);
+});
+
+// A closed Rajya Sabha election whose STV count stops on a tie between the
+// second and third candidates for exclusion
+const tiedStvElection = async (): Promise<ElectionConfig> => {
+  const { publicKey, secret } = generateElectionKeyPair();
+  const extra: Candidate = { id: 'c5', name: 'Third Candidate', partyId: 'ind', partyName: 'Independent', symbol: '👤', constituency: CONSTITUENCY, contestId: 'mp' };
+  const base: ElectionConfig = { ...INITIAL_ELECTION_CONFIG, type: 'Rajya Sabha Election', status: 'CLOSED', candidates: [...INITIAL_ELECTION_CONFIG.candidates, extra], contests: [{ id: 'mp', name: 'Member', seats: 1 }] };
+  const spec = ballotSpec(base, CONSTITUENCY, 'mp');
+  const [x, y, z] = spec.candidateIds;
+  const rankings = [[x], [x], [x], [y, x], [y, x], [z], [z]];
+
+  const decryptedBallots: DecryptedBallot[] = [];
+  for (const ranking of rankings) {
+    const { ballot } = await encryptBallot(ranking, publicKey, spec);
+    decryptedBallots.push({ plaintext: ballot.ciphertexts.map(c => decryptExponent(c, secret, 1)!), decryptionProofs: [] });
+  }
+  const tally = combineSourceTallies(CONSTITUENCY, spec, [{ source: 'BOOTH', mode: 'PER_BALLOT', results: [], invalid: 0, decryptedBallots }], 1);
+  return { ...base, tally: [tally], draws: [] };
+};
+
+test('an STV tie blocks the declaration until lots are drawn, then the count is run again', async () => {
+  const config = await tiedStvElection();
+  const [tally] = config.tally!;
+  const [x, y, z] = ballotSpec(config, CONSTITUENCY, 'mp').candidateIds;
+
+  const tie = contestOutcome(tally, 1).tie!;
+  assert.deepEqual(tie, { candidateIds: [y, z], places: 1 });
+  assert.match(declarationProblem(config)!, /Draw lots first/);
+
+  const draw = await drawLots(tally, tie, 'Returning Officer');
+  const settled = recordDraw(config, draw, await contestLotOrder(config, draw));
+  const [recounted] = settled.tally!;
+  assert.equal(recounted.preferential!.tie, undefined);
+  assert.deepEqual(recounted.preferential!.elected, [x]);
+  assert.equal(recounted.preferential!.rounds[0].excluded, tie.candidateIds.find(id => !draw.chosen.includes(id)));
+  assert.equal(contestOutcome(recounted, 1, drawFor(settled, recounted)).tie, null);
+  assert.equal(declarationProblem(settled), null);
+  assert.ok(settled.logs[0].message.includes(draw.seed));
+
+  // Anyone holding the ballots and the seed gets the same count
+  const order = await drawOrder(draw, ballotSpec(config, CONSTITUENCY, 'mp').candidateIds);
+  const again = combineSourceTallies(CONSTITUENCY, ballotSpec(config, CONSTITUENCY, 'mp'), tally.sources, 1, order);
+  assert.deepEqual(again.preferential, recounted.preferential);
+});
+
+test('a recount from a fresh mix of the ledger matches the first STV count', async () => {
+  const base: ElectionConfig = { ...INITIAL_ELECTION_CONFIG, type: 'Rajya Sabha Election', contests: [{ id: 'mp', name: 'Member', seats: 1 }], candidates: [...INITIAL_ELECTION_CONFIG.candidates, candidate('c5', CONSTITUENCY)] };
+  const [x, y, z] = ballotSpec(base, CONSTITUENCY, 'mp').candidateIds;
+  // The third candidate is excluded and their two ballots move on to both others
+  const rankings = [[x], [x], [x], [x], [y], [y], [y], [z, x], [z, y]];
+  const { config, votes, secret } = await closedElection(base, rankings.map((ranking, i) => ({ boothId: i % 2 ? 'K-101' : 'K-102', choices: [ranking] })));
+  const tally = config.tally!.find(t => t.constituency === CONSTITUENCY)!;
+  assert.deepEqual(tally.preferential!.rounds[0].transfers, { [x]: 1, [y]: 1 });
+
+  // Each recount opens the ballots in another order
+  for (let i = 0; i < 2; i++) {
+    const recount = await recountContest(config, votes, tally, secret, 'Returning Officer');
+    assert.deepEqual(recount.differences, []);
+    assert.equal(recount.matches, true);
+  }
+});
@@ -0,0 +1,79 @@
+// A small election run end to end - signed, sealed, frozen, mixed and counted -
+// for the checks that start from a real ledger. Not a test file itself.
+
+import { Candidate, ElectionConfig, RollEntry, VoteRecord } from '../types';
+import { INITIAL_ELECTION_CONFIG } from '../constants';
+import { encryptBallot, generateElectionKeyPair, generateVoteId } from '../services/cryptoService';
+import { generateBoothKeyPair, signVoteRecord } from '../services/boothSigningService';
+import { blindToken, generateTokenKeyPair, signBlindedToken, unblindToken } from '../services/ballotTokenService';
+import { ballotSpecsForBooth, contestSeats } from '../services/ballotService';
+import { ledgerHeadOf, sealRecord } from '../services/ledgerService';
+import { computeMerkleRoot } from '../services/merkleService';
+import { mixElection } from '../services/mixnetService';
+import { combineSourceTallies, tallyMixedSet } from '../services/tallyService';
+
+export interface ClosedElection {
+  config: ElectionConfig;
+  votes: VoteRecord[];
+  secret: bigint;
+}
+
+/** A ballot cast at a booth: the chosen candidate ids of each contest, in ballot order. */
+export interface CastBallot {
+  boothId: string;
+  choices: string[][];
+}
+
+export const candidate = (id: string, constituency: string): Candidate =>
+  ({ id, name: `Candidate ${id}`, partyId: 'ind', partyName: 'Independent', symbol: '👤', constituency, contestId: 'mp' });
+
+/** Casts the ballots on `base` and closes, mixes and counts the election. */
+export const closedElection = async (base: ElectionConfig, ballots: CastBallot[]): Promise<ClosedElection> => {
+  const { publicKey, secret } = generateElectionKeyPair();
+  const tokenKeys = await generateTokenKeyPair();
+  const boothKeys = new Map<string, string>();
+  const booths = [];
+  for (const booth of base.booths) {
+    const keys = await generateBoothKeyPair();
+    boothKeys.set(booth.id, keys.privateKey);
+    booths.push({ ...booth, signingPublicKey: keys.publicKey });
+  }
+  // One checked-in elector for every ballot cast
+  const electoralRoll: RollEntry[] = ballots.map((b, i) => ({ epic: `TST${String(i).padStart(7, '0')}`, name: `Elector ${i}`, boothId: b.boothId, hasVoted: true }));
+  const config: ElectionConfig = { ...base, publicKey, tokenKey: tokenKeys.publicKey, booths, electoralRoll, postalEnvelopes: [], draws: [], recounts: [] };
+
+  const votes: VoteRecord[] = [];
+  for (const { boothId, choices } of ballots) {
+    const specs = ballotSpecsForBooth(config, boothId);
+    const encrypted = [];
+    for (let k = 0; k < specs.length; k++) encrypted.push((await encryptBallot(choices[k], publicKey, specs[k])).ballot);
+    const { token, blinded, blindingFactor } = await blindToken(tokenKeys.publicKey);
+    const ballotToken = await unblindToken(token, signBlindedToken(blinded, tokenKeys.privateKey), blindingFactor, tokenKeys.publicKey);
+    const record = { voteId: generateVoteId(), timestamp: Date.now(), source: 'BOOTH' as const, boothId, ballotToken, encryptedData: JSON.stringify(encrypted) };
+    const signature = await signVoteRecord(record, boothKeys.get(boothId)!);
+    votes.push(await sealRecord({ ...record, signature }, ledgerHeadOf(votes).hash));
+  }
+
+  const mixedBallots = await mixElection(votes, config, publicKey);
+  const tally = [];
+  for (const set of mixedBallots.filter(m => m.source === 'BOOTH')) {
+    const seats = contestSeats(config.contests, set.contestId);
+    const parts = [];
+    for (const part of mixedBallots.filter(m => m.constituency === set.constituency && m.contestId === set.contestId)) {
+      parts.push(await tallyMixedSet(part, secret, publicKey, seats, config.tallyMode));
+    }
+    tally.push(combineSourceTallies(set.constituency, set, parts, seats));
+  }
+  return {
+    config: {
+      ...config,
+      status: 'CLOSED',
+      ledgerHead: ledgerHeadOf(votes),
+      bulletinBoard: { root: await computeMerkleRoot(votes), leafCount: votes.length, frozenAt: Date.now() },
+      mixedBallots,
+      tally,
+    },
+    votes,
+    secret,
+  };
+};
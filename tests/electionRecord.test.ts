@@ -0,0 +1,83 @@
+// Public election record export and the standalone verifier.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ElectionRecord } from '../types';
+import { INITIAL_ELECTION_CONFIG } from '../constants';
+import { ballotSpec } from '../services/ballotService';
+import { declarationProblem, declareResults } from '../services/declarationService';
+import { buildElectionRecord, recordShapeProblem, verifyElectionRecord } from '../services/electionRecordService';
+import { closedElection } from './election';
+
+const publishedRecord = async (): Promise<ElectionRecord> => {
+  const [a, b] = ballotSpec(INITIAL_ELECTION_CONFIG, 'New Delhi Central', 'mp').candidateIds;
+  const [c, d] = ballotSpec(INITIAL_ELECTION_CONFIG, 'New Delhi South', 'mp').candidateIds;
+  const { config, votes } = await closedElection(INITIAL_ELECTION_CONFIG, [
+    { boothId: 'K-101', choices: [[a]] },
+    { boothId: 'K-102', choices: [[a]] },
+    { boothId: 'K-101', choices: [[b]] },
+    { boothId: 'K-201', choices: [[c]] },
+    { boothId: 'K-201', choices: [[c]] },
+    { boothId: 'K-201', choices: [[d]] },
+  ]);
+  assert.equal(declarationProblem(config), null);
+  return buildElectionRecord(declareResults(config, 'Returning Officer'), votes);
+};
+
+// The record as a file, as the verifier is run on it
+const runVerifier = (record: unknown) => {
+  const dir = mkdtempSync(join(tmpdir(), 'election-record-'));
+  const path = join(dir, 'record.json');
+  writeFileSync(path, JSON.stringify(record));
+  try {
+    return spawnSync(process.execPath, ['--import', 'tsx', 'verifier/verifyElectionRecord.ts', path], { encoding: 'utf8' });
+  } finally {
+    rmSync(dir, { recursive: true });
+  }
+};
+
+const copy = (record: ElectionRecord): ElectionRecord => JSON.parse(JSON.stringify(record));
+
+test('an exported record verifies, in the app and with the standalone verifier', async () => {
+  const record = copy(await publishedRecord());
+  assert.equal(recordShapeProblem(record), null);
+  const { valid, checks } = await verifyElectionRecord(record);
+  assert.deepEqual(checks.filter(c => !c.passed), []);
+  assert.equal(valid, true);
+
+  const run = runVerifier(record);
+  assert.equal(run.status, 0, run.stdout + run.stderr);
+  assert.match(run.stdout, /Election record verified\./);
+});
+
+test('a record with one vote or one proof altered fails verification', async () => {
+  const record = copy(await publishedRecord());
+
+  // One ballot swapped for another on the ledger
+  const swapped = copy(record);
+  swapped.votes[0].encryptedData = swapped.votes[2].encryptedData;
+  const ledger = await verifyElectionRecord(swapped);
+  assert.equal(ledger.valid, false);
+  assert.ok(ledger.checks.some(c => c.label === 'Ledger hash chain' && !c.passed));
+  assert.equal(runVerifier(swapped).status, 1);
+
+  // One decryption proof of the published count
+  const forged = copy(record);
+  const source = forged.tally[0].sources[0];
+  assert.equal(source.mode, 'AGGREGATE');
+  if (source.mode === 'AGGREGATE') source.aggregate.decryptionProofs[0].z = source.aggregate.decryptionProofs[1].z;
+  const proofs = await verifyElectionRecord(forged);
+  assert.equal(proofs.valid, false);
+  assert.ok(proofs.checks.some(c => c.label === 'Decryption proofs' && !c.passed));
+  const run = runVerifier(forged);
+  assert.equal(run.status, 1);
+  assert.match(run.stdout, /FAIL {2}Decryption proofs/);
+});
+
+test('the verifier refuses a file that is not an election record', () => {
+  assert.equal(runVerifier({ format: 'something else' }).status, 2);
+});
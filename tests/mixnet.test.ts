@@ -0,0 +1,65 @@
+// Re-encryption mix and its shuffle proof.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BallotSpec, VoteRecord } from '../types';
+import { decodeChoices, decryptExponent, encryptBallot, encryptExponent, generateElectionKeyPair } from '../services/cryptoService';
+import { mixBallots, shuffleBallots, verifyMixedBallots, verifyShuffle } from '../services/mixnetService';
+
+const { publicKey, secret } = generateElectionKeyPair();
+const spec: BallotSpec = { contestId: 'mp', candidateIds: ['a', 'b', 'c'], ranked: false };
+
+const ballotsFor = async (choices: string[]) => {
+  const ballots = [];
+  for (const choice of choices) ballots.push((await encryptBallot([choice], publicKey, spec)).ballot);
+  return ballots;
+};
+
+// Only the fields the mix reads; the ledger seal and signature are not checked here
+const ledgerRecord = (voteId: string, encryptedData: string) =>
+  ({ voteId, encryptedData, timestamp: 0, boothId: 'K-101', signature: '', previousHash: '', integrityHash: '' }) as VoteRecord;
+
+const openAll = (ballots: { alpha: string; beta: string }[][]) =>
+  ballots.map(b => decodeChoices(b.map(c => decryptExponent(c, secret, 1)!), spec)![0]).sort();
+
+test('a shuffle proof verifies, and the output holds the same choices', async () => {
+  const inputs = (await ballotsFor(['a', 'b', 'b', 'c'])).map(b => b.ciphertexts);
+  const { ciphertexts, proof } = await shuffleBallots(inputs, publicKey);
+  assert.equal(await verifyShuffle(inputs, ciphertexts, proof, publicKey), true);
+  assert.deepEqual(openAll(ciphertexts), ['a', 'b', 'b', 'c']);
+});
+
+test('a shuffle proof fails once a ballot is replaced or dropped', async () => {
+  const inputs = (await ballotsFor(['a', 'b', 'c'])).map(b => b.ciphertexts);
+  const { ciphertexts, proof } = await shuffleBallots(inputs, publicKey);
+
+  const replaced = [spec.candidateIds.map((_, k) => encryptExponent(k === 0 ? 1 : 0, publicKey)), ...ciphertexts.slice(1)];
+  assert.equal(await verifyShuffle(inputs, replaced, proof, publicKey), false);
+  assert.equal(await verifyShuffle(inputs, ciphertexts.slice(1), proof, publicKey), false);
+  assert.equal(await verifyShuffle(inputs.slice(1), ciphertexts, proof, publicKey), false);
+});
+
+test('a shuffle proof fails under another election key', async () => {
+  const inputs = (await ballotsFor(['a', 'c'])).map(b => b.ciphertexts);
+  const { ciphertexts, proof } = await shuffleBallots(inputs, publicKey);
+  assert.equal(await verifyShuffle(inputs, ciphertexts, proof, generateElectionKeyPair().publicKey), false);
+});
+
+test('a mixed set verifies against the ledger and excludes only unproven ballots', async () => {
+  const [first, second] = await ballotsFor(['a', 'b']);
+  const forged = { ...first, ciphertexts: [encryptExponent(2, publicKey), ...first.ciphertexts.slice(1)] };
+  const votes = [
+    ledgerRecord('v1', JSON.stringify([first])),
+    ledgerRecord('v2', JSON.stringify([second])),
+    ledgerRecord('v3', JSON.stringify([forged])),
+  ];
+  const mixed = await mixBallots(votes, spec, publicKey, 'New Delhi Central', 'BOOTH', 'root');
+  assert.deepEqual(mixed.excludedVoteIds, ['v3']);
+  assert.equal(mixed.ciphertexts.length, 2);
+  assert.deepEqual(await verifyMixedBallots(mixed, votes, publicKey), { valid: true, reason: null });
+
+  const dropped = { ...mixed, excludedVoteIds: ['v2', 'v3'] };
+  assert.equal((await verifyMixedBallots(dropped, votes, publicKey)).valid, false);
+  const swapped = { ...mixed, ciphertexts: [...mixed.ciphertexts].reverse() };
+  assert.equal((await verifyMixedBallots(swapped, votes, publicKey)).valid, false);
+});
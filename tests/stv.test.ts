@@ -0,0 +1,80 @@
+// STV and IRV counts, worked by hand.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { countPreferential, droopQuota, samePreferentialCount } from '../services/stvService';
+
+const ballots = (...groups: [number, string[]][]) => groups.flatMap(([n, ranking]) => Array.from({ length: n }, () => ranking));
+
+test('the Droop quota is floor(valid / (seats + 1)) + 1', () => {
+  assert.equal(droopQuota(9, 1), 5);
+  assert.equal(droopQuota(12, 2), 5);
+  assert.equal(droopQuota(100, 3), 26);
+});
+
+test('IRV: the lowest candidate is excluded and their ballots elect the runner-up', () => {
+  // A 4, B 3, C 2: C is excluded and both C ballots go to B, who reaches 5
+  const count = countPreferential(['A', 'B', 'C'], ballots([4, ['A']], [3, ['B', 'C']], [2, ['C', 'B']]), 1);
+  assert.equal(count.quota, 5);
+  assert.deepEqual(count.rounds.map(r => r.excluded), ['C', null]);
+  assert.deepEqual(count.rounds[0].transfers, { B: 2 });
+  assert.deepEqual(count.rounds[1].tallies, { A: 4, B: 5 });
+  assert.deepEqual(count.elected, ['B']);
+  assert.equal(count.tie, undefined);
+});
+
+test('STV: a surplus moves on at a reduced value', () => {
+  // 16 ballots, quota 6. A's 8 elect A; the surplus of 2 moves on at a quarter
+  // of a ballot, lifting B to 4. D is excluded and their 2 ballots take C to the quota.
+  const count = countPreferential(['A', 'B', 'C', 'D'], ballots([8, ['A', 'B']], [2, ['B']], [4, ['C']], [2, ['D', 'C']]), 2);
+  assert.equal(count.quota, 6);
+  assert.deepEqual(count.rounds[0].elected, ['A']);
+  assert.deepEqual(count.rounds[0].transfers, { B: 2 });
+  assert.deepEqual(count.rounds[1].tallies, { A: 6, B: 4, C: 4, D: 2 });
+  assert.deepEqual(count.rounds.map(r => r.excluded), [null, 'D', null]);
+  assert.deepEqual(count.rounds[2].elected, ['C']);
+  assert.deepEqual(count.elected, ['A', 'C']);
+});
+
+test('a tie for exclusion is broken by the most recent earlier round where the votes differ', () => {
+  // Round 2 leaves B and C level on 3; in round 1 C had fewer, so C goes
+  const count = countPreferential(['A', 'B', 'C', 'D'], ballots([4, ['A']], [3, ['B']], [2, ['C']], [1, ['D', 'C']]), 1);
+  assert.deepEqual(count.rounds.map(r => r.excluded), ['D', 'C', 'B', null]);
+  assert.equal(count.tie, undefined);
+  assert.deepEqual(count.elected, ['A']);
+});
+
+test('a tie nothing separates stops the count instead of following ballot order', () => {
+  const rankings = ballots([3, ['A']], [2, ['B', 'A']], [2, ['C']]);
+  const count = countPreferential(['A', 'B', 'C'], rankings, 1);
+  assert.deepEqual(count.tie, { candidateIds: ['B', 'C'], places: 1 });
+  assert.deepEqual(count.elected, []);
+  assert.equal(count.rounds[count.rounds.length - 1].excluded, null);
+
+  // Drawn order: the later-drawn of the tied candidates is excluded
+  assert.deepEqual(countPreferential(['A', 'B', 'C'], rankings, 1, ['C', 'A', 'B']).elected, ['A']);
+  assert.deepEqual(countPreferential(['A', 'B', 'C'], rankings, 1, ['B', 'A', 'C']).elected, ['A']);
+  assert.deepEqual(countPreferential(['A', 'B', 'C'], rankings, 1, ['C', 'A', 'B']).rounds[0].excluded, 'B');
+  assert.deepEqual(countPreferential(['A', 'B', 'C'], rankings, 1, ['B', 'A', 'C']).rounds[0].excluded, 'C');
+});
+
+test('two candidates level for the last seat are a tie for lots too', () => {
+  const count = countPreferential(['A', 'B'], ballots([2, ['A']], [2, ['B']]), 1);
+  assert.deepEqual(count.tie, { candidateIds: ['A', 'B'], places: 1 });
+  assert.deepEqual(countPreferential(['A', 'B'], ballots([2, ['A']], [2, ['B']]), 1, ['B', 'A']).elected, ['B']);
+});
+
+test('counts of the same ballots in another order agree; a changed transfer does not', () => {
+  // A 4, B 3, C 2 of 9; C's ballots go one each to A and B, so A reaches the quota of 5
+  const rankings = ballots([4, ['A']], [3, ['B']], [1, ['C', 'A']], [1, ['C', 'B']]);
+  const count = countPreferential(['A', 'B', 'C'], rankings, 1);
+  const reversed = countPreferential(['A', 'B', 'C'], [...rankings].reverse(), 1);
+  assert.notDeepEqual(Object.keys(reversed.rounds[0].transfers), Object.keys(count.rounds[0].transfers));
+  assert.equal(samePreferentialCount(reversed, count), true);
+
+  const altered = { ...count, rounds: [{ ...count.rounds[0], transfers: { A: 2 } }, ...count.rounds.slice(1)] };
+  assert.equal(samePreferentialCount(altered, count), false);
+  assert.equal(samePreferentialCount({ ...count, elected: ['B'] }, count), false);
+  assert.equal(samePreferentialCount(undefined, count), false);
+  assert.equal(samePreferentialCount(undefined, undefined), true);
+});
@@ -3,6 +3,7 @@ export enum AppMode {
   ADMIN_LOGIN = 'ADMIN_LOGIN',
   ADMIN_DASHBOARD = 'ADMIN_DASHBOARD',
   VOTER_FLOW = 'VOTER_FLOW',
+  VERIFY_RECEIPT = 'VERIFY_RECEIPT',
 }
 
 export enum VoterStep {
@@ -14,6 +15,7 @@ export enum VoterStep {
   VOTE_INTRO = 'VOTE_INTRO',
   VOTE_SELECTION = 'VOTE_SELECTION',
   CONFIRMATION = 'CONFIRMATION',
+  CHALLENGE = 'CHALLENGE',
   SUBMITTING = 'SUBMITTING',
   RECEIPT = 'RECEIPT',
 }
@@ -21,6 +23,7 @@ export enum VoterStep {
 export enum PartyCategory {
   NATIONAL = 'National Party',
   STATE = 'State Party',
+  REGISTERED = 'Registered (Unrecognised) Party',
   INDEPENDENT = 'Independent',
   INSTITUTIONAL = 'Institutional / Demo',
 }
@@ -29,8 +32,9 @@ export interface Party {
   id: string;
   name: string;
   category: PartyCategory;
-  symbolUrl: string; // Emoji for demo, URL for real
-  shortCode: string;
+  symbolUrl: string; // Emoji, or an uploaded image as a PNG data URL (see symbolService)
+  shortCode: string; // Unique within the election, upper case
+  retired?: boolean; // Keeps its candidates but takes no new ones
 }
 
 export interface Candidate {
@@ -39,14 +43,176 @@ export interface Candidate {
   partyId: string; // Link to Party
   partyName?: string; // Denormalized for easier display
   partySymbol?: string; // Denormalized
-  symbol: string; // Candidate specific symbol (mainly for independents)
+  symbol: string; // Party symbol, or a free symbol (mainly for independents); unique on each ballot
+  photoUrl?: string; // Photograph as a JPEG data URL (see symbolService)
+  constituency: string; // Matches PollingBooth.constituency
+  contestId: string; // Office the candidate stands for; see Contest
 }
 
+/**
+ * An office elected on the ballot, e.g. sarpanch or ward member. Every
+ * constituency votes in every contest, each encrypted and tallied separately.
+ */
+export interface Contest {
+  id: string;
+  name: string;
+  seats: number; // Candidates elected in each constituency
+}
+
+/**
+ * How candidates are listed on the ballot. ECI: recognised national parties,
+ * then state parties, then other registered parties, then independents,
+ * alphabetical within each group. The order is locked when the polls open.
+ */
+export interface BallotOrder {
+  rule: 'ECI' | 'ALPHABETICAL' | 'ENTRY'; // ENTRY keeps the order candidates were added in
+  language: 'en' | 'hi' | 'te'; // Script whose collation decides alphabetical order
+  rotatePerBooth: boolean; // Institutional elections only: each booth shows the list rotated
+  rotations: Record<string, number> | null; // Booth id -> rotation drawn at lock time
+  lockedAt: number | null;
+}
+
+export interface ElGamalCiphertext {
+  alpha: string; // g^r (hex)
+  beta: string; // g^m * h^r (hex)
+}
+
+/** Disjunctive Chaum-Pedersen proof that a ciphertext encrypts 0 or 1. */
+export interface ZeroOneProof {
+  a0: string; b0: string; c0: string; z0: string;
+  a1: string; b1: string; c1: string; z1: string;
+}
+
+/** Chaum-Pedersen proof that a ciphertext encrypts a stated value. */
+export interface ChaumPedersenProof {
+  a: string;
+  b: string;
+  c: string;
+  z: string;
+}
+
+/** Which ballot a vote must be cast on: the candidate order and the voting method. */
+export interface BallotSpec {
+  contestId: string;
+  candidateIds: string[];
+  ranked: boolean; // Preferential (STV/IRV) ballot rather than a single choice
+}
+
+/** Extra proofs carried by a ranked ballot's preference matrix. */
+export interface RankedBallotProofs {
+  rowSumProofs: ChaumPedersenProof[]; // Each preference row holds exactly one choice
+  columnProofs: ZeroOneProof[]; // Each candidate is ranked at most once
+}
+
+export interface EncryptedBallot {
+  contestId: string;
+  candidateIds: string[]; // Ballot order the ciphertext vector is bound to
+  ciphertexts: ElGamalCiphertext[]; // One encrypted 0/1 per candidate, or a row-major preference matrix when ranked
+  zeroOneProofs: ZeroOneProof[]; // Each component encrypts 0 or 1
+  sumProof: ChaumPedersenProof; // The components add up to the number of rows (1 unless ranked)
+  ranked?: RankedBallotProofs;
+}
+
+/** Terelius-Wikstrom proof that a mix output is a permuted re-encryption of its input. */
+export interface ShuffleProof {
+  permutationCommitments: string[];
+  chainCommitments: string[];
+  t1: string;
+  t2: string;
+  t3: string;
+  t4: ElGamalCiphertext[]; // One per ballot component
+  tHat: string[];
+  s1: string;
+  s2: string;
+  s3: string;
+  s4: string[]; // One per ballot component
+  sHat: string[];
+  sTilde: string[];
+}
+
+/** Ballots after the mix: shuffled, re-encrypted and unlinkable from the ledger order. */
+export interface MixedBallotSet {
+  constituency: string; // Each constituency's ballots are mixed separately...
+  contestId: string; // ...and so is each contest on them...
+  source: VoteSource; // ...and booth and postal ballots, so each source can be counted on its own
+  boardRoot: string; // Bulletin board the input was taken from
+  candidateIds: string[];
+  ranked: boolean; // Each ciphertext vector is a preference matrix
+  excludedVoteIds: string[]; // Ballots kept out of the mix for failing their proofs
+  ciphertexts: ElGamalCiphertext[][];
+  proof: ShuffleProof;
+  mixedAt: number;
+}
+
+/** How a ballot reached the ledger: cast at a booth, or a postal or service-voter ballot entered by the returning officer. */
+export type VoteSource = 'BOOTH' | 'POSTAL';
+
 export interface VoteRecord {
   voteId: string; // UUID
-  encryptedData: string;
+  encryptedData: string; // JSON-serialized EncryptedBallot[], one per contest in contest order
   timestamp: number;
-  integrityHash: string;
+  source: VoteSource;
+  boothId: string; // Booth whose enrolled key signed the record; the postal desk for postal ballots
+  constituency?: string; // Postal ballots only; a booth ballot belongs to its booth's constituency
+  ballotToken?: BallotToken; // Booth ballots only: the voter's single-use token from the roll check-in
+  signature: string; // ECDSA P-256 over voteId, timestamp, boothId, encryptedData and the source-specific fields (base64)
+  previousHash: string; // integrityHash of the preceding record (genesis: 64 zeros)
+  integrityHash: string; // SHA-256 over previousHash and every other record field
+}
+
+/**
+ * Single-use permission to cast one booth ballot. The roll desk signs the
+ * token blinded (RSA blind signature) when it marks the elector, so the
+ * signature it sees never matches the token on the ledger.
+ */
+export interface BallotToken {
+  token: string; // 32 random bytes chosen by the kiosk (hex)
+  signature: string; // Unblinded RSA signature over the token's full-domain hash (hex)
+}
+
+/** RSA public key the roll desk signs ballot tokens with. */
+export interface TokenKey {
+  n: string; // Modulus (hex)
+  e: string; // Public exponent (hex)
+}
+
+/** One elector on the electoral roll, listed at the booth they vote at. */
+export interface RollEntry {
+  epic: string; // Elector's Photo Identity Card number, unique within the election
+  name: string;
+  boothId: string;
+  hasVoted: boolean; // Marked at check-in; nothing records when, or which ballot followed
+}
+
+/** Electors listed and checked in at one booth; the turnout an election record publishes. */
+export interface BoothTurnout {
+  boothId: string;
+  electors: number;
+  checkedIn: number;
+}
+
+export interface SpoiledBallot {
+  ballotId: string;
+  encryptedData: string;
+  randomness: string[][]; // Revealed per-component randomness (hex), per contest
+  auditPassed: boolean; // Whether the booth's own re-encryption check matched
+  spoiledAt: number;
+}
+
+export interface LedgerHead {
+  count: number;
+  hash: string;
+}
+
+export interface MerkleProofStep {
+  hash: string; // Sibling hash at this level
+  side: 'L' | 'R'; // Which side the sibling sits on
+}
+
+export interface BulletinBoard {
+  root: string; // Merkle root over all ballots, frozen at poll close
+  leafCount: number;
+  frozenAt: number;
 }
 
 export interface PollingBooth {
@@ -60,8 +226,14 @@ export interface PollingBooth {
   networkType: 'LAN' | 'Wi-Fi' | '4G/5G';
   batteryLevel: number;
   lastHeartbeat: number;
-  totalVotes: number;
-  authKey: string;
+  authKey: string; // One-time enrolment code a kiosk presents to register its signing key
+  signingPublicKey: string | null; // Enrolled kiosk's ECDSA public key (base64 SPKI)
+}
+
+export interface KioskIdentity {
+  electionId: string; // Election the booth belongs to; see ElectionSummary
+  boothId: string;
+  privateKey: string; // Booth ECDSA signing key (base64 PKCS#8), held only by the kiosk
 }
 
 export interface SecurityLog {
@@ -73,17 +245,178 @@ export interface SecurityLog {
   boothId?: string;
 }
 
+export interface Trustee {
+  id: string;
+  name: string;
+  shareIndex: number; // x-coordinate of the trustee's Shamir share
+  shareHash: string; // SHA-256 of the issued share, used to check it at decryption
+}
+
+/**
+ * How plurality contests are opened at the tally. AGGREGATE multiplies the
+ * mixed ballots together and decrypts only the per-candidate sums, so no
+ * single ballot is ever opened. PER_BALLOT opens each mixed ballot on its
+ * own. Preferential contests are always opened per ballot: STV needs every
+ * preference list, not just the sums.
+ */
+export type TallyMode = 'AGGREGATE' | 'PER_BALLOT';
+
+/** The component-wise product of a mixed set, opened with a proof for each per-candidate sum. */
+export interface DecryptedAggregate {
+  ciphertexts: ElGamalCiphertext[]; // One per ballot component
+  counts: number[]; // In MixedBallotSet.candidateIds order
+  decryptionProofs: ChaumPedersenProof[];
+}
+
+/** One mixed ballot opened at the tally, with a proof for each component's plaintext. */
+export interface DecryptedBallot {
+  plaintext: number[]; // 0/1 per candidate (or preference matrix cell), in MixedBallotSet.candidateIds order
+  decryptionProofs: ChaumPedersenProof[];
+}
+
+/** One round of a single transferable vote count. Vote values are weighted, so fractional. */
+export interface StvRound {
+  round: number;
+  tallies: Record<string, number>; // Votes held when the round begins; elected candidates keep the quota
+  exhausted: number; // Vote value with no further continuing preference, when the round begins
+  elected: string[]; // Candidates reaching the quota this round
+  excluded: string | null; // Lowest candidate dropped when nobody reached the quota
+  transfers: Record<string, number>; // Vote value moved onto each candidate by this round's surplus or exclusion
+}
+
+/** Round-by-round result of a preferential (STV, or IRV for one seat) count. */
+export interface PreferentialCount {
+  seats: number;
+  quota: number; // Droop quota
+  rounds: StvRound[];
+  elected: string[]; // In order of election
+  tie?: { candidateIds: string[]; places: number }; // A tie only lots can settle stopped the count here
+}
+
+/** One source's mixed ballots for a contest, opened and counted on their own. */
+export type SourceTally = {
+  source: VoteSource;
+  results: TallyResult[]; // First preferences when the count is preferential
+  invalid: number; // Decrypted ballots that were not an honest choice or preference list; always 0 for an aggregate
+} & (
+  | { mode: 'AGGREGATE'; aggregate: DecryptedAggregate }
+  | { mode: 'PER_BALLOT'; decryptedBallots: DecryptedBallot[] } // Same order as the source's MixedBallotSet.ciphertexts
+);
+
+/** The count of one contest in one constituency: booth and postal ballots combined. */
+export interface PublishedTally {
+  constituency: string;
+  contestId: string;
+  results: TallyResult[]; // First preferences when the count is preferential
+  sources: SourceTally[]; // The same count split by ballot source
+  invalid: number;
+  preferential?: PreferentialCount; // Counted over the ballots of every source together
+  publishedAt: number;
+}
+
+/**
+ * A postal or service-voter ballot envelope as checked by the returning
+ * officer. The register never records which ledger ballot an accepted
+ * envelope produced, and neither its order nor its dates line up with the
+ * ledger, so the serial cannot be traced to a vote.
+ */
+export interface PostalEnvelope {
+  serial: string; // Envelope serial number, unique within the election
+  constituency: string;
+  voterCategory: 'POSTAL' | 'SERVICE'; // Absentee postal voter, or service voter
+  status: 'ACCEPTED' | 'REJECTED';
+  reason: string | null; // Why the envelope was rejected
+  checkedBy: string; // Returning officer
+  checkedOn: string; // Day of the check (YYYY-MM-DD); a time of day would match the ballot's ledger timestamp
+}
+
+/**
+ * A tie for the last winning place(s) of a contest, settled by drawing lots.
+ * The tied candidates are ordered by SHA-256 of the seed and their id, so
+ * anyone can replay the draw from the published seed.
+ */
+export interface DrawOfLots {
+  constituency: string;
+  contestId: string;
+  candidateIds: string[]; // Tied candidates
+  places: number; // How many of them win
+  seed: string; // Random hex, drawn once
+  chosen: string[];
+  drawnBy: string; // Returning officer
+  drawnAt: number;
+}
+
+/** A recount of one contest from the stored decrypted ballots, compared with the first count. */
+export interface Recount {
+  constituency: string;
+  contestId: string;
+  orderedBy: string; // Returning officer
+  countedAt: number;
+  matches: boolean;
+  differences: string[];
+}
+
+export interface ContestDeclaration {
+  constituency: string;
+  contestId: string;
+  winners: string[];
+  margin: number | null; // Votes between the last winner and the best loser; fractional after STV transfers
+  draw: DrawOfLots | null; // Set when a tie was settled by lot
+}
+
+/** The returning officer's declaration of every contest's result. It publishes the election. */
+export interface ResultDeclaration {
+  declaredBy: string;
+  declaredAt: number;
+  contests: ContestDeclaration[];
+}
+
 export interface ElectionConfig {
+  id: string; // Registry id; each election's config, ledger and spoiled ballots are stored under it
   status: 'SETUP' | 'ACTIVE' | 'CLOSED' | 'PUBLISHED';
   type: string;
   name: string;
-  startTime: number | null;
-  endTime: number | null;
+  contests: Contest[]; // Offices on the ballot, in voting order
+  ballotOrder: BallotOrder; // Once locked, config.candidates is in ballot order
+  tallyMode: TallyMode; // Fixed when the polls open
+  startTime: number | null; // When the polls actually opened
+  endTime: number | null; // When the polls actually closed
+  scheduledStart: number | null; // Planned automatic opening, if any
+  scheduledEnd: number | null; // Planned automatic closing; voters already in a booth may finish
   parties: Party[];
   candidates: Candidate[];
   publicKey: string | null;
+  trustees: Trustee[];
+  threshold: number; // Shares required to reconstruct the private key
   booths: PollingBooth[];
+  electoralRoll: RollEntry[];
+  tokenKey: TokenKey | null; // Roll desk's blind signing key, generated with the election key
+  slipKey: string | null; // ECDSA public key signing the voter information slips (base64 SPKI)
   logs: SecurityLog[];
+  ledgerHead: LedgerHead | null; // Tail of the ballot hash chain
+  bulletinBoard: BulletinBoard | null;
+  mixedBallots: MixedBallotSet[] | null; // One set per constituency and contest, once the closed ballots are mixed
+  tally: PublishedTally[] | null; // One per constituency and contest
+  postalDeskKey: string | null; // ECDSA public key of the returning officer's postal desk (base64 SPKI)
+  postalEnvelopes: PostalEnvelope[];
+  draws: DrawOfLots[]; // Ties settled by lot before the declaration
+  recounts: Recount[];
+  declaration: ResultDeclaration | null; // Set together with status PUBLISHED
+}
+
+/** Registry entry for one election, e.g. a phase of a general election or a bye-election. */
+export interface ElectionSummary {
+  id: string;
+  name: string;
+  type: string;
+  status: ElectionConfig['status'];
+  createdAt: number;
+  archived: boolean; // Kept for reference only; nothing about it can change any more
+}
+
+export interface ElectionRegistry {
+  currentId: string; // Election open in the app
+  elections: ElectionSummary[];
 }
 
 export interface AccessibilitySettings {
@@ -105,4 +438,31 @@ export const DEFAULT_ACCESS_SETTINGS: AccessibilitySettings = {
 export interface TallyResult {
   candidateId: string;
   count: number;
+  isNota?: boolean; // Counted and charted, but never a winner
+}
+
+/**
+ * Self-contained export of a published election: everything an independent
+ * observer needs to recompute the hashes, check every proof and reproduce
+ * the tally without the app. Booth auth keys are never included.
+ */
+export interface ElectionRecord {
+  format: 'securevote-election-record/1';
+  exportedAt: number;
+  ballot: Pick<ElectionConfig, 'id' | 'name' | 'type' | 'contests' | 'ballotOrder' | 'parties' | 'candidates'>;
+  booths: Pick<PollingBooth, 'id' | 'constituency' | 'signingPublicKey'>[];
+  tokenKey: TokenKey;
+  turnout: BoothTurnout[]; // Roll check-ins per booth; the roll itself is not published
+  postalDeskKey: string | null;
+  postalEnvelopes: PostalEnvelope[];
+  trustees: Trustee[];
+  threshold: number;
+  publicKey: string;
+  votes: VoteRecord[];
+  ledgerHead: LedgerHead;
+  bulletinBoard: BulletinBoard;
+  mixedBallots: MixedBallotSet[];
+  tally: PublishedTally[];
+  declaration: ResultDeclaration;
+  logs: SecurityLog[];
 }
@@ -0,0 +1,46 @@
+// Standalone offline verifier for an exported election record.
+//
+//   npm run verify-record -- election-record.json
+//
+// Runs entirely in Node against the JSON file; it shares the service modules
+// with the app but none of its state or UI. Exits 1 if any check fails, and 2
+// if the file cannot be read or is not an election record.
+
+import { readFileSync } from 'node:fs';
+import { ElectionRecord } from '../types';
+import { recordShapeProblem, verifyElectionRecord } from '../services/electionRecordService';
+
+const main = async () => {
+  const path = process.argv[2];
+  if (!path) {
+    console.error('Usage: npm run verify-record -- <election-record.json>');
+    process.exit(2);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (e) {
+    console.error(`Could not read election record: ${(e as Error).message}`);
+    process.exit(2);
+  }
+  const shapeProblem = recordShapeProblem(parsed);
+  if (shapeProblem) {
+    console.error(`Not a valid election record: ${shapeProblem}`);
+    process.exit(2);
+  }
+  const record = parsed as ElectionRecord;
+
+  console.log(`Verifying "${record.ballot.name}" (${record.votes.length} ballots)\n`);
+  const { valid, checks } = await verifyElectionRecord(record);
+  checks.forEach(c => console.log(`${c.passed ? 'PASS' : 'FAIL'}  ${c.label}: ${c.detail}`));
+
+  console.log(valid ? '\nElection record verified.' : '\nElection record FAILED verification.');
+  process.exit(valid ? 0 : 1);
+};
+
+main().catch(err => {
+  console.error(`Verification aborted: ${err instanceof Error ? err.message : String(err)}`);
+  console.error('Election record FAILED verification.');
+  process.exit(1);
+});